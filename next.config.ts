@@ -2,6 +2,10 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   serverExternalPackages: ['playwright'],
+  // Fixture pages read at runtime by the REINS self-test
+  outputFileTracingIncludes: {
+    '/api/reins/self-test': ['./src/lib/reins/fixtures/**'],
+  },
   images: {
     remotePatterns: [
       {
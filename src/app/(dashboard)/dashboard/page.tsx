@@ -1,6 +1,7 @@
 import Link from 'next/link'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { DraftList } from '@/components/editor/draft-list'
 
 export default function DashboardPage() {
   return (
@@ -56,6 +57,8 @@ export default function DashboardPage() {
           </CardContent>
         </Card>
       </div>
+
+      <DraftList />
     </div>
   )
 }
@@ -9,7 +9,28 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { toast } from 'sonner'
 import type { CompanyProfile } from '@/lib/database.types'
-import type { MaskSettings, PageInfo, PageMaskSettings } from '@/types/editor'
+import { withSignedFontUrls } from '@/lib/company-fonts'
+import { loadReactPdf } from '@/lib/pdfjs'
+import {
+  fromRelativeBlocks,
+  fromRelativeMask,
+  loadTemplateLibrary,
+  toRelativeBlocks,
+  toRelativeMask,
+  type TemplateLibrary,
+} from '@/lib/layout-templates'
+import type { PageBlocks } from '@/lib/edit-history'
+import { deleteDraft, findSessionDraft, loadDraft, saveDraft, type EditorDraftSnapshot } from '@/lib/editor-drafts'
+import {
+  batchTargetPages,
+  joinListingWithPrevious,
+  splitListingAt,
+  type BatchContent,
+  type BatchScope,
+} from '@/lib/page-groups'
+import { normalizeRotation, rotateMaskClockwise } from '@/lib/mask-geometry'
+import { imageFileToPdf, isImageFile, MIN_IMAGE_DPI, UPLOAD_ACCEPT } from '@/lib/image-to-pdf'
+import type { MaskSettings, PageInfo, PageMaskDetections, PageMaskSettings } from '@/types/editor'
 
 // react-pdfを使うコンポーネントはサーバーで評価されないようdynamic importにする
 const PdfViewer = dynamic(
@@ -29,9 +50,31 @@ const PreviewEditor = dynamic(
 
 type EditorStep = 'upload' | 'edit' | 'preview'
 
+// この信頼度以上の自動検出結果は白塗り範囲に自動反映する
+const AUTO_APPLY_CONFIDENCE = 0.5
+
+// 最後の変更からこの時間が経ったら下書きを自動保存する
+const AUTOSAVE_DELAY_MS = 2000
+
 // pdfjs の型定義（any で簡略化してSSR問題を回避）
 type PdfjsType = {
-  getDocument: (src: { data: Uint8Array }) => { promise: Promise<{ numPages: number }> }
+  getDocument: (src: { data: Uint8Array }) => {
+    promise: Promise<{
+      numPages: number
+      getPage: (pageNumber: number) => Promise<{
+        rotate: number
+        getViewport: (params: { scale: number }) => { width: number; height: number }
+      }>
+    }>
+  }
+}
+
+// ページ単位の状態からページを取り除く
+function withoutPage<T>(map: { [pageId: string]: T }, pageId: string): { [pageId: string]: T } {
+  if (!(pageId in map)) return map
+  const next = { ...map }
+  delete next[pageId]
+  return next
 }
 
 export interface ObikaeEmbedContext {
@@ -45,11 +88,26 @@ export default function EditorPage() {
   const [pages, setPages] = useState<PageInfo[]>([])
   const [selectedPageId, setSelectedPageId] = useState<string | null>(null)
   const [maskSettings, setMaskSettings] = useState<PageMaskSettings>({})
+  const [maskDetections, setMaskDetections] = useState<PageMaskDetections>({})
+  const [detectingPageIds, setDetectingPageIds] = useState<Set<string>>(new Set())
+  // 手動で白塗り範囲を調整したページ・既定テンプレートの白塗りを適用したページ（自動検出で上書きしない）
+  const editedMaskPageIds = useRef<Set<string>>(new Set())
   const [companyProfile, setCompanyProfile] = useState<CompanyProfile | null>(null)
   const [userEmail, setUserEmail] = useState<string>('')
   const [loadingProfile, setLoadingProfile] = useState(true)
   const [pdfjsReady, setPdfjsReady] = useState(false)
   const [embedContext, setEmbedContext] = useState<ObikaeEmbedContext | null>(null)
+  const [templateLibrary, setTemplateLibrary] = useState<TemplateLibrary>({ templates: [], defaultTemplateId: null })
+  // ブロック配置はプレビューを離れても保持する（座標はプレビューのピクセル、pageDimensions が基準）
+  const [blocks, setBlocks] = useState<PageBlocks>({})
+  const [pageDimensions, setPageDimensions] = useState<{ [pageId: string]: { width: number; height: number } }>({})
+  // プレビュー未表示のページへ一括適用したブロック（ページ相対、初回表示時に配置）
+  const [pendingBlocks, setPendingBlocks] = useState<PageBlocks>({})
+  const [checkedPageIds, setCheckedPageIds] = useState<Set<string>>(new Set())
+  // 自動保存先の下書き（最初の保存時に採番、再開時は元の下書きを引き継ぐ）
+  const draftIdRef = useRef<string | null>(null)
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null)
   const pdfjsRef = useRef<PdfjsType | null>(null)
   const pdfContainerRef = useRef<HTMLDivElement>(null)
   const [pdfMaxWidth, setPdfMaxWidth] = useState<number>(0)
@@ -74,13 +132,11 @@ export default function EditorPage() {
   useEffect(() => {
     let mounted = true
     console.log('[pdfjs] Starting to load react-pdf...')
-    import('react-pdf').then((mod) => {
+    // workerはreact-pdf同梱のpdfjs-distからバンドルしたものを使う
+    loadReactPdf().then((mod) => {
       console.log('[pdfjs] react-pdf loaded, mounted:', mounted)
       if (!mounted) return
-      // CDNからworkerをロード（バージョンは動的に取得）
-      const version = mod.pdfjs.version
-      console.log('[pdfjs] version:', version)
-      mod.pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${version}/build/pdf.worker.min.mjs`
+      console.log('[pdfjs] version:', mod.pdfjs.version)
       pdfjsRef.current = mod.pdfjs as unknown as PdfjsType
       setPdfjsReady(true)
       console.log('[pdfjs] Ready!')
@@ -114,7 +170,13 @@ export default function EditorPage() {
         }
 
         if (data) {
-          setCompanyProfile(data)
+          setCompanyProfile(await withSignedFontUrls(supabase, data))
+        }
+
+        try {
+          setTemplateLibrary(await loadTemplateLibrary())
+        } catch (error) {
+          console.error('Error loading templates:', error)
         }
       } catch (error) {
         console.error('Error:', error)
@@ -126,6 +188,33 @@ export default function EditorPage() {
     loadProfile()
   }, [])
 
+  // 帯の自動検出（ページごとに順番に実行）
+  const runBandDetection = useCallback(async (targets: PageInfo[], force = false) => {
+    const { detectBand } = await import('@/lib/band-detector')
+    for (const page of targets) {
+      setDetectingPageIds((prev) => new Set(prev).add(page.id))
+      try {
+        const { mask, detection } = await detectBand(page.pdfData, page.pageNumber, page.rotation)
+        setMaskDetections((prev) => ({ ...prev, [page.id]: detection }))
+        const shouldApply = force
+          ? detection.source !== 'none'
+          : detection.confidence >= AUTO_APPLY_CONFIDENCE && !editedMaskPageIds.current.has(page.id)
+        if (shouldApply) {
+          setMaskSettings((prev) => ({ ...prev, [page.id]: { ...prev[page.id], ...mask } }))
+        }
+      } catch (error) {
+        console.error('[band-detector] failed:', page.id, error)
+        setMaskDetections((prev) => ({ ...prev, [page.id]: { confidence: 0, source: 'none' } }))
+      } finally {
+        setDetectingPageIds((prev) => {
+          const next = new Set(prev)
+          next.delete(page.id)
+          return next
+        })
+      }
+    }
+  }, [])
+
   const handleFilesSelected = useCallback(async (files: File[]) => {
     if (!pdfjsReady || !pdfjsRef.current) {
       toast.error('PDFライブラリの読み込み中です。しばらくお待ちください。')
@@ -133,20 +222,49 @@ export default function EditorPage() {
     }
 
     const newPages: PageInfo[] = []
+    const newMaskSettings: PageMaskSettings = {}
+    const defaultTemplate = templateLibrary.templates.find(
+      (t) => t.id === templateLibrary.defaultTemplateId
+    )
     const existingFileCount = new Set(pages.map(p => p.fileId)).size
+    const lowResolutionNames: string[] = []
 
     for (let fileIndex = 0; fileIndex < files.length; fileIndex++) {
       const file = files[fileIndex]
-      const arrayBuffer = await file.arrayBuffer()
-      const uint8Array = new Uint8Array(arrayBuffer)  // Uint8Arrayに変換（detached対策）
       const fileId = `file-${Date.now()}-${fileIndex}`
 
       try {
+        let uint8Array: Uint8Array  // Uint8Arrayに変換（detached対策）
+        if (isImageFile(file)) {
+          // 画像は1ページのPDFに変換（EXIFの向きを反映）
+          const converted = await imageFileToPdf(file)
+          uint8Array = converted.pdfData
+          if (converted.lowResolution) lowResolutionNames.push(file.name)
+        } else {
+          uint8Array = new Uint8Array(await file.arrayBuffer())
+        }
+
         const pdf = await pdfjsRef.current.getDocument({ data: uint8Array.slice() }).promise
         const numPages = pdf.numPages
 
         for (let pageNum = 1; pageNum <= numPages; pageNum++) {
           const pageId = `${fileId}-page-${pageNum}`
+
+          const pdfPage = await pdf.getPage(pageNum)
+          const viewport = pdfPage.getViewport({ scale: 1 })
+
+          // 既定テンプレートに白塗り範囲があればページサイズに合わせて適用
+          if (defaultTemplate?.mask) {
+            newMaskSettings[pageId] = fromRelativeMask(defaultTemplate.mask, viewport)
+            editedMaskPageIds.current.add(pageId)
+          } else {
+            newMaskSettings[pageId] = {
+              bottomHeight: 100,
+              leftWidth: 0,
+              enableLShape: false,
+            }
+          }
+
           newPages.push({
             id: pageId,
             fileId,
@@ -155,40 +273,130 @@ export default function EditorPage() {
             fileName: file.name,
             pdfData: uint8Array,  // Uint8Arrayを保存
             status: 'pending',
+            pageSize: { width: viewport.width, height: viewport.height },
+            rotation: pdfPage.rotate,
           })
         }
       } catch (error) {
         console.error('PDF parse error:', error)
-        toast.error(`${file.name} の読み込みに失敗しました`)
+        toast.error(
+          isImageFile(file) && error instanceof Error
+            ? `${file.name}: ${error.message}`
+            : `${file.name} の読み込みに失敗しました`
+        )
       }
     }
 
+    if (lowResolutionNames.length > 0) {
+      toast.warning(
+        `${lowResolutionNames.join('、')} は解像度が低いため（${MIN_IMAGE_DPI}dpi未満）、公開後の画像が粗くなる可能性があります`
+      )
+    }
+
     if (newPages.length > 0) {
       setPages((prev) => [...prev, ...newPages])
-      const newMaskSettings: PageMaskSettings = {}
-      newPages.forEach((page) => {
-        newMaskSettings[page.id] = {
-          bottomHeight: 100,
-          leftWidth: 0,
-          enableLShape: false,
-        }
-      })
       setMaskSettings((prev) => ({ ...prev, ...newMaskSettings }))
 
       if (!selectedPageId) {
         setSelectedPageId(newPages[0].id)
       }
       setStep('edit')
+      void runBandDetection(newPages)
+    }
+  }, [pages, selectedPageId, pdfjsReady, templateLibrary, runBandDetection])
+
+  const restoreDraft = useCallback((id: string, draft: EditorDraftSnapshot) => {
+    draftIdRef.current = id
+    editedMaskPageIds.current = new Set(draft.editedMaskPageIds)
+    setPages(draft.pages)
+    setSelectedPageId(draft.selectedPageId)
+    setMaskSettings(draft.maskSettings)
+    setMaskDetections(draft.maskDetections)
+    setBlocks(draft.blocks)
+    setPageDimensions(draft.pageDimensions)
+    setPendingBlocks(draft.pendingBlocks)
+    setStep(draft.step)
+  }, [])
+
+  // ダッシュボードの「再開」から開いた場合（/editor?draft=<id>）
+  useEffect(() => {
+    if (loadingProfile) return
+    const draftId = new URLSearchParams(window.location.search).get('draft')
+    if (!draftId) return
+
+    let cancelled = false
+    loadDraft(draftId)
+      .then((draft) => {
+        if (cancelled) return
+        restoreDraft(draftId, draft)
+        toast.success('下書きを再開しました')
+      })
+      .catch((error) => {
+        console.error('[editor-drafts] resume failed:', error)
+        toast.error(error instanceof Error ? error.message : '下書きの読み込みに失敗しました')
+      })
+      .finally(() => window.history.replaceState({}, '', '/editor'))
+
+    return () => {
+      cancelled = true
+    }
+  }, [loadingProfile, restoreDraft])
+
+  // 変更が落ち着いたら下書きを自動保存
+  useEffect(() => {
+    if (step === 'upload' || pages.length === 0) return
+
+    const timer = setTimeout(() => {
+      autosaveTimerRef.current = null
+      const id = draftIdRef.current ?? crypto.randomUUID()
+      draftIdRef.current = id
+      saveDraft(
+        id,
+        {
+          step,
+          selectedPageId,
+          pages,
+          maskSettings,
+          maskDetections,
+          editedMaskPageIds: Array.from(editedMaskPageIds.current),
+          blocks,
+          pageDimensions,
+          pendingBlocks,
+        },
+        embedContext
+          ? { sessionId: embedContext.sessionId, title: `${embedContext.customerName}様` }
+          : {}
+      )
+        .then(() => setDraftSavedAt(new Date()))
+        .catch((error) => console.error('[editor-drafts] autosave failed:', error))
+    }, AUTOSAVE_DELAY_MS)
+    autosaveTimerRef.current = timer
+
+    return () => clearTimeout(timer)
+  }, [step, selectedPageId, pages, maskSettings, maskDetections, blocks, pageDimensions, pendingBlocks, embedContext])
+
+  // 出力・公開が済んだら下書きは不要（この後さらに編集すれば新しい下書きになる）
+  const handleFinished = useCallback(() => {
+    if (autosaveTimerRef.current) {
+      clearTimeout(autosaveTimerRef.current)
+      autosaveTimerRef.current = null
     }
-  }, [pages.length, selectedPageId, pdfjsReady])
+    const id = draftIdRef.current
+    if (!id) return
+    draftIdRef.current = null
+    setDraftSavedAt(null)
+    deleteDraft(id).catch((error) => console.error('[editor-drafts] delete after finish failed:', error))
+  }, [])
 
   // Auto-load REINS PDFs from IndexedDB (preferred) or sessionStorage (legacy).
   useEffect(() => {
-    if (!pdfjsReady) return
+    // 既定テンプレートを反映させるため、会社情報・テンプレートの読み込み完了を待つ
+    if (!pdfjsReady || loadingProfile) return
     const params = new URLSearchParams(window.location.search)
     if (params.get('source') !== 'reins') return
 
     const isEmbed = params.get('embed') === '1'
+    let sessionId: string | null = null
 
     // Pick up obikae embed context (stashed by /editor/quick) before we strip the URL
     if (isEmbed) {
@@ -197,6 +405,7 @@ export default function EditorPage() {
         if (rawCtx) {
           const parsed = JSON.parse(rawCtx) as ObikaeEmbedContext
           setEmbedContext(parsed)
+          sessionId = parsed.sessionId
         }
       } catch (e) {
         console.error('[editor] Failed to parse obikae-embed-context:', e)
@@ -208,6 +417,29 @@ export default function EditorPage() {
     ;(async () => {
       const { getPdfs, clearPdfs } = await import('@/lib/pdf-store')
 
+      // 同じ帯替えセッションの下書きがあれば、PDFを読み直さず前回の続きから再開する
+      if (sessionId) {
+        try {
+          const draft = await findSessionDraft(sessionId)
+          if (draft) {
+            draftIdRef.current = draft.id
+            if (draft.resumable) {
+              const snapshot = await loadDraft(draft.id)
+              if (cancelled) return
+              restoreDraft(draft.id, snapshot)
+              toast.success('前回の編集を再開しました')
+              await clearPdfs('reins-pdfs').catch(() => {})
+              sessionStorage.removeItem('reins-pdfs')
+              sessionStorage.removeItem('reins-pdf-names')
+              window.history.replaceState({}, '', '/editor?embed=1')
+              return
+            }
+          }
+        } catch (e) {
+          console.error('[reins-editor] Session draft lookup failed:', e)
+        }
+      }
+
       // Prefer IndexedDB (can hold many MB of PDFs).
       let pdfBytesList: Uint8Array[] | null = null
       try {
@@ -237,6 +469,12 @@ export default function EditorPage() {
       if (!pdfBytesList || pdfBytesList.length === 0 || cancelled) return
 
       console.log(`[reins-editor] Loading ${pdfBytesList.length} PDFs`)
+      let pdfNames: string[] = []
+      try {
+        pdfNames = JSON.parse(sessionStorage.getItem('reins-pdf-names') ?? '[]')
+      } catch {
+        // 名前がなければ連番
+      }
       const files = pdfBytesList.map((bytes, i) => {
         console.log(
           `[reins-editor] PDF ${i + 1}: ${bytes.length} bytes, header: ${Array.from(
@@ -249,7 +487,7 @@ export default function EditorPage() {
         // as a BlobPart on the File constructor.
         const buf = new ArrayBuffer(bytes.length)
         new Uint8Array(buf).set(bytes)
-        return new File([buf], `reins_${i + 1}.pdf`, { type: 'application/pdf' })
+        return new File([buf], `${pdfNames[i] ?? `reins_${i + 1}`}.pdf`, { type: 'application/pdf' })
       })
       handleFilesSelected(files)
 
@@ -260,6 +498,7 @@ export default function EditorPage() {
         console.warn('[reins-editor] IndexedDB clear failed:', e)
       }
       sessionStorage.removeItem('reins-pdfs')
+      sessionStorage.removeItem('reins-pdf-names')
 
       // Keep obikae-embed-context in sessionStorage so PublishDialog can read it;
       // just strip sensitive query params from the URL.
@@ -269,11 +508,12 @@ export default function EditorPage() {
     return () => {
       cancelled = true
     }
-  }, [pdfjsReady, handleFilesSelected])
+  }, [pdfjsReady, loadingProfile, handleFilesSelected, restoreDraft])
 
   const handleMaskChange = useCallback(
     (newSettings: MaskSettings) => {
       if (!selectedPageId) return
+      editedMaskPageIds.current.add(selectedPageId)
       setMaskSettings((prev) => ({
         ...prev,
         [selectedPageId]: newSettings,
@@ -282,6 +522,152 @@ export default function EditorPage() {
     [selectedPageId]
   )
 
+  const handlePageMaskChange = useCallback((pageId: string, mask: MaskSettings) => {
+    editedMaskPageIds.current.add(pageId)
+    setMaskSettings((prev) => ({ ...prev, [pageId]: mask }))
+  }, [])
+
+  const handleToggleChecked = useCallback((id: string) => {
+    setCheckedPageIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }, [])
+
+  const handleReorderPage = useCallback((id: string, toIndex: number) => {
+    setPages((prev) => {
+      const from = prev.findIndex((p) => p.id === id)
+      if (from < 0 || from === toIndex) return prev
+      const next = [...prev]
+      const [moved] = next.splice(from, 1)
+      next.splice(toIndex, 0, moved)
+      return next
+    })
+  }, [])
+
+  // 右に90°回転。帯と白塗り図形はページと一緒に回し（下の帯は左の帯になる）、ブロックは新しい向きで配置し直す
+  const handleRotatePage = useCallback((id: string) => {
+    const page = pages.find((p) => p.id === id)
+    if (!page) return
+    const rotated: PageInfo = {
+      ...page,
+      rotation: normalizeRotation((page.rotation ?? 0) + 90),
+      pageSize: page.pageSize && { width: page.pageSize.height, height: page.pageSize.width },
+    }
+
+    setPages((prev) => prev.map((p) => (p.id === id ? rotated : p)))
+    setMaskSettings((prev) => {
+      const mask = prev[id]
+      if (!mask || !page.pageSize) return prev
+      return { ...prev, [id]: rotateMaskClockwise(mask, page.pageSize) }
+    })
+    setMaskDetections((prev) => withoutPage(prev, id))
+    setBlocks((prev) => withoutPage(prev, id))
+    setPageDimensions((prev) => withoutPage(prev, id))
+    setPendingBlocks((prev) => withoutPage(prev, id))
+    void runBandDetection([rotated])
+  }, [pages, runBandDetection])
+
+  const handleDeletePage = useCallback((id: string) => {
+    const index = pages.findIndex((p) => p.id === id)
+    if (index < 0) return
+    const page = pages[index]
+    if (!confirm(`${page.fileName}（ページ ${page.pageNumber}）を削除しますか？`)) return
+
+    const remaining = pages.filter((p) => p.id !== id)
+    setPages(remaining)
+    setMaskSettings((prev) => withoutPage(prev, id))
+    setMaskDetections((prev) => withoutPage(prev, id))
+    setBlocks((prev) => withoutPage(prev, id))
+    setPageDimensions((prev) => withoutPage(prev, id))
+    setPendingBlocks((prev) => withoutPage(prev, id))
+    editedMaskPageIds.current.delete(id)
+    setCheckedPageIds((prev) => {
+      if (!prev.has(id)) return prev
+      const next = new Set(prev)
+      next.delete(id)
+      return next
+    })
+
+    if (selectedPageId === id) {
+      setSelectedPageId(remaining[Math.min(index, remaining.length - 1)]?.id ?? null)
+    }
+    if (remaining.length === 0) setStep('upload')
+  }, [pages, selectedPageId])
+
+  const handleSplitListing = useCallback((id: string) => {
+    setPages((prev) => splitListingAt(prev, id))
+  }, [])
+
+  const handleJoinListing = useCallback((id: string) => {
+    setPages((prev) => joinListingWithPrevious(prev, id))
+  }, [])
+
+  // 選択中ページの白塗り・ブロックを他のページへ適用（サイズが違えば比率で拡縮）
+  const handleBatchApply = useCallback((scope: BatchScope, content: BatchContent) => {
+    const source = pages.find((p) => p.id === selectedPageId)
+    if (!source) return
+    const targets = batchTargetPages(pages, source, scope, checkedPageIds)
+    if (targets.length === 0) {
+      toast.error('適用先のページがありません')
+      return
+    }
+
+    const applied: string[] = []
+
+    if (content !== 'blocks') {
+      const sourceMask = maskSettings[source.id]
+      if (sourceMask) {
+        const relative = source.pageSize ? toRelativeMask(sourceMask, source.pageSize) : null
+        const nextMasks: PageMaskSettings = {}
+        for (const page of targets) {
+          nextMasks[page.id] = relative && page.pageSize
+            ? fromRelativeMask(relative, page.pageSize)
+            : sourceMask
+          editedMaskPageIds.current.add(page.id)
+        }
+        setMaskSettings((prev) => ({ ...prev, ...nextMasks }))
+        applied.push('白塗り')
+      }
+    }
+
+    if (content !== 'mask') {
+      const sourceDims = pageDimensions[source.id]
+      const relative = blocks[source.id] && sourceDims
+        ? toRelativeBlocks(blocks[source.id], sourceDims)
+        : pendingBlocks[source.id]
+
+      if (!relative) {
+        toast.info('ブロックはプレビューで配置したページからのみ適用できます')
+      } else {
+        const nextBlocks: PageBlocks = {}
+        const nextPending: PageBlocks = {}
+        for (const page of targets) {
+          const dims = pageDimensions[page.id]
+          if (dims) nextBlocks[page.id] = fromRelativeBlocks(relative, dims)
+          else nextPending[page.id] = relative
+        }
+        setBlocks((prev) => {
+          const next = { ...prev, ...nextBlocks }
+          for (const pageId of Object.keys(nextPending)) delete next[pageId]
+          return next
+        })
+        setPendingBlocks((prev) => {
+          const next = { ...prev, ...nextPending }
+          for (const pageId of Object.keys(nextBlocks)) delete next[pageId]
+          return next
+        })
+        applied.push('ブロック')
+      }
+    }
+
+    if (applied.length > 0) {
+      toast.success(`${applied.join('・')}を${targets.length}ページに適用しました`)
+    }
+  }, [pages, selectedPageId, checkedPageIds, maskSettings, pageDimensions, blocks, pendingBlocks])
+
   const handleConfirmPage = useCallback(() => {
     if (!selectedPageId) return
 
@@ -358,6 +744,11 @@ export default function EditorPage() {
           </div>
           {pages.length > 0 && (
             <div className="flex items-center gap-4">
+              {draftSavedAt && (
+                <span className="text-xs text-muted-foreground">
+                  下書き保存 {draftSavedAt.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              )}
               <span className="text-sm text-muted-foreground">
                 {completedCount} / {pages.length} 完了
               </span>
@@ -395,8 +786,17 @@ export default function EditorPage() {
               <CardContent className="p-3">
                 <PageList
                   pages={pages}
+                  maskDetections={maskDetections}
                   selectedPageId={selectedPageId}
                   onSelectPage={handleSelectPage}
+                  checkedPageIds={checkedPageIds}
+                  onToggleChecked={handleToggleChecked}
+                  onBatchApply={handleBatchApply}
+                  onReorderPage={handleReorderPage}
+                  onRotatePage={handleRotatePage}
+                  onDeletePage={handleDeletePage}
+                  onSplitListing={handleSplitListing}
+                  onJoinListing={handleJoinListing}
                 />
                 <div className="mt-4 pt-4 border-t">
                   <Button
@@ -407,12 +807,12 @@ export default function EditorPage() {
                       document.getElementById('add-more-pdf')?.click()
                     }}
                   >
-                    + PDFを追加
+                    + PDF・画像を追加
                   </Button>
                   <input
                     id="add-more-pdf"
                     type="file"
-                    accept="application/pdf"
+                    accept={UPLOAD_ACCEPT}
                     multiple
                     className="sr-only"
                     onChange={(e) => {
@@ -431,8 +831,10 @@ export default function EditorPage() {
           <div ref={pdfContainerRef} className="flex-1 flex justify-center items-start overflow-auto py-4">
             {selectedPage && currentMaskSettings && pdfMaxWidth > 0 && (
               <PdfViewer
+                key={`${selectedPage.id}-${selectedPage.rotation ?? 'source'}`}
                 pdfData={selectedPage.pdfData}
                 pageNumber={selectedPage.pageNumber}
+                rotation={selectedPage.rotation}
                 maskSettings={currentMaskSettings}
                 maxWidth={pdfMaxWidth}
               />
@@ -445,6 +847,9 @@ export default function EditorPage() {
                 <MaskControls
                   settings={currentMaskSettings}
                   onChange={handleMaskChange}
+                  detection={selectedPageId ? maskDetections[selectedPageId] : undefined}
+                  detecting={!!selectedPageId && detectingPageIds.has(selectedPageId)}
+                  onRedetect={selectedPage ? () => runBandDetection([selectedPage], true) : undefined}
                 />
                 <Card>
                   <CardHeader>
@@ -502,6 +907,15 @@ export default function EditorPage() {
           userEmail={userEmail}
           onBack={() => setStep('edit')}
           embedContext={embedContext}
+          templateLibrary={templateLibrary}
+          onTemplateLibraryChange={setTemplateLibrary}
+          onMaskChange={handlePageMaskChange}
+          blocks={blocks}
+          onBlocksChange={setBlocks}
+          pageDimensions={pageDimensions}
+          onPageDimensionsChange={setPageDimensions}
+          pendingBlocks={pendingBlocks}
+          onFinished={handleFinished}
         />
       )}
     </div>
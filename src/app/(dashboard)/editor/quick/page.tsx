@@ -2,23 +2,9 @@
 
 import { useEffect, useRef, useState } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
-import { PDFDocument } from 'pdf-lib'
-import { base64ToUint8, putPdfs } from '@/lib/pdf-store'
-
-async function imageB64ToPdfBytes(jpegOrPngB64: string): Promise<Uint8Array> {
-  const imgBytes = base64ToUint8(jpegOrPngB64)
-  const pdfDoc = await PDFDocument.create()
-  // Try jpg first, fall back to png
-  let image
-  try {
-    image = await pdfDoc.embedJpg(imgBytes)
-  } catch {
-    image = await pdfDoc.embedPng(imgBytes)
-  }
-  const pg = pdfDoc.addPage([image.width, image.height])
-  pg.drawImage(image, { x: 0, y: 0, width: image.width, height: image.height })
-  return pdfDoc.save()
-}
+import { toast } from 'sonner'
+import { putPdfs } from '@/lib/pdf-store'
+import { deleteReinsJob, downloadReinsItemPdfs, formatReinsJobProgress, runReinsFetchJob } from '@/lib/reins/job-client'
 
 interface VacancyFromMockup {
   reinsId: string
@@ -59,6 +45,8 @@ export default function EditorQuickPage() {
   const router = useRouter()
   const searchParams = useSearchParams()
   const sessionId = searchParams.get('session')
+  // ?refresh=1: 図面キャッシュを使わず、すべて取得し直す
+  const forceRefresh = searchParams.get('refresh') === '1'
 
   const startedRef = useRef(false)
   const [phase, setPhase] = useState<Phase>('bootstrapping')
@@ -168,70 +156,38 @@ export default function EditorQuickPage() {
         setDetail(`図面を取得中... (0/${vacancies.length})`)
 
         const pdfBytesList: Uint8Array[] = []
-        const fallbackReinsIds: string[] = []
+        // File names in the editor (and in per-property exports): "<name>_<REINS ID>"
+        const pdfNames: string[] = []
+        const nameOf = (reinsId: string) => {
+          const propertyName = vacancies.find((v) => v.reinsId === reinsId)?.propertyName
+          return propertyName ? `${propertyName}_${reinsId}` : reinsId
+        }
 
-        // First pass: try the pre-secured maisokuUrl via server proxy.
-        let completed = 0
-        for (const v of vacancies) {
-          if (!v.maisokuUrl) {
-            fallbackReinsIds.push(v.reinsId)
-            completed++
-            setDetail(`図面を取得中... (${completed}/${vacancies.length})`)
-            continue
+        // Each vacancy is fetched from its secured maisokuUrl, its platform
+        // listing or REINS, whichever works first (see @/lib/maisoku).
+        const { job, items } = await runReinsFetchJob(
+          vacancies.map((v) => ({ reinsId: v.reinsId, maisokuUrl: v.maisokuUrl, platformId: v.platformId })),
+          {
+            forceRefresh,
+            onProgress: (status) => setDetail(`図面を取得中... (${formatReinsJobProgress(status)})`),
           }
-          try {
-            const proxyRes = await fetch('/api/obikae/fetch-pdf', {
-              method: 'POST',
-              credentials: 'include',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ url: v.maisokuUrl }),
-            })
-            if (!proxyRes.ok) throw new Error(`proxy ${proxyRes.status}`)
-            const proxyJson = (await proxyRes.json()) as {
-              ok: boolean
-              source: 'pdf' | 'screenshot'
-              data: string
-            }
-            if (!proxyJson.ok || !proxyJson.data) throw new Error('empty proxy response')
-            const bytes =
-              proxyJson.source === 'screenshot'
-                ? await imageB64ToPdfBytes(proxyJson.data)
-                : base64ToUint8(proxyJson.data)
+        )
+        setDetail('取得した図面を読み込み中...')
+        for (const item of items) {
+          if (item.status !== 'success') continue
+          for (const bytes of await downloadReinsItemPdfs(item)) {
             pdfBytesList.push(bytes)
-          } catch (err) {
-            console.warn(
-              `[editor/quick] maisokuUrl proxy failed for ${v.reinsId}, falling back to REINS`,
-              err
-            )
-            fallbackReinsIds.push(v.reinsId)
+            pdfNames.push(nameOf(item.reins_id))
           }
-          completed++
-          setDetail(`図面を取得中... (${completed}/${vacancies.length})`)
         }
-
-        // Fallback pass: for any vacancy without a usable URL, hit REINS.
-        if (fallbackReinsIds.length > 0) {
-          setDetail(`REINS から再取得中... (${fallbackReinsIds.length}件)`)
-          const res = await fetch('/api/reins/fetch-maisoku', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            credentials: 'include',
-            body: JSON.stringify({ reinsIds: fallbackReinsIds }),
-          })
-          if (!res.ok) {
-            throw new Error(`REINS 取得失敗 (${res.status})`)
-          }
-          const data = await res.json()
-          for (const result of data.results ?? []) {
-            if (result.status !== 'success' || !result.pdfs?.length) continue
-            for (const b64 of result.pdfs) {
-              if (result.source === 'screenshot') {
-                pdfBytesList.push(await imageB64ToPdfBytes(b64))
-              } else {
-                pdfBytesList.push(base64ToUint8(b64))
-              }
-            }
-          }
+        // 取得済みファイルはダウンロードしたので、ジョブごと削除する
+        await deleteReinsJob(job.id)
+        const changed = items.filter((item) => item.changed).length
+        if (changed > 0) {
+          toast.info(`${changed}件の図面が前回の取得から更新されています`)
+        }
+        if (job.status === 'failed' && pdfBytesList.length === 0) {
+          throw new Error(`図面の取得に失敗しました: ${job.error ?? ''}`)
         }
 
         setPhase('preparing')
@@ -244,6 +200,7 @@ export default function EditorQuickPage() {
         // IndexedDB has a much larger quota than sessionStorage (which caps at
         // ~5-10MB and overflows when several 1-2MB PDFs are base64-encoded).
         await putPdfs('reins-pdfs', pdfBytesList)
+        sessionStorage.setItem('reins-pdf-names', JSON.stringify(pdfNames))
 
         const resolvedParentOrigin = (() => {
           if (parentOrigin) return parentOrigin
@@ -283,7 +240,7 @@ export default function EditorQuickPage() {
     }
 
     void run()
-  }, [router, sessionId])
+  }, [router, sessionId, forceRefresh])
 
   return (
     <div className="flex min-h-[60vh] items-center justify-center px-6">
@@ -2,20 +2,15 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
-import { PDFDocument } from 'pdf-lib'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { toast } from 'sonner'
+import { putPdfs } from '@/lib/pdf-store'
+import { deleteReinsJob, downloadReinsItemPdfs, formatReinsJobProgress, runReinsFetchJob } from '@/lib/reins/job-client'
+import { isItemFromCache, isItemSettled } from '@/lib/reins/job-status'
+import type { ReinsFetchItem, ReinsFetchJob } from '@/lib/database.types'
 import type { NotionListing } from '@/types/notion'
 
-function uint8ToBase64(bytes: Uint8Array): string {
-  let binary = ''
-  for (let i = 0; i < bytes.length; i++) {
-    binary += String.fromCharCode(bytes[i])
-  }
-  return btoa(binary)
-}
-
 const STATUS_COLORS: Record<string, string> = {
   '未処理': 'bg-gray-100 text-gray-700',
   '処理中': 'bg-yellow-100 text-yellow-700',
@@ -24,6 +19,29 @@ const STATUS_COLORS: Record<string, string> = {
   'エラー': 'bg-red-100 text-red-700',
   '問合せあり': 'bg-green-100 text-green-700',
   '問合せなし': 'bg-gray-100 text-gray-500',
+  '待機中': 'bg-gray-100 text-gray-600',
+  '取得済み': 'bg-green-100 text-green-700',
+  '取得済み（保存分）': 'bg-green-100 text-green-700',
+  '取得済み（更新あり）': 'bg-blue-100 text-blue-700',
+  '再試行待ち': 'bg-yellow-100 text-yellow-700',
+}
+
+// REINS取得ジョブの物件ごとの状態
+function fetchStatusLabel(job: ReinsFetchJob, item: ReinsFetchItem): string {
+  switch (item.status) {
+    case 'pending':
+      return '待機中'
+    case 'running':
+      return '処理中'
+    case 'success':
+      // 保存分 = 図面キャッシュから（再取得なし）、更新あり = 前回の取得から図面が変わった
+      if (item.changed) return '取得済み（更新あり）'
+      return isItemFromCache(job, item) ? '取得済み（保存分）' : '取得済み'
+    case 'not_found':
+      return '該当なし'
+    case 'error':
+      return isItemSettled(item) ? 'エラー' : '再試行待ち'
+  }
 }
 
 function Badge({ text }: { text: string }) {
@@ -42,6 +60,10 @@ export default function ListingsPage() {
   const [loading, setLoading] = useState(true)
   const [processing, setProcessing] = useState(false)
   const [progress, setProgress] = useState('')
+  // Reins ID → 取得状態（帯替え中のみ）
+  const [fetchStatus, setFetchStatus] = useState<Record<string, string>>({})
+  // 図面キャッシュを使わず、すべて取得し直す
+  const [forceRefresh, setForceRefresh] = useState(false)
   const router = useRouter()
 
   const fetchListings = () => {
@@ -90,52 +112,48 @@ export default function ListingsPage() {
 
     setProcessing(true)
     setProgress(`REINS図面取得中... (0/${reinsIds.length}件)`)
+    setFetchStatus(Object.fromEntries(reinsIds.map((id) => [id, '待機中'])))
 
     try {
-      const res = await fetch('/api/reins/fetch-maisoku', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ reinsIds }),
+      const { job, items } = await runReinsFetchJob(reinsIds.map((reinsId) => ({ reinsId })), {
+        forceRefresh,
+        onProgress: (status) => {
+          setProgress(`REINS図面取得中... (${formatReinsJobProgress(status)})`)
+          setFetchStatus(Object.fromEntries(
+            status.items.map((item) => [item.reins_id, fetchStatusLabel(status.job, item)])
+          ))
+        },
       })
 
-      if (!res.ok) {
-        throw new Error(`API error: ${res.status}`)
-      }
-
-      const data = await res.json()
-      const pdfBase64List: string[] = []
-      let successCount = 0
-
-      for (const result of data.results) {
-        if (result.status !== 'success' || !result.pdfs?.length) continue
-
-        for (const b64 of result.pdfs) {
-          if (result.source === 'screenshot') {
-            // JPEG screenshot → wrap in PDF
-            const imgBytes = Uint8Array.from(atob(b64), (c) => c.charCodeAt(0))
-            const pdfDoc = await PDFDocument.create()
-            const image = await pdfDoc.embedJpg(imgBytes)
-            const pg = pdfDoc.addPage([image.width, image.height])
-            pg.drawImage(image, { x: 0, y: 0, width: image.width, height: image.height })
-            const pdfBytes = await pdfDoc.save()
-            pdfBase64List.push(uint8ToBase64(pdfBytes))
-          } else {
-            // Already a PDF
-            pdfBase64List.push(b64)
-          }
+      const pdfBytesList: Uint8Array[] = []
+      const pdfNames: string[] = []
+      for (const item of items) {
+        if (item.status !== 'success') continue
+        for (const bytes of await downloadReinsItemPdfs(item)) {
+          pdfBytesList.push(bytes)
+          pdfNames.push(item.reins_id)
         }
-        successCount++
-        setProgress(`REINS図面取得中... (${successCount}/${reinsIds.length}件)`)
       }
+      // 取得済みファイルはダウンロードしたので、ジョブごと削除する
+      await deleteReinsJob(job.id)
 
-      if (pdfBase64List.length === 0) {
-        toast.error('図面の取得に失敗しました')
+      if (pdfBytesList.length === 0) {
+        toast.error(job.error ? `図面の取得に失敗しました: ${job.error}` : '図面の取得に失敗しました')
         return
       }
 
-      // Store in sessionStorage and navigate to editor
-      sessionStorage.setItem('reins-pdfs', JSON.stringify(pdfBase64List))
-      toast.success(`${pdfBase64List.length}件の図面を取得しました`)
+      const failed = items.filter((item) => item.status !== 'success').length
+      if (failed > 0) {
+        toast.warning(`${failed}件の図面を取得できませんでした`)
+      }
+      const changed = items.filter((item) => item.changed).length
+      if (changed > 0) {
+        toast.info(`${changed}件の図面が前回の取得から更新されています`)
+      }
+
+      await putPdfs('reins-pdfs', pdfBytesList)
+      sessionStorage.setItem('reins-pdf-names', JSON.stringify(pdfNames))
+      toast.success(`${pdfBytesList.length}件の図面を取得しました`)
       router.push('/editor?source=reins')
     } catch (error) {
       console.error('REINS fetch error:', error)
@@ -173,6 +191,16 @@ export default function ListingsPage() {
             <span className="text-sm text-muted-foreground">
               {selectedIds.size}件選択中
             </span>
+            <label className="flex items-center gap-1.5 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={forceRefresh}
+                onChange={(e) => setForceRefresh(e.target.checked)}
+                disabled={processing}
+                className="rounded"
+              />
+              図面を取得し直す
+            </label>
             <Button onClick={handleObikae} disabled={processing}>
               {processing ? progress : '選択した物件を帯替えする'}
             </Button>
@@ -228,7 +256,12 @@ export default function ListingsPage() {
                       className="rounded"
                     />
                   </td>
-                  <td className="p-3 font-mono text-xs">{item.reinsId}</td>
+                  <td className="p-3 font-mono text-xs">
+                    {item.reinsId}
+                    {fetchStatus[item.reinsId] && (
+                      <span className="ml-2 font-sans"><Badge text={fetchStatus[item.reinsId]} /></span>
+                    )}
+                  </td>
                   <td className="p-3">{item.round ?? '—'}</td>
                   <td className="p-3">
                     {item.adStatus ? (
@@ -8,12 +8,14 @@ import { toast } from 'sonner'
 import type { PublishedListing } from '@/lib/database.types'
 import { getPublicBaseUrl } from '@/lib/public-url'
 import { TagEditorDialog } from '@/components/listings/tag-editor-dialog'
+import { loadScanStats, type ListingScanStats } from '@/lib/print-links'
 
 export default function PublishedPage() {
   const [listings, setListings] = useState<PublishedListing[]>([])
   const [loading, setLoading] = useState(true)
   const [userSlug, setUserSlug] = useState<string | null>(null)
   const [tagEditing, setTagEditing] = useState<PublishedListing | null>(null)
+  const [scanStats, setScanStats] = useState<Map<string, ListingScanStats>>(new Map())
 
   const supabase = createClient()
 
@@ -46,6 +48,11 @@ export default function PublishedPage() {
       }
 
       setListings(data || [])
+
+      // QR読み取り数（取得できなくても一覧は表示する）
+      loadScanStats((data || []).map((l) => l.id))
+        .then(setScanStats)
+        .catch((err) => console.error('Error loading scan stats:', err))
     } finally {
       setLoading(false)
     }
@@ -161,6 +168,7 @@ export default function PublishedPage() {
                     </div>
                     <p className="text-sm text-muted-foreground mt-1">
                       {listing.page_count}ページ &middot; {new Date(listing.created_at).toLocaleDateString('ja-JP')}
+                      <ScanSummary stats={scanStats.get(listing.id)} />
                     </p>
                     <div className="mt-2 flex flex-wrap gap-1.5">
                       {(listing.highlight_tags ?? []).length === 0 ? (
@@ -233,3 +241,15 @@ export default function PublishedPage() {
     </div>
   )
 }
+
+// 物件QR（/q/…）の読み取り数
+function ScanSummary({ stats }: { stats?: ListingScanStats }) {
+  if (!stats) return null
+  return (
+    <>
+      {' '}&middot; QR読み取り {stats.total}回
+      {stats.print > 0 && `（うち印刷物 ${stats.print}回）`}
+      {stats.lastScannedAt && ` ・ 最終 ${new Date(stats.lastScannedAt).toLocaleString('ja-JP')}`}
+    </>
+  )
+}
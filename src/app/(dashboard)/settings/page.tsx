@@ -8,7 +8,9 @@ import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Separator } from '@/components/ui/separator'
 import { toast } from 'sonner'
-import type { CompanyProfile } from '@/lib/database.types'
+import type { CompanyFont, CompanyProfile, CustomProfileField, Json } from '@/lib/database.types'
+import { parseCustomFields, parseCustomFonts } from '@/lib/blocks'
+import { FONTS_BUCKET, toStoredFonts } from '@/lib/company-fonts'
 
 export default function SettingsPage() {
   const [loading, setLoading] = useState(true)
@@ -32,6 +34,11 @@ export default function SettingsPage() {
   const [logoPreview, setLogoPreview] = useState<string | null>(null)
   const [lineQrFile, setLineQrFile] = useState<File | null>(null)
   const [lineQrPreview, setLineQrPreview] = useState<string | null>(null)
+  const [customFields, setCustomFields] = useState<CustomProfileField[]>([])
+  const [customFonts, setCustomFonts] = useState<CompanyFont[]>([])
+  // 保存済みのフォント（一覧から外して保存したらファイルも削除する）
+  const [savedFontPaths, setSavedFontPaths] = useState<string[]>([])
+  const [uploadingFont, setUploadingFont] = useState(false)
 
   const supabase = createClient()
 
@@ -57,6 +64,10 @@ export default function SettingsPage() {
 
       if (data) {
         setProfile(data)
+        setCustomFields(parseCustomFields(data.custom_fields))
+        const fonts = parseCustomFonts(data.custom_fonts)
+        setCustomFonts(fonts)
+        setSavedFontPaths(fonts.map((f) => f.path))
         if (data.logo_url) {
           setLogoPreview(data.logo_url)
         }
@@ -157,6 +168,55 @@ export default function SettingsPage() {
     }
   }
 
+  const addCustomField = () => {
+    const key = `cf_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 5)}`
+    setCustomFields([...customFields, { key, label: '', value: '' }])
+  }
+
+  const updateCustomField = (key: string, patch: Partial<CustomProfileField>) => {
+    setCustomFields(customFields.map((f) => (f.key === key ? { ...f, ...patch } : f)))
+  }
+
+  // フォントは選択時にアップロードし、一覧は「保存する」で確定する
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const fileExt = file.name.split('.').pop()?.toLowerCase()
+    if (fileExt !== 'ttf' && fileExt !== 'otf') {
+      toast.error('TTFまたはOTF形式のフォントを選択してください')
+      return
+    }
+
+    setUploadingFont(true)
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        toast.error('ログインが必要です')
+        return
+      }
+
+      const id = `font_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 5)}`
+      const fileName = `${user.id}/${id}.${fileExt}`
+      const { error: uploadError } = await supabase.storage
+        .from(FONTS_BUCKET)
+        .upload(fileName, file, { contentType: fileExt === 'otf' ? 'font/otf' : 'font/ttf' })
+
+      if (uploadError) {
+        console.error('Font upload error:', uploadError)
+        toast.error('フォントのアップロードに失敗しました')
+        return
+      }
+
+      const name = file.name.replace(/\.(ttf|otf)$/i, '')
+      setCustomFonts((prev) => [...prev, { id, name, path: fileName, url: '' }])
+      toast.success(`「${name}」を追加しました。保存すると使えるようになります`)
+    } finally {
+      setUploadingFont(false)
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setSaving(true)
@@ -182,12 +242,16 @@ export default function SettingsPage() {
         license_number: profile.license_number || '',
         logo_url: logoUrl,
         line_qr_url: lineQrUrl,
+        line_url: profile.line_url?.trim() || null,
         fee_ratio_landlord: profile.fee_ratio_landlord ?? null,
         fee_ratio_tenant: profile.fee_ratio_tenant ?? null,
         fee_distribution_motoduke: profile.fee_distribution_motoduke ?? null,
         fee_distribution_kyakuzuke: profile.fee_distribution_kyakuzuke ?? null,
         slug: profile.slug || null,
         ga_measurement_id: profile.ga_measurement_id || null,
+        custom_fields: customFields.filter((f) => f.label.trim() || f.value.trim()) as unknown as Json,
+        custom_fonts: toStoredFonts(customFonts),
+        block_publish_on_preflight_errors: profile.block_publish_on_preflight_errors ?? false,
       }
 
       const { data: existing } = await supabase
@@ -216,6 +280,15 @@ export default function SettingsPage() {
         return
       }
 
+      // 一覧から外したフォントのファイルを削除
+      const keptPaths = customFonts.map((f) => f.path)
+      const removedPaths = savedFontPaths.filter((path) => !keptPaths.includes(path))
+      if (removedPaths.length > 0) {
+        const { error: removeError } = await supabase.storage.from(FONTS_BUCKET).remove(removedPaths)
+        if (removeError) console.error('Font delete error:', removeError)
+      }
+      setSavedFontPaths(keptPaths)
+
       toast.success('会社情報を保存しました')
     } catch (error) {
       console.error('Error:', error)
@@ -350,6 +423,19 @@ export default function SettingsPage() {
               )}
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="line_url">公式LINE 友だち追加URL</Label>
+              <Input
+                id="line_url"
+                value={profile.line_url || ''}
+                onChange={(e) => setProfile({ ...profile, line_url: e.target.value })}
+                placeholder="https://line.me/R/ti/p/@xxxx"
+              />
+              <p className="text-xs text-muted-foreground">
+                登録するとQRコードをベクターで生成するため、印刷してもぼやけません（QR画像のアップロードより優先されます）
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="line_qr">公式LINE QRコード</Label>
               <Input
@@ -456,6 +542,87 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>カスタム項目</CardTitle>
+            <CardDescription>
+              営業時間・定休日など、帯に載せたい独自の項目を登録します（任意）
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {customFields.map((field) => (
+              <div key={field.key} className="flex items-center gap-2">
+                <Input
+                  value={field.label}
+                  onChange={(e) => updateCustomField(field.key, { label: e.target.value })}
+                  placeholder="項目名（例: 営業時間）"
+                  className="w-40"
+                />
+                <Input
+                  value={field.value}
+                  onChange={(e) => updateCustomField(field.key, { value: e.target.value })}
+                  placeholder="内容（例: 10:00〜19:00）"
+                  className="flex-1"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => setCustomFields(customFields.filter((f) => f.key !== field.key))}
+                >
+                  削除
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={addCustomField}>
+              項目を追加
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              エディターの「ブロックを追加」から帯に配置できます。内容を変更すると配置済みのブロックにも反映されます
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>ブランドフォント</CardTitle>
+            <CardDescription>
+              自社のロゴタイプなどのフォントを登録し、帯のテキストブロックごとに選べます（任意）
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {customFonts.map((font) => (
+              <div key={font.id} className="flex items-center gap-2">
+                <Input
+                  value={font.name}
+                  onChange={(e) => setCustomFonts(customFonts.map((f) => (f.id === font.id ? { ...f, name: e.target.value } : f)))}
+                  placeholder="表示名"
+                  className="flex-1"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => setCustomFonts(customFonts.filter((f) => f.id !== font.id))}
+                >
+                  削除
+                </Button>
+              </div>
+            ))}
+            <Input
+              type="file"
+              accept=".ttf,.otf,font/ttf,font/otf"
+              onChange={handleFontUpload}
+              disabled={uploadingFont}
+            />
+            <p className="text-xs text-muted-foreground">
+              TTF / OTF 形式。PDFには使用した文字だけが埋め込まれます。削除したフォントを使っているブロックは Noto Sans JP で出力されます
+            </p>
+          </CardContent>
+        </Card>
+
         <Card className="mt-6">
           <CardHeader>
             <CardTitle>Web公開設定</CardTitle>
@@ -492,6 +659,21 @@ export default function SettingsPage() {
                 設定すると公開ページにGAタグが埋め込まれます（任意）
               </p>
             </div>
+
+            <div className="space-y-1">
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={profile.block_publish_on_preflight_errors ?? false}
+                  onChange={(e) => setProfile({ ...profile, block_publish_on_preflight_errors: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                出力前チェックでエラーがある間はWeb公開できないようにする
+              </label>
+              <p className="text-xs text-muted-foreground">
+                元の連絡先の消し忘れや未設定の項目があるページを公開できなくなります（PDF出力はできます）
+              </p>
+            </div>
           </CardContent>
         </Card>
 
@@ -1,21 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { fetchUrlAsset, parseAssetUrl, type UrlAssetResult } from '@/lib/maisoku/sources/url'
+import { withMaisokuCache } from '@/lib/maisoku/cache'
+import type { MaisokuFile, MaisokuResult, MaisokuVacancy } from '@/lib/maisoku'
 
 export const dynamic = 'force-dynamic'
 export const maxDuration = 60
 
 /**
  * Server-side proxy that fetches a pre-secured maisoku asset (PDF or image)
- * and returns it as base64 to the browser. This lets the obikae popup skip
- * the slow `/api/reins/fetch-maisoku` round-trip when the bukkaku pipeline
- * already secured a URL.
+ * and returns it as base64 to the browser. The obikae popup now fetches
+ * through the REINS fetch jobs, whose url source uses the same fetch.
  *
  * Security:
  *  - Auth required (Supabase session)
  *  - URL must be http(s)
- *  - Response size is capped to avoid abuse
+ *  - Response size is capped to avoid abuse (see `fetchUrlAsset`)
+ *
+ * The asset goes through the maisoku cache under its URL: a fresh entry for
+ * the same URL is returned without fetching, and a fetched asset is cached.
+ * Entries for other URLs or for the `reinsId` are never used here.
+ * `forceRefresh: true` always fetches.
  */
-const MAX_BYTES = 25 * 1024 * 1024 // 25MB
+
+// A URL is one asset, fetched or cached, so the response carries a single file
+function assetResponse(file: MaisokuFile, extra: Record<string, unknown>) {
+  // "source": "pdf" → already a PDF; "screenshot" → image that needs embedding.
+  return NextResponse.json({
+    ok: true,
+    source: file.kind === 'image' ? 'screenshot' : 'pdf',
+    data: file.data,
+    ...extra,
+  })
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -27,58 +44,41 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
     }
 
-    const body = await request.json()
+    const body = await request.json().catch(() => null)
     const url: string = typeof body?.url === 'string' ? body.url.trim() : ''
     if (!url) {
       return NextResponse.json({ error: 'url is required' }, { status: 400 })
     }
 
-    let parsed: URL
-    try {
-      parsed = new URL(url)
-    } catch {
+    const parsed = parseAssetUrl(url)
+    if (!parsed) {
       return NextResponse.json({ error: 'invalid url' }, { status: 400 })
     }
-    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
-      return NextResponse.json({ error: 'only http(s) urls allowed' }, { status: 400 })
-    }
-
-    const res = await fetch(parsed.toString(), {
-      method: 'GET',
-      // No credentials forwarded — this endpoint acts as a user-authenticated proxy only.
-      cache: 'no-store',
-    })
 
-    if (!res.ok) {
-      return NextResponse.json(
-        { error: `upstream ${res.status}` },
-        { status: 502 }
-      )
-    }
+    // Keyed by the URL alone (no REINS ID), so only this URL's own files come back
+    const vacancy: MaisokuVacancy = { reinsId: '', maisokuUrl: parsed.toString() }
+    // Set when the cache missed and the URL was fetched
+    const upstream: { asset?: UrlAssetResult } = {}
+    const [result] = await withMaisokuCache(
+      createServiceClient(),
+      [vacancy],
+      async (): Promise<MaisokuResult[]> => {
+        // No credentials forwarded — this endpoint acts as a user-authenticated proxy only.
+        const asset = await fetchUrlAsset(parsed)
+        upstream.asset = asset
+        return asset.ok ? [{ reinsId: '', status: 'success', files: [asset.file], source: 'url' }] : []
+      },
+      { forceRefresh: body?.forceRefresh === true }
+    )
 
-    const contentType = res.headers.get('content-type') ?? 'application/octet-stream'
-    const buf = await res.arrayBuffer()
-    if (buf.byteLength === 0) {
-      return NextResponse.json({ error: 'empty response' }, { status: 502 })
-    }
-    if (buf.byteLength > MAX_BYTES) {
-      return NextResponse.json({ error: 'response too large' }, { status: 413 })
+    const { asset } = upstream
+    if (!result?.files.length) {
+      return asset && !asset.ok
+        ? NextResponse.json({ error: asset.error }, { status: asset.status })
+        : NextResponse.json({ error: 'fetch failed' }, { status: 502 })
     }
-
-    const b64 = Buffer.from(buf).toString('base64')
-
-    // "source" lets the caller mirror the /api/reins/fetch-maisoku contract:
-    // "pdf" → already a PDF; "screenshot" → image that needs embedding.
-    const isPdf = contentType.includes('pdf') || parsed.pathname.toLowerCase().endsWith('.pdf')
-    const isImage = contentType.startsWith('image/')
-
-    return NextResponse.json({
-      ok: true,
-      contentType,
-      byteLength: buf.byteLength,
-      source: isPdf ? 'pdf' : isImage ? 'screenshot' : 'pdf',
-      data: b64,
-    })
+    const extra = asset?.ok ? { contentType: asset.contentType, byteLength: asset.byteLength } : {}
+    return assetResponse(result.files[0], { ...extra, cachedAt: result.cachedAt, changed: result.changed ?? false })
   } catch (err) {
     console.error('[obikae/fetch-pdf] error:', err)
     return NextResponse.json({ error: 'fetch failed' }, { status: 500 })
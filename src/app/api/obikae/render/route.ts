@@ -0,0 +1,243 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { PDFDocument } from 'pdf-lib'
+import { getRequestAuth } from '@/lib/supabase/server'
+import { generateModifiedPdf, type PdfFontBytes } from '@/lib/pdf-generator'
+import { createInitialBlocks } from '@/lib/initial-blocks'
+import { fromRelativeBlocks, fromRelativeMask, isBlock, resolveTemplate, type ResolvedTemplate } from '@/lib/layout-templates'
+import type { Block, CompanyProfile } from '@/lib/database.types'
+import { withSignedFontUrls } from '@/lib/company-fonts'
+import { parseMaskShapes } from '@/lib/mask-geometry'
+import type { MaskSettings, PageInfo } from '@/types/editor'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+/**
+ * Server-side obikae rendering. Lets back-office scripts and the
+ * sales-ai-mockup produce band-replaced maisoku without opening the editor.
+ *
+ * Body:
+ *   files       base64 source PDFs
+ *   pages       optional per-page spec; defaults to every page of every file
+ *     file        index into `files`
+ *     pageNumber  1-based page number within that file
+ *     mask        MaskSettings (PDF points); falls back to the top-level mask
+ *     blocks      Block[]; falls back to the template, then the default layout
+ *     dimensions  coordinate space the blocks were laid out in (defaults to
+ *                 the page's displayed size in points)
+ *   mask        default MaskSettings
+ *   templateId  layout_templates.id whose blocks (and mask, when no mask is
+ *               given) are used for pages that don't specify their own
+ *   redact      remove the original text / images under the masks from the
+ *               PDF instead of only painting over them (default true)
+ *
+ * Auth: Supabase cookie session or `Authorization: Bearer <access_token>`.
+ * Response: the finished PDF (application/pdf).
+ */
+const MAX_FILES = 30
+const MAX_BYTES = 50 * 1024 * 1024 // 50MB (decoded, all files)
+
+const DEFAULT_MASK: MaskSettings = { bottomHeight: 100, leftWidth: 0, enableLShape: false }
+
+interface RenderPageInput {
+  file: number
+  pageNumber: number
+  mask?: MaskSettings
+  blocks?: Block[]
+  dimensions?: { width: number; height: number }
+}
+
+let fontCache: PdfFontBytes | null = null
+
+async function loadServerFonts(): Promise<PdfFontBytes> {
+  if (fontCache) return fontCache
+  const dir = path.join(process.cwd(), 'public', 'fonts')
+  const [regular, bold] = await Promise.all([
+    readFile(path.join(dir, 'NotoSansJP-Regular.ttf')),
+    readFile(path.join(dir, 'NotoSansJP-Bold.ttf')),
+  ])
+  fontCache = { regular: new Uint8Array(regular), bold: new Uint8Array(bold) }
+  return fontCache
+}
+
+function parseMask(raw: unknown): MaskSettings | null {
+  if (!raw || typeof raw !== 'object') return null
+  const m = raw as Record<string, unknown>
+  if (typeof m.bottomHeight !== 'number' || m.bottomHeight < 0) return null
+  return {
+    bottomHeight: m.bottomHeight,
+    leftWidth: typeof m.leftWidth === 'number' && m.leftWidth > 0 ? m.leftWidth : 0,
+    enableLShape: m.enableLShape === true,
+    shapes: parseMaskShapes(m.shapes),
+  }
+}
+
+function parseBlocks(raw: unknown): Block[] | null {
+  if (!Array.isArray(raw)) return null
+  return resolveTemplate({ id: '', name: '', blocks: raw, mask: null, updated_at: '' }).blocks
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { supabase, user } = await getRequestAuth(request)
+    if (!user) {
+      return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'body must be a JSON object' }, { status: 400 })
+    }
+    const rawFiles: unknown[] = Array.isArray(body?.files) ? body.files : []
+    if (rawFiles.length === 0 || rawFiles.some((f) => typeof f !== 'string')) {
+      return NextResponse.json({ error: 'files must be a non-empty array of base64 PDFs' }, { status: 400 })
+    }
+    if (rawFiles.length > MAX_FILES) {
+      return NextResponse.json({ error: `too many files (max ${MAX_FILES})` }, { status: 400 })
+    }
+
+    const files = (rawFiles as string[]).map((b64) => new Uint8Array(Buffer.from(b64, 'base64')))
+    const totalBytes = files.reduce((sum, f) => sum + f.byteLength, 0)
+    if (totalBytes > MAX_BYTES) {
+      return NextResponse.json({ error: 'request too large' }, { status: 413 })
+    }
+
+    const defaultMask = body?.mask === undefined ? null : parseMask(body.mask)
+    if (body?.mask !== undefined && !defaultMask) {
+      return NextResponse.json({ error: 'invalid mask' }, { status: 400 })
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('company_profiles')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle()
+    if (profileError) {
+      return NextResponse.json({ error: profileError.message }, { status: 500 })
+    }
+    const companyProfile = profile ? await withSignedFontUrls(supabase, profile as CompanyProfile) : null
+
+    let template: ResolvedTemplate | null = null
+    if (typeof body?.templateId === 'string' && body.templateId) {
+      const { data: row, error: templateError } = await supabase
+        .from('layout_templates')
+        .select('id, name, blocks, mask, updated_at')
+        .eq('id', body.templateId)
+        .eq('user_id', user.id)
+        .maybeSingle()
+      if (templateError) {
+        return NextResponse.json({ error: templateError.message }, { status: 500 })
+      }
+      if (!row) {
+        return NextResponse.json({ error: 'template not found' }, { status: 404 })
+      }
+      template = resolveTemplate(row)
+    }
+
+    // Open each source once to validate page numbers and read display sizes.
+    const sourceDocs: PDFDocument[] = []
+    for (let i = 0; i < files.length; i++) {
+      try {
+        sourceDocs.push(await PDFDocument.load(files[i]))
+      } catch {
+        return NextResponse.json({ error: `files[${i}] is not a readable PDF` }, { status: 400 })
+      }
+    }
+
+    let pageInputs: RenderPageInput[]
+    if (Array.isArray(body?.pages) && body.pages.length > 0) {
+      pageInputs = body.pages
+    } else {
+      pageInputs = sourceDocs.flatMap((doc, file) =>
+        doc.getPages().map((_, i) => ({ file, pageNumber: i + 1 }))
+      )
+    }
+
+    const pages: PageInfo[] = []
+    const maskSettings: { [pageId: string]: MaskSettings } = {}
+    const blocks: { [pageId: string]: Block[] } = {}
+    const pageDimensions: { [pageId: string]: { width: number; height: number } } = {}
+
+    for (let i = 0; i < pageInputs.length; i++) {
+      const input = pageInputs[i]
+      const doc = sourceDocs[input?.file]
+      if (!doc || !Number.isInteger(input.pageNumber) || input.pageNumber < 1 || input.pageNumber > doc.getPageCount()) {
+        return NextResponse.json({ error: `pages[${i}] references a missing file or page` }, { status: 400 })
+      }
+
+      const srcPage = doc.getPage(input.pageNumber - 1)
+      const { width: rawWidth, height: rawHeight } = srcPage.getSize()
+      const isRotated = srcPage.getRotation().angle % 180 !== 0
+      const displaySize = {
+        width: isRotated ? rawHeight : rawWidth,
+        height: isRotated ? rawWidth : rawHeight,
+      }
+      const dims =
+        input.dimensions && input.dimensions.width > 0 && input.dimensions.height > 0
+          ? input.dimensions
+          : displaySize
+      const ratio = dims.width / displaySize.width
+
+      const mask =
+        input.mask !== undefined
+          ? parseMask(input.mask)
+          : defaultMask ?? (template?.mask ? fromRelativeMask(template.mask, displaySize) : DEFAULT_MASK)
+      if (!mask) {
+        return NextResponse.json({ error: `pages[${i}].mask is invalid` }, { status: 400 })
+      }
+
+      if (input.blocks !== undefined && (!Array.isArray(input.blocks) || !input.blocks.every(isBlock))) {
+        return NextResponse.json({ error: `pages[${i}].blocks is invalid` }, { status: 400 })
+      }
+
+      const pageId = `render-${i}`
+      pages.push({
+        id: pageId,
+        fileId: `file-${input.file}`,
+        fileIndex: input.file,
+        pageNumber: input.pageNumber,
+        fileName: `file-${input.file}.pdf`,
+        pdfData: files[input.file],
+        status: 'done',
+      })
+      maskSettings[pageId] = mask
+      pageDimensions[pageId] = dims
+      blocks[pageId] =
+        parseBlocks(input.blocks) ??
+        (template ? fromRelativeBlocks(template.blocks, dims) : null) ??
+        createInitialBlocks(
+          dims.width,
+          dims.height,
+          mask.bottomHeight * ratio,
+          mask.leftWidth * ratio,
+          mask.enableLShape,
+          companyProfile
+        )
+    }
+
+    const pdfBytes = await generateModifiedPdf({
+      pages,
+      maskSettings,
+      blocks,
+      companyProfile,
+      pageDimensions,
+      pageScales: {},
+      fonts: await loadServerFonts(),
+      redact: body?.redact !== false,
+    })
+
+    return new NextResponse(Buffer.from(pdfBytes), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': 'attachment; filename="obikae.pdf"',
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (err) {
+    console.error('[obikae/render] error:', err)
+    return NextResponse.json({ error: 'render failed' }, { status: 500 })
+  }
+}
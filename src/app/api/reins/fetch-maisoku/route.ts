@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient, getRequestAuth } from '@/lib/supabase/server'
+import { withMaisokuCache } from '@/lib/maisoku/cache'
+import type { MaisokuResult } from '@/lib/maisoku'
 
 export const maxDuration = 300
 
-export async function POST(request: NextRequest) {
-  const { reinsIds } = await request.json()
-
-  if (!Array.isArray(reinsIds) || reinsIds.length === 0) {
-    return NextResponse.json({ error: 'reinsIds required' }, { status: 400 })
+class BackendError extends Error {
+  constructor(readonly status: number, readonly body: unknown) {
+    super('REINS backend failed')
   }
+}
 
+async function fetchFromReins(reinsIds: string[]): Promise<MaisokuResult[]> {
   // Production: proxy to external Playwright-capable backend
   const backendUrl = process.env.REINS_BACKEND_URL
   if (backendUrl) {
@@ -17,17 +20,51 @@ export async function POST(request: NextRequest) {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ reinsIds }),
     })
-    return NextResponse.json(await res.json())
+    const data = await res.json()
+    if (!res.ok || !Array.isArray(data?.results)) throw new BackendError(res.status, data)
+    return data.results
   }
 
   // Dev: run Playwright locally
+  const { chromium } = await import('playwright')
+  const { fetchMaisokuPdfs } = await import('@/lib/reins/runner')
+  return fetchMaisokuPdfs(reinsIds, chromium)
+}
+
+/**
+ * Body: { reinsIds, forceRefresh? }. A signed-in caller gets IDs fetched
+ * within the cache's max age from the maisoku cache (`cachedAt` on the
+ * result) and only the rest from REINS; `forceRefresh` fetches them all.
+ * Without a session (the backend's own instance) the cache is not used.
+ */
+export async function POST(request: NextRequest) {
+  const { reinsIds, forceRefresh } = await request.json()
+
+  if (!Array.isArray(reinsIds) || reinsIds.length === 0) {
+    return NextResponse.json({ error: 'reinsIds required' }, { status: 400 })
+  }
+
   try {
-    const { chromium } = await import('playwright')
-    const { fetchMaisokuPdfs } = await import('@/lib/reins/runner')
-    const results = await fetchMaisokuPdfs(reinsIds, chromium)
+    const { user } = await getRequestAuth(request)
+    const results = user
+      ? await withMaisokuCache(
+          createServiceClient(),
+          reinsIds.map((reinsId: string) => ({ reinsId })),
+          (vacancies) => fetchFromReins(vacancies.map((vacancy) => vacancy.reinsId)),
+          { forceRefresh: forceRefresh === true }
+        )
+      : await fetchFromReins(reinsIds)
     return NextResponse.json({ success: true, results })
   } catch (error) {
+    if (error instanceof BackendError) {
+      return NextResponse.json(error.body, { status: error.status })
+    }
     console.error('[reins/fetch-maisoku] Error:', error)
+    // A REINS step that failed for the whole batch (e.g. "login/rejected")
+    if (error instanceof Error && error.name === 'ReinsStepError') {
+      const { code } = error as Error & { code: string }
+      return NextResponse.json({ error: error.message, code }, { status: 502 })
+    }
     return NextResponse.json(
       { error: 'Failed to fetch REINS images. Playwright may not be available.' },
       { status: 500 }
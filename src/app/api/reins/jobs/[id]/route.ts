@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestAuth } from '@/lib/supabase/server'
+import { deleteReinsJob, getReinsJob } from '@/lib/reins/jobs'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params
+  if (!id) return NextResponse.json({ error: 'id required' }, { status: 400 })
+
+  const { supabase, user } = await getRequestAuth(request)
+  if (!user) return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+
+  try {
+    const status = await getReinsJob(supabase, id)
+    if (!status) return NextResponse.json({ error: 'not found' }, { status: 404 })
+    return NextResponse.json(status)
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 })
+  }
+}
+
+// Delete a finished job and its files once the browser has downloaded them
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params
+  if (!id) return NextResponse.json({ error: 'id required' }, { status: 400 })
+
+  const { supabase, user } = await getRequestAuth(request)
+  if (!user) return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+
+  try {
+    if (!(await deleteReinsJob(supabase, id))) {
+      return NextResponse.json({ error: 'not found or still running' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 })
+  }
+}
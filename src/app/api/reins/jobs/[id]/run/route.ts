@@ -0,0 +1,25 @@
+import { after, NextRequest, NextResponse } from 'next/server'
+import { getRequestAuth } from '@/lib/supabase/server'
+import { claimReinsJob, runReinsJob } from '@/lib/reins/jobs'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Continue a job whose last run ran out of time or died. A no-op while another run holds it.
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params
+  if (!id) return NextResponse.json({ error: 'id required' }, { status: 400 })
+
+  const { supabase, user } = await getRequestAuth(request)
+  if (!user) return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+
+  try {
+    const started = await claimReinsJob(user.id, id)
+    if (started) after(() => runReinsJob(supabase, id, user.id))
+    return NextResponse.json({ started })
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 })
+  }
+}
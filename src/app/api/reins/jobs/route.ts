@@ -0,0 +1,51 @@
+import { after, NextRequest, NextResponse } from 'next/server'
+import { getRequestAuth } from '@/lib/supabase/server'
+import { claimReinsJob, createReinsJob, pruneReinsJobs, runReinsJob } from '@/lib/reins/jobs'
+import type { MaisokuVacancy } from '@/lib/maisoku'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null)
+
+function toVacancy(raw: unknown): MaisokuVacancy[] {
+  const v = (raw ?? {}) as Record<string, unknown>
+  const reinsId = optionalString(v.reinsId)
+  if (!reinsId) return []
+  return [{
+    reinsId,
+    maisokuUrl: optionalString(v.maisokuUrl),
+    platformId: optionalString(v.platformId),
+    uploadPath: optionalString(v.uploadPath),
+  }]
+}
+
+// Create a REINS fetch job and start it; progress is read from GET /api/reins/jobs/[id]
+export async function POST(request: NextRequest) {
+  const { supabase, user } = await getRequestAuth(request)
+  if (!user) return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+
+  const body = await request.json().catch(() => null)
+  // `forceRefresh: true` skips the maisoku cache; `vacancies` lets each property name other maisoku sources; bare `reinsIds` fetch from REINS only
+  const rawVacancies: unknown[] = Array.isArray(body?.vacancies)
+    ? body.vacancies
+    : Array.isArray(body?.reinsIds)
+      ? body.reinsIds.map((reinsId: unknown) => ({ reinsId }))
+      : []
+  const vacancies = rawVacancies.flatMap(toVacancy)
+  if (vacancies.length === 0) {
+    return NextResponse.json({ error: 'vacancies or reinsIds required' }, { status: 400 })
+  }
+
+  try {
+    const jobId = await createReinsJob(user.id, vacancies, { forceRefresh: body?.forceRefresh === true })
+    if (await claimReinsJob(user.id, jobId)) {
+      after(() => runReinsJob(supabase, jobId, user.id))
+    }
+    after(() => pruneReinsJobs(supabase, user.id))
+    return NextResponse.json({ jobId })
+  } catch (error) {
+    console.error('[reins/jobs] create failed:', error)
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestAuth } from '@/lib/supabase/server'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+/**
+ * REINS runner check. Without parameters, runs the runner against the mock
+ * REINS (self-test); with `?reinsId=`, fetches that property from the real
+ * REINS (health check). Reports per-property outcomes with step error codes.
+ */
+export async function GET(request: NextRequest) {
+  const { user } = await getRequestAuth(request)
+  if (!user) return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+
+  const reinsId = request.nextUrl.searchParams.get('reinsId')?.trim() || null
+
+  // Production: the Playwright-capable backend runs the check
+  const backendUrl = process.env.REINS_BACKEND_URL
+  if (backendUrl) {
+    const query = reinsId ? `?reinsId=${encodeURIComponent(reinsId)}` : ''
+    const res = await fetch(`${backendUrl}/api/reins/self-test${query}`, {
+      headers: {
+        cookie: request.headers.get('cookie') ?? '',
+        authorization: request.headers.get('authorization') ?? '',
+      },
+    })
+    return NextResponse.json(await res.json(), { status: res.status })
+  }
+
+  try {
+    const { chromium } = await import('playwright')
+    const { runReinsHealthCheck, runReinsSelfTest } = await import('@/lib/reins/self-test')
+    const report = reinsId
+      ? await runReinsHealthCheck(chromium, reinsId)
+      : await runReinsSelfTest(chromium)
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('[reins/self-test] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to run the REINS check. Playwright may not be available.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getPublicBaseUrl } from '@/lib/public-url'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: Promise<{ code: string }> }
+
+// Link-preview fetchers (LINE, Slack, ...) follow the URL without a person behind it
+const BOT_USER_AGENT = /bot|crawler|spider|preview|facebookexternalhit|slack|line-poker/i
+
+/**
+ * Tracked QR redirect for printed maisoku: resolve the code (which logs the
+ * scan), then send the visitor to the listing page tagged with the batch as
+ * UTM parameters so GA sees print traffic too. The target is always the
+ * listing's own /p page, never a stored URL.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { code } = await context.params
+  const supabase = await createClient()
+
+  const userAgent = request.headers.get('user-agent')
+  const { data, error } = await supabase.rpc('resolve_print_link', {
+    p_code: code,
+    p_user_agent: userAgent,
+    p_record_scan: !userAgent || !BOT_USER_AGENT.test(userAgent),
+  })
+
+  if (error) console.error('[q] lookup failed:', error)
+  const link = (data as { slug: string; batch_id: string; channel: string }[] | null)?.[0]
+  if (!link) return NextResponse.redirect(new URL('/', request.url))
+
+  const target = new URL(`/p/${encodeURIComponent(link.slug)}`, getPublicBaseUrl() || request.url)
+  target.searchParams.set('utm_source', link.channel === 'print' ? 'print' : 'web')
+  target.searchParams.set('utm_medium', 'qr')
+  target.searchParams.set('utm_campaign', link.batch_id)
+  return NextResponse.redirect(target, 302)
+}
@@ -0,0 +1,62 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { AlignMode, DistributeAxis } from '@/lib/block-align'
+
+interface BlockAlignToolsProps {
+  selectedCount: number
+  onAlign: (mode: AlignMode) => void
+  onDistribute: (axis: DistributeAxis) => void
+}
+
+const ALIGN_BUTTONS: { mode: AlignMode; label: string }[] = [
+  { mode: 'left', label: '左' },
+  { mode: 'center', label: '左右中央' },
+  { mode: 'right', label: '右' },
+  { mode: 'top', label: '上' },
+  { mode: 'middle', label: '上下中央' },
+  { mode: 'bottom', label: '下' },
+]
+
+export function BlockAlignTools({ selectedCount, onAlign, onDistribute }: BlockAlignToolsProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">整列（{selectedCount}個選択中）</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-3 gap-1">
+          {ALIGN_BUTTONS.map(({ mode, label }) => (
+            <Button key={mode} variant="outline" size="sm" className="text-xs" onClick={() => onAlign(mode)}>
+              {label}揃え
+            </Button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-xs"
+            disabled={selectedCount < 3}
+            onClick={() => onDistribute('horizontal')}
+          >
+            横に等間隔
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-xs"
+            disabled={selectedCount < 3}
+            onClick={() => onDistribute('vertical')}
+          >
+            縦に等間隔
+          </Button>
+        </div>
+        <p className="text-[11px] text-muted-foreground">
+          Shift+クリックで同じページのブロックを複数選択できます
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,22 @@
 'use client'
 
-import { useState, useRef, useCallback, useEffect } from 'react'
-import type { CompanyProfile, Block, TextBlock, ImageBlock } from '@/lib/database.types'
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
+import type { CompanyFont, CompanyProfile, Block, ShapeBlock, QrBlock } from '@/lib/database.types'
+import {
+  IMAGE_FIELD_LABELS,
+  QR_FIELD_LABELS,
+  TEXT_FIELD_LABELS,
+  blockFont,
+  isTextualBlock,
+  parseCustomFields,
+  parseCustomFonts,
+  qrBlockContent,
+  type TextualBlock,
+} from '@/lib/blocks'
+import { layoutPreviewText, previewFontStack, usePreviewFontsReady } from '@/lib/preview-fonts'
+import type { TextLayout } from '@/lib/text-layout'
+import { getPublicBaseUrl } from '@/lib/public-url'
+import { QR_QUIET_ZONE, encodeQr, qrSvgPath } from '@/lib/qr-code'
 
 interface BlockEditorProps {
   canvasWidth: number
@@ -12,27 +27,9 @@ interface BlockEditorProps {
   companyProfile: CompanyProfile | null
   blocks: Block[]
   onBlocksChange: (blocks: Block[]) => void
-  selectedBlockId: string | null
-  onSelectBlock: (id: string | null) => void
-}
-
-const FIELD_LABELS: Record<TextBlock['field'], string> = {
-  company_name: '会社名',
-  address: '住所',
-  phone: '電話番号',
-  fax: 'FAX',
-  email: 'メール',
-  contact_person: '担当者',
-  license_number: '免許番号',
-  fee_ratio_landlord: '貸主負担',
-  fee_ratio_tenant: '借主負担',
-  fee_distribution_motoduke: '元付配分',
-  fee_distribution_kyakuzuke: '客付配分',
-}
-
-const IMAGE_LABELS: Record<ImageBlock['field'], string> = {
-  logo: 'ロゴ',
-  line_qr: 'LINE QR',
+  selectedBlockIds: string[]
+  // Shift+クリックで追加選択（選択は常にこのページ内のブロック）
+  onSelectBlocks: (ids: string[]) => void
 }
 
 export function BlockEditor({
@@ -44,31 +41,40 @@ export function BlockEditor({
   companyProfile,
   blocks,
   onBlocksChange,
-  selectedBlockId,
-  onSelectBlock,
+  selectedBlockIds,
+  onSelectBlocks,
 }: BlockEditorProps) {
   const containerRef = useRef<HTMLDivElement>(null)
+  const customFonts = useMemo(() => parseCustomFonts(companyProfile?.custom_fonts), [companyProfile])
+  // フォント読み込み後に再描画して折り返し位置を計測し直す
+  usePreviewFontsReady(customFonts)
   const [dragging, setDragging] = useState<{
-    blockId: string
     startX: number
     startY: number
-    blockStartX: number
-    blockStartY: number
+    // 選択中ブロックごとのドラッグ開始位置
+    origins: { [blockId: string]: { x: number; y: number } }
   } | null>(null)
 
   const handleMouseDown = useCallback(
     (e: React.MouseEvent, block: Block) => {
       e.stopPropagation()
-      onSelectBlock(block.id)
+      const selected = selectedBlockIds.filter((id) => blocks.some((b) => b.id === id))
+      const isSelected = selected.includes(block.id)
+      const ids = e.shiftKey
+        ? isSelected ? selected.filter((id) => id !== block.id) : [...selected, block.id]
+        : isSelected ? selected : [block.id]
+      onSelectBlocks(ids)
+      if (!ids.includes(block.id)) return
+
       setDragging({
-        blockId: block.id,
         startX: e.clientX,
         startY: e.clientY,
-        blockStartX: block.x,
-        blockStartY: block.y,
+        origins: Object.fromEntries(
+          blocks.filter((b) => ids.includes(b.id)).map((b) => [b.id, { x: b.x, y: b.y }])
+        ),
       })
     },
-    [onSelectBlock]
+    [selectedBlockIds, blocks, onSelectBlocks]
   )
 
   const handleMouseMove = useCallback(
@@ -79,15 +85,15 @@ export function BlockEditor({
       const deltaY = e.clientY - dragging.startY
 
       onBlocksChange(
-        blocks.map((block) =>
-          block.id === dragging.blockId
-            ? {
-                ...block,
-                x: Math.max(0, Math.min(canvasWidth - block.width, dragging.blockStartX + deltaX)),
-                y: Math.max(0, Math.min(canvasHeight - block.height, dragging.blockStartY + deltaY)),
-              }
-            : block
-        )
+        blocks.map((block) => {
+          const origin = dragging.origins[block.id]
+          if (!origin) return block
+          return {
+            ...block,
+            x: Math.max(0, Math.min(canvasWidth - block.width, origin.x + deltaX)),
+            y: Math.max(0, Math.min(canvasHeight - block.height, origin.y + deltaY)),
+          }
+        })
       )
     },
     [dragging, blocks, onBlocksChange, canvasWidth, canvasHeight]
@@ -108,25 +114,27 @@ export function BlockEditor({
     }
   }, [dragging, handleMouseMove, handleMouseUp])
 
-  const getBlockContent = (block: Block): string | React.ReactNode => {
-    if (block.type === 'image') {
-      const imageUrl = block.field === 'logo'
-        ? companyProfile?.logo_url
-        : companyProfile?.line_qr_url
-      return `[${IMAGE_LABELS[block.field]}]`
+  const customFields = parseCustomFields(companyProfile?.custom_fields)
+
+  const getTextContent = (block: TextualBlock): string => {
+    if (block.type === 'free_text') return block.text || '[テキスト]'
+
+    if (block.type === 'custom_field') {
+      const field = customFields.find((f) => f.key === block.field)
+      return field?.value || `[${field?.label || 'カスタム項目'}]`
     }
 
-    if (!companyProfile) return FIELD_LABELS[block.field]
+    if (!companyProfile) return TEXT_FIELD_LABELS[block.field]
 
     // 手数料フィールドの場合はラベル付きで表示
     if (block.field.startsWith('fee_')) {
       const value = companyProfile[block.field as keyof CompanyProfile] as number | null
-      if (value === null || value === undefined) return `[${FIELD_LABELS[block.field]}]`
-      return `${FIELD_LABELS[block.field]}: ${value}%`
+      if (value === null || value === undefined) return `[${TEXT_FIELD_LABELS[block.field]}]`
+      return `${TEXT_FIELD_LABELS[block.field]}: ${value}%`
     }
 
     const value = companyProfile[block.field as keyof CompanyProfile]
-    return (value as string) || FIELD_LABELS[block.field]
+    return (value as string) || TEXT_FIELD_LABELS[block.field]
   }
 
   // 白塗り領域の計算
@@ -141,7 +149,7 @@ export function BlockEditor({
     <div
       ref={containerRef}
       className="absolute inset-0"
-      onClick={() => onSelectBlock(null)}
+      onClick={() => onSelectBlocks([])}
     >
       {/* 白塗り領域の可視化（薄いグレー） */}
       <div
@@ -168,253 +176,154 @@ export function BlockEditor({
       )}
 
       {/* ブロック */}
-      {blocks.map((block) => (
-        <div
-          key={block.id}
-          className={`absolute cursor-move select-none ${
-            selectedBlockId === block.id
-              ? 'ring-2 ring-blue-500 ring-offset-1'
-              : 'hover:ring-2 hover:ring-gray-400'
-          }`}
-          style={{
-            left: block.x,
-            top: block.y,
-            width: block.width,
-            height: block.height,
-            fontSize: block.type === 'text' ? block.fontSize : undefined,
-            fontWeight: block.type === 'text' ? block.fontWeight : undefined,
-            textAlign: block.type === 'text' ? block.textAlign : undefined,
-            backgroundColor: block.type === 'image' ? 'rgba(200, 200, 255, 0.3)' : 'rgba(255, 255, 255, 0.9)',
-            border: block.type === 'image' ? '2px dashed #6366f1' : '1px solid #ccc',
-            padding: '2px 4px',
-            overflow: 'hidden',
-            whiteSpace: 'nowrap',
-            textOverflow: 'ellipsis',
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: block.type === 'image' ? 'center' : undefined,
-          }}
-          onMouseDown={(e) => handleMouseDown(e, block)}
-        >
-          {getBlockContent(block)}
-        </div>
-      ))}
+      {blocks.map((block) => {
+        // テキストはPDF出力と同じ行分割・位置で描画する
+        const layout = isTextualBlock(block) ? layoutPreviewText(getTextContent(block), block, customFonts) : null
+
+        return (
+          <div
+            key={block.id}
+            className={`absolute cursor-move select-none ${
+              selectedBlockIds.includes(block.id)
+                ? 'ring-2 ring-blue-500 ring-offset-1'
+                : layout?.overflow
+                  ? 'ring-2 ring-red-400'
+                  : 'hover:ring-2 hover:ring-gray-400'
+            }`}
+            style={{
+              left: block.x,
+              top: block.y,
+              width: block.width,
+              height: block.height,
+              backgroundColor: block.type === 'image'
+                ? 'rgba(200, 200, 255, 0.3)'
+                : block.type === 'shape' || block.type === 'qr'
+                  ? 'transparent'
+                  : block.backgroundColor || 'rgba(255, 255, 255, 0.9)',
+              border: block.type === 'image' ? '2px dashed #6366f1' : undefined,
+              // 枠線は内側の影で描き、テキストの座標系をずらさない
+              boxShadow: isTextualBlock(block)
+                ? `inset 0 0 0 ${block.borderWidth || 1}px ${block.borderWidth ? block.borderColor ?? '#000000' : '#ccc'}`
+                : undefined,
+              overflow: layout ? 'visible' : 'hidden',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: block.type === 'image' || block.type === 'qr' ? 'center' : undefined,
+            }}
+            onMouseDown={(e) => handleMouseDown(e, block)}
+            onClick={(e) => e.stopPropagation()}
+          >
+            {block.type === 'image' && `[${IMAGE_FIELD_LABELS[block.field]}]`}
+            {block.type === 'shape' && renderShape(block)}
+            {block.type === 'qr' && renderQr(block, companyProfile)}
+            {isTextualBlock(block) && layout && renderText(block, layout, blockFont(block, customFonts))}
+          </div>
+        )
+      })}
     </div>
   )
 }
 
-// 初期ブロック生成（白塗り範囲内に適切なマージンで配置）
-// 3分割レイアウト: [ロゴ（左端）] [テキスト情報（中央）] [QR（右端）]
-export function createInitialBlocks(
-  canvasWidth: number,
-  canvasHeight: number,
-  maskBottomHeight: number,
-  maskLeftWidth: number,
-  enableLShape: boolean,
-  companyProfile: CompanyProfile | null
-): Block[] {
-  // マージン設定
-  const marginTop = 8
-  const marginBottom = 8
-  const marginX = 10
-  const gapBetweenSections = 10
-
-  // 白塗り範囲の計算
-  const maskStartX = enableLShape ? maskLeftWidth : 0
-  const maskStartY = canvasHeight - maskBottomHeight
-  const totalAvailableWidth = (enableLShape ? canvasWidth - maskLeftWidth : canvasWidth) - (marginX * 2)
-  const availableHeight = maskBottomHeight - marginTop - marginBottom
-
-  // フォントサイズ設定（白塗り高さに応じてスケール）
-  const baseScale = Math.min(1, maskBottomHeight / 100)
-  const companyNameFontSize = Math.max(11, Math.round(16 * baseScale))
-  const smallFontSize = Math.max(8, Math.round(10 * baseScale))
-
-  // 行高さ（フォントサイズに基づく）
-  const companyNameHeight = companyNameFontSize + 6
-  const smallLineHeight = smallFontSize + 6
-
-  const blocks: Block[] = []
-  const timestamp = Date.now()
-
-  // 画像サイズの計算
-  const hasLogo = !!companyProfile?.logo_url
-  const hasQr = !!companyProfile?.line_qr_url
-  const imageSize = Math.min(availableHeight, availableHeight * 0.9) // 高さに合わせた正方形
-
-  // ロゴブロック（左端）
-  let logoWidth = 0
-  if (hasLogo) {
-    logoWidth = imageSize
-    blocks.push({
-      id: `block-logo-${timestamp}`,
-      type: 'image',
-      field: 'logo',
-      x: maskStartX + marginX,
-      y: maskStartY + marginTop + (availableHeight - imageSize) / 2,
-      width: imageSize,
-      height: imageSize,
-    })
-  }
+// テキストのプレビュー（ベースライン位置を指定してPDFと揃える）
+function renderText(block: TextualBlock, layout: TextLayout, font: CompanyFont | null) {
+  return (
+    <svg
+      className="absolute inset-0 overflow-visible pointer-events-none"
+      width={block.width}
+      height={block.height}
+    >
+      {layout.runs.map((run, i) => (
+        <text
+          key={i}
+          x={run.x}
+          y={run.baseline}
+          transform={run.rotateAbout ? `rotate(90 ${run.rotateAbout.x} ${run.rotateAbout.y})` : undefined}
+          fontSize={layout.fontSize}
+          fontFamily={previewFontStack(font)}
+          fontWeight={block.fontWeight === 'bold' && !font ? 700 : 400}
+          fill={block.textColor ?? '#000000'}
+          xmlSpace="preserve"
+        >
+          {run.text}
+        </text>
+      ))}
+    </svg>
+  )
+}
 
-  // QRブロック（右端）
-  let qrWidth = 0
-  if (hasQr) {
-    qrWidth = imageSize
-    blocks.push({
-      id: `block-line_qr-${timestamp + 1}`,
-      type: 'image',
-      field: 'line_qr',
-      x: maskStartX + marginX + totalAvailableWidth - imageSize,
-      y: maskStartY + marginTop + (availableHeight - imageSize) / 2,
-      width: imageSize,
-      height: imageSize,
-    })
+// 線・枠のプレビュー（線はブロックの長辺方向に中央を通る）
+function renderShape(block: ShapeBlock) {
+  if (block.field === 'line') {
+    const horizontal = block.width >= block.height
+    return (
+      <div
+        className="w-full h-full flex items-center justify-center"
+        style={{ flexDirection: horizontal ? 'column' : 'row' }}
+      >
+        <div
+          style={{
+            backgroundColor: block.strokeColor,
+            width: horizontal ? '100%' : block.strokeWidth,
+            height: horizontal ? block.strokeWidth : '100%',
+          }}
+        />
+      </div>
+    )
   }
 
-  // テキスト領域の計算
-  const textStartX = maskStartX + marginX + (hasLogo ? logoWidth + gapBetweenSections : 0)
-  const textAreaWidth = totalAvailableWidth
-    - (hasLogo ? logoWidth + gapBetweenSections : 0)
-    - (hasQr ? qrWidth + gapBetweenSections : 0)
-
-  // テキストブロック用の2列レイアウト
-  const columnWidth = textAreaWidth / 2
-  const startY = maskStartY + marginTop
-
-  // 左列: 会社名（大きめ）、免許番号、手数料情報
-  let leftY = startY
-
-  blocks.push({
-    id: `block-company_name-${timestamp + 2}`,
-    type: 'text',
-    field: 'company_name',
-    x: textStartX,
-    y: leftY,
-    width: columnWidth - 5,
-    height: companyNameHeight,
-    fontSize: companyNameFontSize,
-    fontWeight: 'bold',
-    textAlign: 'left',
-  })
-  leftY += companyNameHeight + 2
-
-  blocks.push({
-    id: `block-license_number-${timestamp + 3}`,
-    type: 'text',
-    field: 'license_number',
-    x: textStartX,
-    y: leftY,
-    width: columnWidth - 5,
-    height: smallLineHeight,
-    fontSize: smallFontSize,
-    fontWeight: 'normal',
-    textAlign: 'left',
-  })
-  leftY += smallLineHeight + 2
+  return (
+    <div
+      className="w-full h-full"
+      style={{
+        border: block.strokeWidth > 0 ? `${block.strokeWidth}px solid ${block.strokeColor}` : undefined,
+        backgroundColor: block.fillColor ?? undefined,
+      }}
+    />
+  )
+}
 
-  // 手数料情報（設定されている場合のみ）
-  if (companyProfile?.fee_ratio_landlord !== null && companyProfile?.fee_ratio_landlord !== undefined) {
-    blocks.push({
-      id: `block-fee_ratio_landlord-${timestamp + 4}`,
-      type: 'text',
-      field: 'fee_ratio_landlord',
-      x: textStartX,
-      y: leftY,
-      width: (columnWidth - 5) / 2 - 2,
-      height: smallLineHeight,
-      fontSize: smallFontSize,
-      fontWeight: 'normal',
-      textAlign: 'left',
-    })
+// QRのパスはURLごとにキャッシュ（ドラッグ中の再描画で毎回エンコードしない）
+const qrPathCache = new Map<string, { path: string; viewBox: number } | null>()
 
-    blocks.push({
-      id: `block-fee_ratio_tenant-${timestamp + 5}`,
-      type: 'text',
-      field: 'fee_ratio_tenant',
-      x: textStartX + (columnWidth - 5) / 2,
-      y: leftY,
-      width: (columnWidth - 5) / 2 - 2,
-      height: smallLineHeight,
-      fontSize: smallFontSize,
-      fontWeight: 'normal',
-      textAlign: 'left',
-    })
-    leftY += smallLineHeight + 2
+function qrPreviewPath(content: string) {
+  if (!qrPathCache.has(content)) {
+    try {
+      const qr = encodeQr(content)
+      qrPathCache.set(content, { path: qrSvgPath(qr), viewBox: qr.size + QR_QUIET_ZONE * 2 })
+    } catch {
+      qrPathCache.set(content, null)
+    }
   }
+  return qrPathCache.get(content) ?? null
+}
 
-  if (companyProfile?.fee_distribution_motoduke !== null && companyProfile?.fee_distribution_motoduke !== undefined) {
-    blocks.push({
-      id: `block-fee_distribution_motoduke-${timestamp + 6}`,
-      type: 'text',
-      field: 'fee_distribution_motoduke',
-      x: textStartX,
-      y: leftY,
-      width: (columnWidth - 5) / 2 - 2,
-      height: smallLineHeight,
-      fontSize: smallFontSize,
-      fontWeight: 'normal',
-      textAlign: 'left',
-    })
-
-    blocks.push({
-      id: `block-fee_distribution_kyakuzuke-${timestamp + 7}`,
-      type: 'text',
-      field: 'fee_distribution_kyakuzuke',
-      x: textStartX + (columnWidth - 5) / 2,
-      y: leftY,
-      width: (columnWidth - 5) / 2 - 2,
-      height: smallLineHeight,
-      fontSize: smallFontSize,
-      fontWeight: 'normal',
-      textAlign: 'left',
-    })
+// QRのプレビュー。物件・提案ページのURLは公開時に決まるため、仮のURLで薄く表示する
+function renderQr(block: QrBlock, companyProfile: CompanyProfile | null) {
+  const pending = block.field === 'listing' || block.field === 'proposal'
+  const content = pending
+    ? `${getPublicBaseUrl()}/${block.field === 'listing' ? 'p' : 'propose'}/preview`
+    : qrBlockContent(block, companyProfile, '')
+  const qr = content ? qrPreviewPath(content) : null
+
+  if (!qr) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-[10px] text-indigo-600 border-2 border-dashed border-indigo-400 bg-indigo-50/50">
+        [{QR_FIELD_LABELS[block.field]} URL未設定]
+      </div>
+    )
   }
 
-  // 右列: 住所、電話、メール（全て小さめ）
-  const rightX = textStartX + columnWidth
-  let rightY = startY
-
-  blocks.push({
-    id: `block-address-${timestamp + 8}`,
-    type: 'text',
-    field: 'address',
-    x: rightX,
-    y: rightY,
-    width: columnWidth - 5,
-    height: smallLineHeight,
-    fontSize: smallFontSize,
-    fontWeight: 'normal',
-    textAlign: 'left',
-  })
-  rightY += smallLineHeight + 2
-
-  blocks.push({
-    id: `block-phone-${timestamp + 9}`,
-    type: 'text',
-    field: 'phone',
-    x: rightX,
-    y: rightY,
-    width: columnWidth - 5,
-    height: smallLineHeight,
-    fontSize: smallFontSize,
-    fontWeight: 'normal',
-    textAlign: 'left',
-  })
-  rightY += smallLineHeight + 2
-
-  blocks.push({
-    id: `block-email-${timestamp + 10}`,
-    type: 'text',
-    field: 'email',
-    x: rightX,
-    y: rightY,
-    width: columnWidth - 5,
-    height: smallLineHeight,
-    fontSize: smallFontSize,
-    fontWeight: 'normal',
-    textAlign: 'left',
-  })
-
-  return blocks
+  return (
+    <svg
+      className="w-full h-full"
+      viewBox={`0 0 ${qr.viewBox} ${qr.viewBox}`}
+      preserveAspectRatio="xMidYMid meet"
+      shapeRendering="crispEdges"
+      opacity={pending ? 0.4 : 1}
+    >
+      <title>{pending ? `${QR_FIELD_LABELS[block.field]}（公開時にURLが入ります）` : content ?? ''}</title>
+      <rect width={qr.viewBox} height={qr.viewBox} fill="#ffffff" />
+      <path d={qr.path} fill={block.color ?? '#000000'} />
+    </svg>
+  )
 }
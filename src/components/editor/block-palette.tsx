@@ -0,0 +1,102 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { CustomProfileField, QrBlock } from '@/lib/database.types'
+import { QR_FIELD_LABELS } from '@/lib/blocks'
+
+export type BlockPaletteItem =
+  | { kind: 'free_text' }
+  | { kind: 'custom_field'; key: string }
+  | { kind: 'line' }
+  | { kind: 'box' }
+  | { kind: 'qr'; field: QrBlock['field'] }
+
+interface BlockPaletteProps {
+  customFields: CustomProfileField[]
+  onAdd: (item: BlockPaletteItem) => void
+  disabled?: boolean
+}
+
+export function BlockPalette({ customFields, onAdd, disabled }: BlockPaletteProps) {
+  const [customKey, setCustomKey] = useState('')
+  const [qrField, setQrField] = useState<QrBlock['field']>('listing')
+  const selectedKey = customFields.some((f) => f.key === customKey) ? customKey : customFields[0]?.key ?? ''
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">ブロックを追加</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-3 gap-2">
+          <Button variant="outline" size="sm" disabled={disabled} onClick={() => onAdd({ kind: 'free_text' })}>
+            テキスト
+          </Button>
+          <Button variant="outline" size="sm" disabled={disabled} onClick={() => onAdd({ kind: 'line' })}>
+            線
+          </Button>
+          <Button variant="outline" size="sm" disabled={disabled} onClick={() => onAdd({ kind: 'box' })}>
+            枠
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <select
+            value={qrField}
+            onChange={(e) => setQrField(e.target.value as QrBlock['field'])}
+            className="flex-1 min-w-0 h-8 rounded-md border px-2 text-xs"
+          >
+            {(Object.keys(QR_FIELD_LABELS) as QrBlock['field'][]).map((field) => (
+              <option key={field} value={field}>
+                {QR_FIELD_LABELS[field]}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 flex-shrink-0"
+            disabled={disabled}
+            onClick={() => onAdd({ kind: 'qr', field: qrField })}
+          >
+            QRを追加
+          </Button>
+        </div>
+
+        {customFields.length > 0 ? (
+          <div className="flex gap-2">
+            <select
+              value={selectedKey}
+              onChange={(e) => setCustomKey(e.target.value)}
+              className="flex-1 min-w-0 h-8 rounded-md border px-2 text-xs"
+            >
+              {customFields.map((f) => (
+                <option key={f.key} value={f.key}>
+                  {f.label || f.key}
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 flex-shrink-0"
+              disabled={disabled || !selectedKey}
+              onClick={() => onAdd({ kind: 'custom_field', key: selectedKey })}
+            >
+              項目を追加
+            </Button>
+          </div>
+        ) : (
+          <p className="text-[11px] text-muted-foreground">
+            営業時間などの独自項目は
+            <Link href="/settings" className="underline">会社情報設定</Link>
+            で登録できます
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
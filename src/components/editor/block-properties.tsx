@@ -4,15 +4,29 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import type { Block, TextBlock } from '@/lib/database.types'
+import type { Block, CompanyFont, CustomProfileField, QrBlock, TextBlock } from '@/lib/database.types'
+import { QR_FIELD_LABELS, blockFont, isTextualBlock } from '@/lib/blocks'
+import { DEFAULT_LINE_HEIGHT, type TextLayout } from '@/lib/text-layout'
 
 interface BlockPropertiesProps {
   block: Block | null
   onUpdate: (block: Block) => void
   onDelete: (id: string) => void
+  customFields?: CustomProfileField[]
+  /** 会社設定で登録したフォント */
+  customFonts?: CompanyFont[]
+  /** 出力時の行分割結果（はみ出し警告用、テキスト系ブロックのみ） */
+  textLayout?: TextLayout | null
 }
 
-export function BlockProperties({ block, onUpdate, onDelete }: BlockPropertiesProps) {
+export function BlockProperties({
+  block,
+  onUpdate,
+  onDelete,
+  customFields = [],
+  customFonts = [],
+  textLayout,
+}: BlockPropertiesProps) {
   if (!block) {
     return (
       <Card>
@@ -82,9 +96,156 @@ export function BlockProperties({ block, onUpdate, onDelete }: BlockPropertiesPr
           </div>
         </div>
 
-        {/* テキストブロックの場合のみ */}
-        {block.type === 'text' && (
+        {/* 自由テキスト */}
+        {block.type === 'free_text' && (
+          <div className="space-y-1">
+            <Label className="text-xs">テキスト</Label>
+            <textarea
+              value={block.text}
+              onChange={(e) => onUpdate({ ...block, text: e.target.value })}
+              rows={2}
+              className="w-full rounded-md border px-2 py-1 text-sm"
+              placeholder="仲介手数料0.5ヶ月 など"
+            />
+          </div>
+        )}
+
+        {/* カスタム項目 */}
+        {block.type === 'custom_field' && (
+          <div className="space-y-1">
+            <Label className="text-xs">カスタム項目</Label>
+            <select
+              value={block.field}
+              onChange={(e) => onUpdate({ ...block, field: e.target.value })}
+              className="w-full h-8 rounded-md border px-2 text-sm"
+            >
+              {!customFields.some((f) => f.key === block.field) && (
+                <option value={block.field}>（削除された項目）</option>
+              )}
+              {customFields.map((f) => (
+                <option key={f.key} value={f.key}>
+                  {f.label || f.key}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* QRコード */}
+        {block.type === 'qr' && (
           <>
+            <div className="space-y-1">
+              <Label className="text-xs">リンク先</Label>
+              <select
+                value={block.field}
+                onChange={(e) => onUpdate({ ...block, field: e.target.value as QrBlock['field'] })}
+                className="w-full h-8 rounded-md border px-2 text-sm"
+              >
+                {(Object.keys(QR_FIELD_LABELS) as QrBlock['field'][]).map((field) => (
+                  <option key={field} value={field}>{QR_FIELD_LABELS[field]}</option>
+                ))}
+              </select>
+            </div>
+
+            {block.field === 'url' && (
+              <div className="space-y-1">
+                <Label className="text-xs">URL</Label>
+                <Input
+                  value={block.url ?? ''}
+                  onChange={(e) => onUpdate({ ...block, url: e.target.value })}
+                  placeholder="https://"
+                  className="h-8"
+                />
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label className="text-xs">色</Label>
+              <input
+                type="color"
+                value={block.color ?? '#000000'}
+                onChange={(e) => onUpdate({ ...block, color: e.target.value })}
+                className="h-8 w-12 cursor-pointer rounded border"
+              />
+            </div>
+
+            <p className="text-[11px] text-muted-foreground">
+              {block.field === 'line' && 'LINEのURLは会社情報設定で登録します'}
+              {block.field === 'listing' && '公開時に各物件ページの計測用URLが入ります。公開後の「印刷用PDF」から出力すると配布物ごとの読み取り数が分かります（通常のPDF出力では印刷されません）'}
+              {block.field === 'proposal' && '提案セットを作成したときに提案ページのURLが入ります。それ以外では印刷されません'}
+              {block.field === 'url' && '読み取りやすいよう、濃い色で1.5cm角以上を目安にしてください'}
+            </p>
+          </>
+        )}
+
+        {/* 線・枠 */}
+        {block.type === 'shape' && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">線の色</Label>
+                <input
+                  type="color"
+                  value={block.strokeColor}
+                  onChange={(e) => onUpdate({ ...block, strokeColor: e.target.value })}
+                  className="h-8 w-full cursor-pointer rounded border"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">線の太さ</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={block.strokeWidth}
+                  onChange={(e) => onUpdate({ ...block, strokeWidth: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className="h-8"
+                />
+              </div>
+            </div>
+
+            {block.field === 'box' && (
+              <div className="space-y-1">
+                <Label className="text-xs">塗り</Label>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant={block.fillColor === null ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => onUpdate({ ...block, fillColor: null })}
+                  >
+                    なし
+                  </Button>
+                  <input
+                    type="color"
+                    value={block.fillColor ?? '#ffffff'}
+                    onChange={(e) => onUpdate({ ...block, fillColor: e.target.value })}
+                    className="h-8 w-12 cursor-pointer rounded border"
+                  />
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* テキスト系ブロックの場合のみ */}
+        {isTextualBlock(block) && (
+          <>
+            {customFonts.length > 0 && (
+              <div className="space-y-1">
+                <Label className="text-xs">フォント</Label>
+                <select
+                  value={blockFont(block, customFonts)?.id ?? ''}
+                  onChange={(e) => onUpdate({ ...block, fontFamily: e.target.value || undefined })}
+                  className="w-full h-8 rounded-md border px-2 text-sm"
+                >
+                  <option value="">Noto Sans JP（標準）</option>
+                  {customFonts.map((f) => (
+                    <option key={f.id} value={f.id}>{f.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div className="space-y-1">
               <Label className="text-xs">フォントサイズ</Label>
               <div className="flex items-center gap-2">
@@ -119,6 +280,9 @@ export function BlockProperties({ block, onUpdate, onDelete }: BlockPropertiesPr
 
             <div className="space-y-1">
               <Label className="text-xs">太字</Label>
+              {blockFont(block, customFonts) && (
+                <p className="text-[11px] text-muted-foreground">登録フォントは太字に対応していません</p>
+              )}
               <div className="flex gap-2">
                 <Button
                   variant={(block as TextBlock).fontWeight === 'normal' ? 'default' : 'outline'}
@@ -163,6 +327,127 @@ export function BlockProperties({ block, onUpdate, onDelete }: BlockPropertiesPr
                 </Button>
               </div>
             </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">書字方向</Label>
+              <div className="flex gap-1">
+                <Button
+                  variant={block.writingMode !== 'vertical' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onUpdate({ ...block, writingMode: 'horizontal' })}
+                >
+                  横書き
+                </Button>
+                <Button
+                  variant={block.writingMode === 'vertical' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onUpdate({ ...block, writingMode: 'vertical' })}
+                >
+                  縦書き
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">文字色</Label>
+                <input
+                  type="color"
+                  value={block.textColor ?? '#000000'}
+                  onChange={(e) => onUpdate({ ...block, textColor: e.target.value })}
+                  className="h-8 w-full cursor-pointer rounded border"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">背景</Label>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant={!block.backgroundColor ? 'default' : 'outline'}
+                    size="sm"
+                    className="px-2"
+                    onClick={() => onUpdate({ ...block, backgroundColor: null })}
+                  >
+                    なし
+                  </Button>
+                  <input
+                    type="color"
+                    value={block.backgroundColor ?? '#ffffff'}
+                    onChange={(e) => onUpdate({ ...block, backgroundColor: e.target.value })}
+                    className="h-8 min-w-0 flex-1 cursor-pointer rounded border"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">枠線の色</Label>
+                <input
+                  type="color"
+                  value={block.borderColor ?? '#000000'}
+                  onChange={(e) => onUpdate({ ...block, borderColor: e.target.value })}
+                  className="h-8 w-full cursor-pointer rounded border"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">枠線の太さ</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={block.borderWidth ?? 0}
+                  onChange={(e) => onUpdate({ ...block, borderWidth: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className="h-8"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">折り返し・縮小</Label>
+              <div className="flex gap-1">
+                <Button
+                  variant={block.wrap ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onUpdate({ ...block, wrap: !block.wrap })}
+                >
+                  折り返す
+                </Button>
+                <Button
+                  variant={block.autoFit ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onUpdate({ ...block, autoFit: !block.autoFit })}
+                >
+                  自動縮小
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">行間（倍）</Label>
+              <Input
+                type="number"
+                min={0.8}
+                max={3}
+                step={0.1}
+                value={block.lineHeight ?? DEFAULT_LINE_HEIGHT}
+                onChange={(e) =>
+                  onUpdate({ ...block, lineHeight: Math.min(3, Math.max(0.8, parseFloat(e.target.value) || DEFAULT_LINE_HEIGHT)) })
+                }
+                className="h-8 w-20"
+              />
+            </div>
+
+            {textLayout?.overflow && (
+              <p className="rounded-md bg-red-50 px-2 py-1.5 text-xs text-red-700">
+                テキストがブロックに収まっていません。
+                {block.wrap ? '高さを広げる' : '「折り返す」を有効にする'}か、フォントサイズを小さくしてください
+              </p>
+            )}
+            {!textLayout?.overflow && textLayout && textLayout.fontSize < block.fontSize && (
+              <p className="text-xs text-muted-foreground">
+                自動縮小: {textLayout.fontSize}px で出力されます
+              </p>
+            )}
           </>
         )}
 
@@ -0,0 +1,80 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { deleteDraft, listDrafts, type DraftSummary } from '@/lib/editor-drafts'
+
+// ダッシュボードの「編集中の下書き」一覧
+export function DraftList() {
+  const [drafts, setDrafts] = useState<DraftSummary[] | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    listDrafts()
+      .then((list) => {
+        if (!cancelled) setDrafts(list)
+      })
+      .catch((error) => {
+        console.error('Error loading drafts:', error)
+        if (!cancelled) setDrafts([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const handleDelete = async (draft: DraftSummary) => {
+    if (!confirm(`「${draft.title}」の下書きを削除しますか？`)) return
+    try {
+      await deleteDraft(draft.id)
+      setDrafts((prev) => prev?.filter((d) => d.id !== draft.id) ?? null)
+      toast.success('下書きを削除しました')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '下書きの削除に失敗しました')
+    }
+  }
+
+  if (!drafts || drafts.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>編集中の下書き</CardTitle>
+        <CardDescription>
+          自動保存された編集内容から再開できます
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {drafts.map((draft) => (
+            <li key={draft.id} className="flex items-center gap-3 py-2">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium">{draft.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {draft.pageCount}ページ ・ {new Date(draft.updatedAt).toLocaleString('ja-JP')}
+                  {draft.sessionId && ' ・ 帯替えセッション'}
+                  {!draft.resumable && ' ・ 別のブラウザで保存'}
+                </p>
+              </div>
+              {draft.resumable ? (
+                <Link href={`/editor?draft=${draft.id}`}>
+                  <Button size="sm">再開</Button>
+                </Link>
+              ) : (
+                <Button size="sm" disabled title="PDFデータは保存したブラウザにのみ残っています">
+                  再開
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={() => handleDelete(draft)}>
+                削除
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,137 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import {
+  DEFAULT_EXPORT_REQUEST,
+  EXPORT_DPI_OPTIONS,
+  type ExportKind,
+  type ExportRequest,
+} from '@/lib/export-bundle'
+import type { ImageFormat } from '@/lib/pdf-to-images'
+
+interface ExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onExport: (request: ExportRequest) => Promise<void>
+  exporting: boolean
+  // 出力中の進捗（「PDF生成 3/10」など）と中止
+  progress: string
+  onCancel: () => void
+}
+
+const KIND_OPTIONS: { kind: ExportKind; label: string; description: string }[] = [
+  { kind: 'pdf', label: 'PDF（1ファイル）', description: '全ページをまとめたPDF' },
+  { kind: 'property_pdfs', label: '物件ごとのPDF（ZIP）', description: '物件名・REINS番号のファイル名で物件ごとに分けます' },
+  { kind: 'images', label: '画像（ZIP）', description: 'ページごとの画像。解像度と形式を選べます' },
+  { kind: 'line', label: 'LINE送信用画像（ZIP）', description: 'スマホで読みやすい長辺1600pxのJPEG' },
+]
+
+const FORMAT_LABELS: Record<ImageFormat, string> = {
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG',
+  'image/webp': 'WebP',
+}
+
+// 出力形式の選択（用紙サイズ・割り付けはサイドバーの設定をPDFに適用）
+export function ExportDialog({ open, onOpenChange, onExport, exporting, progress, onCancel }: ExportDialogProps) {
+  const [request, setRequest] = useState<ExportRequest>(DEFAULT_EXPORT_REQUEST)
+  const update = (patch: Partial<ExportRequest>) => setRequest({ ...request, ...patch })
+
+  const handleExport = async () => {
+    await onExport(request)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !exporting && onOpenChange(next)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>出力</DialogTitle>
+          <DialogDescription>出力する形式を選んでください</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {KIND_OPTIONS.map((option) => (
+              <label
+                key={option.kind}
+                className={`flex items-start gap-2 rounded-md border p-2 cursor-pointer ${
+                  request.kind === option.kind ? 'border-blue-500 bg-blue-50' : ''
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="export-kind"
+                  checked={request.kind === option.kind}
+                  onChange={() => update({ kind: option.kind })}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium">{option.label}</span>
+                  <span className="block text-xs text-muted-foreground">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {request.kind === 'images' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">解像度</Label>
+                <select
+                  value={request.dpi}
+                  onChange={(e) => update({ dpi: Number(e.target.value) })}
+                  className="w-full h-8 rounded-md border px-2 text-sm"
+                >
+                  {EXPORT_DPI_OPTIONS.map((dpi) => (
+                    <option key={dpi} value={dpi}>{dpi} dpi</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">形式</Label>
+                <select
+                  value={request.format}
+                  onChange={(e) => update({ format: e.target.value as ImageFormat })}
+                  className="w-full h-8 rounded-md border px-2 text-sm"
+                >
+                  {(Object.keys(FORMAT_LABELS) as ImageFormat[]).map((format) => (
+                    <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {(request.kind === 'pdf' || request.kind === 'property_pdfs') && (
+            <p className="text-[11px] text-muted-foreground">
+              用紙サイズ・割り付けはサイドバーの「PDF出力の用紙」の設定が使われます
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          {exporting && progress && (
+            <span className="mr-auto self-center text-xs text-muted-foreground">{progress}</span>
+          )}
+          <Button variant="outline" onClick={() => (exporting ? onCancel() : onOpenChange(false))}>
+            {exporting ? '中止' : 'キャンセル'}
+          </Button>
+          <Button onClick={handleExport} disabled={exporting}>
+            {exporting ? '出力中...' : '出力する'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { PAPER_LABELS, type FitMode, type ImpositionOptions, type PaperSize } from '@/lib/pdf-imposition'
+
+interface ExportOptionsProps {
+  options: ImpositionOptions
+  onChange: (options: ImpositionOptions) => void
+}
+
+// PDF出力時の用紙サイズ・割り付け（Web公開には影響しない）
+export function ExportOptions({ options, onChange }: ExportOptionsProps) {
+  const update = (patch: Partial<ImpositionOptions>) => onChange({ ...options, ...patch })
+  const original = options.paper === 'original'
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">PDF出力の用紙</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <Label className="text-xs">用紙サイズ</Label>
+          <select
+            value={options.paper}
+            onChange={(e) => {
+              const paper = e.target.value as PaperSize
+              update(paper === 'original' ? { paper, pagesPerSheet: 1 } : { paper })
+            }}
+            className="w-full h-8 rounded-md border px-2 text-sm"
+          >
+            {(Object.keys(PAPER_LABELS) as PaperSize[]).map((p) => (
+              <option key={p} value={p}>{PAPER_LABELS[p]}</option>
+            ))}
+          </select>
+        </div>
+
+        {!original && (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs">配置</Label>
+              <select
+                value={options.fit}
+                onChange={(e) => update({ fit: e.target.value as FitMode })}
+                className="w-full h-8 rounded-md border px-2 text-sm"
+              >
+                <option value="fit">全体を収める</option>
+                <option value="fill">用紙いっぱい（はみ出しは切り取り）</option>
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">余白（mm）</Label>
+              <Input
+                type="number"
+                min={0}
+                max={30}
+                value={options.marginMm}
+                onChange={(e) => update({ marginMm: Math.max(0, Number(e.target.value) || 0) })}
+                className="h-8"
+              />
+            </div>
+
+            <label className="flex items-center gap-1.5 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.pagesPerSheet === 2}
+                onChange={(e) => update({ pagesPerSheet: e.target.checked ? 2 : 1 })}
+                className="w-4 h-4"
+              />
+              2ページを1枚に割り付け
+            </label>
+          </>
+        )}
+
+        <p className="text-[11px] text-muted-foreground">
+          サイズの違うページも同じ用紙にそろえて印刷できます
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,15 +5,33 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Separator } from '@/components/ui/separator'
-import type { MaskSettings } from '@/types/editor'
+import type { MaskDetection, MaskSettings } from '@/types/editor'
 
 interface MaskControlsProps {
   settings: MaskSettings
   onChange: (settings: MaskSettings) => void
   step?: number
+  // 帯の自動検出結果
+  detection?: MaskDetection
+  detecting?: boolean
+  onRedetect?: () => void
 }
 
-export function MaskControls({ settings, onChange, step = 10 }: MaskControlsProps) {
+const DETECTION_SOURCE_LABELS: Record<MaskDetection['source'], string> = {
+  'text+lines': '文字＋罫線',
+  text: '文字',
+  lines: '罫線',
+  none: '検出なし',
+}
+
+export function MaskControls({
+  settings,
+  onChange,
+  step = 10,
+  detection,
+  detecting,
+  onRedetect,
+}: MaskControlsProps) {
   const updateBottomHeight = (delta: number) => {
     const newHeight = Math.max(0, settings.bottomHeight + delta)
     onChange({ ...settings, bottomHeight: newHeight })
@@ -34,6 +52,26 @@ export function MaskControls({ settings, onChange, step = 10 }: MaskControlsProp
         <CardTitle className="text-lg">白塗り範囲調整</CardTitle>
       </CardHeader>
       <CardContent className="space-y-6">
+        {/* 自動検出 */}
+        {(detection || detecting || onRedetect) && (
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <span className={detection && detection.confidence < 0.5 ? 'text-orange-600' : 'text-gray-600'}>
+              {detecting
+                ? '帯を検出中...'
+                : detection
+                  ? detection.source === 'none'
+                    ? '帯を検出できませんでした'
+                    : `自動検出: 信頼度 ${Math.round(detection.confidence * 100)}%（${DETECTION_SOURCE_LABELS[detection.source]}）${detection.confidence < 0.5 ? ' 要確認' : ''}`
+                  : '自動検出未実行'}
+            </span>
+            {onRedetect && (
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onRedetect} disabled={detecting}>
+                再検出
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* 下部の高さ調整 */}
         <div className="space-y-3">
           <Label className="text-sm font-medium">下部の高さ (px)</Label>
@@ -0,0 +1,193 @@
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import type { MaskPoint, MaskRectShape, MaskShape } from '@/types/editor'
+
+interface MaskShapeEditorProps {
+  shapes: MaskShape[]
+  // プレビュー上の1ポイントあたりのピクセル数
+  scale: number
+  // ページの表示サイズ（PDFポイント）
+  pageSize: { width: number; height: number }
+  selectedShapeId: string | null
+  onSelectShape: (id: string | null) => void
+  onShapesChange: (shapes: MaskShape[]) => void
+}
+
+type DragMode =
+  | { kind: 'move' }
+  | { kind: 'corner'; corner: 0 | 1 | 2 | 3 } // 左上・右上・右下・左下
+  | { kind: 'vertex'; index: number }
+
+const MIN_SIZE = 4
+const HANDLE_SIZE = 8
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+function shapeBounds(shape: MaskShape) {
+  if (shape.type === 'rect') {
+    return { left: shape.x, top: shape.y, right: shape.x + shape.width, bottom: shape.y + shape.height }
+  }
+  const xs = shape.points.map((p) => p.x)
+  const ys = shape.points.map((p) => p.y)
+  return { left: Math.min(...xs), top: Math.min(...ys), right: Math.max(...xs), bottom: Math.max(...ys) }
+}
+
+function rectCorners(rect: MaskRectShape): MaskPoint[] {
+  return [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height },
+  ]
+}
+
+export function MaskShapeEditor({
+  shapes,
+  scale,
+  pageSize,
+  selectedShapeId,
+  onSelectShape,
+  onShapesChange,
+}: MaskShapeEditorProps) {
+  const [dragging, setDragging] = useState<{
+    shapeId: string
+    mode: DragMode
+    startX: number
+    startY: number
+    origin: MaskShape
+  } | null>(null)
+
+  const handleMouseDown = useCallback(
+    (e: React.MouseEvent, shape: MaskShape, mode: DragMode) => {
+      e.stopPropagation()
+      onSelectShape(shape.id)
+      setDragging({ shapeId: shape.id, mode, startX: e.clientX, startY: e.clientY, origin: shape })
+    },
+    [onSelectShape]
+  )
+
+  const handleMouseMove = useCallback(
+    (e: MouseEvent) => {
+      if (!dragging) return
+
+      const dx = (e.clientX - dragging.startX) / scale
+      const dy = (e.clientY - dragging.startY) / scale
+      const { origin, mode } = dragging
+      let next: MaskShape
+
+      if (mode.kind === 'move') {
+        // ページ外にはみ出さない範囲で平行移動
+        const b = shapeBounds(origin)
+        const mx = clamp(dx, -b.left, pageSize.width - b.right)
+        const my = clamp(dy, -b.top, pageSize.height - b.bottom)
+        next = origin.type === 'rect'
+          ? { ...origin, x: origin.x + mx, y: origin.y + my }
+          : { ...origin, points: origin.points.map((p) => ({ x: p.x + mx, y: p.y + my })) }
+      } else if (mode.kind === 'corner' && origin.type === 'rect') {
+        let left = origin.x
+        let top = origin.y
+        let right = origin.x + origin.width
+        let bottom = origin.y + origin.height
+        if (mode.corner === 0 || mode.corner === 3) left = clamp(left + dx, 0, right - MIN_SIZE)
+        if (mode.corner === 1 || mode.corner === 2) right = clamp(right + dx, left + MIN_SIZE, pageSize.width)
+        if (mode.corner === 0 || mode.corner === 1) top = clamp(top + dy, 0, bottom - MIN_SIZE)
+        if (mode.corner === 2 || mode.corner === 3) bottom = clamp(bottom + dy, top + MIN_SIZE, pageSize.height)
+        next = { ...origin, x: left, y: top, width: right - left, height: bottom - top }
+      } else if (mode.kind === 'vertex' && origin.type === 'polygon') {
+        next = {
+          ...origin,
+          points: origin.points.map((p, i) =>
+            i === mode.index
+              ? { x: clamp(p.x + dx, 0, pageSize.width), y: clamp(p.y + dy, 0, pageSize.height) }
+              : p
+          ),
+        }
+      } else {
+        return
+      }
+
+      onShapesChange(shapes.map((s) => (s.id === dragging.shapeId ? next : s)))
+    },
+    [dragging, scale, pageSize, shapes, onShapesChange]
+  )
+
+  const handleMouseUp = useCallback(() => {
+    setDragging(null)
+  }, [])
+
+  useEffect(() => {
+    if (dragging) {
+      window.addEventListener('mousemove', handleMouseMove)
+      window.addEventListener('mouseup', handleMouseUp)
+      return () => {
+        window.removeEventListener('mousemove', handleMouseMove)
+        window.removeEventListener('mouseup', handleMouseUp)
+      }
+    }
+  }, [dragging, handleMouseMove, handleMouseUp])
+
+  if (shapes.length === 0) return null
+
+  return (
+    <svg
+      className="absolute top-0 left-0 pointer-events-none"
+      width={pageSize.width * scale}
+      height={pageSize.height * scale}
+    >
+      {shapes.map((shape) => {
+        const isSelected = shape.id === selectedShapeId
+        const stroke = isSelected ? '#3b82f6' : '#9ca3af'
+        const common = {
+          fill: shape.fill,
+          stroke,
+          strokeWidth: isSelected ? 2 : 1,
+          strokeDasharray: '4 2',
+          className: 'pointer-events-auto cursor-move',
+          onMouseDown: (e: React.MouseEvent) => handleMouseDown(e, shape, { kind: 'move' }),
+        }
+        const handles = shape.type === 'rect' ? rectCorners(shape) : shape.points
+
+        return (
+          <g key={shape.id}>
+            {shape.type === 'rect' ? (
+              <rect
+                x={shape.x * scale}
+                y={shape.y * scale}
+                width={shape.width * scale}
+                height={shape.height * scale}
+                {...common}
+              />
+            ) : (
+              <polygon points={shape.points.map((p) => `${p.x * scale},${p.y * scale}`).join(' ')} {...common} />
+            )}
+
+            {/* リサイズ／頂点ハンドル（選択中のみ） */}
+            {isSelected &&
+              handles.map((p, i) => (
+                <rect
+                  key={i}
+                  x={p.x * scale - HANDLE_SIZE / 2}
+                  y={p.y * scale - HANDLE_SIZE / 2}
+                  width={HANDLE_SIZE}
+                  height={HANDLE_SIZE}
+                  fill="#fff"
+                  stroke="#3b82f6"
+                  className="pointer-events-auto cursor-crosshair"
+                  onMouseDown={(e) =>
+                    handleMouseDown(
+                      e,
+                      shape,
+                      shape.type === 'rect'
+                        ? { kind: 'corner', corner: i as 0 | 1 | 2 | 3 }
+                        : { kind: 'vertex', index: i }
+                    )
+                  }
+                />
+              ))}
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
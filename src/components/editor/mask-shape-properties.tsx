@@ -0,0 +1,137 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { MaskRectShape, MaskShape } from '@/types/editor'
+
+interface MaskShapePropertiesProps {
+  shape: MaskShape | null
+  onAdd: (type: MaskShape['type']) => void
+  onUpdate: (shape: MaskShape) => void
+  onDelete: (id: string) => void
+  disabled?: boolean
+}
+
+const FILL_PRESETS = ['#ffffff', '#f3f4f6', '#000000']
+
+export function MaskShapeProperties({ shape, onAdd, onUpdate, onDelete, disabled }: MaskShapePropertiesProps) {
+  const handleRectChange = (key: 'x' | 'y' | 'width' | 'height', value: number) => {
+    if (shape?.type !== 'rect') return
+    const min = key === 'width' || key === 'height' ? 4 : 0
+    onUpdate({ ...shape, [key]: Math.max(min, value) } as MaskRectShape)
+  }
+
+  // 最後の辺の中点に頂点を追加
+  const addVertex = () => {
+    if (shape?.type !== 'polygon') return
+    const last = shape.points[shape.points.length - 1]
+    const first = shape.points[0]
+    onUpdate({
+      ...shape,
+      points: [...shape.points, { x: (last.x + first.x) / 2, y: (last.y + first.y) / 2 }],
+    })
+  }
+
+  const removeVertex = () => {
+    if (shape?.type !== 'polygon' || shape.points.length <= 3) return
+    onUpdate({ ...shape, points: shape.points.slice(0, -1) })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">追加の白塗り</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="flex-1" disabled={disabled} onClick={() => onAdd('rect')}>
+            矩形を追加
+          </Button>
+          <Button variant="outline" size="sm" className="flex-1" disabled={disabled} onClick={() => onAdd('polygon')}>
+            多角形を追加
+          </Button>
+        </div>
+
+        {!shape ? (
+          <p className="text-xs text-muted-foreground">
+            ロゴやページ中の連絡先など、帯以外の部分を隠せます。図形を選択すると編集できます
+          </p>
+        ) : (
+          <>
+            {/* 塗りの色 */}
+            <div className="space-y-1">
+              <Label className="text-xs">塗りの色</Label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={shape.fill}
+                  onChange={(e) => onUpdate({ ...shape, fill: e.target.value })}
+                  className="h-8 w-10 cursor-pointer rounded border"
+                />
+                {FILL_PRESETS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    className="h-6 w-6 rounded border"
+                    style={{ backgroundColor: color }}
+                    title={color}
+                    onClick={() => onUpdate({ ...shape, fill: color })}
+                  />
+                ))}
+              </div>
+            </div>
+
+            {shape.type === 'rect' ? (
+              <div className="grid grid-cols-2 gap-2">
+                {(
+                  [
+                    ['x', 'X位置'],
+                    ['y', 'Y位置'],
+                    ['width', '幅'],
+                    ['height', '高さ'],
+                  ] as const
+                ).map(([key, label]) => (
+                  <div key={key} className="space-y-1">
+                    <Label className="text-xs">{label} (pt)</Label>
+                    <Input
+                      type="number"
+                      value={Math.round(shape[key])}
+                      onChange={(e) => handleRectChange(key, parseInt(e.target.value) || 0)}
+                      className="h-8"
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <Label className="text-xs">頂点 ({shape.points.length})</Label>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={addVertex}>
+                    頂点を追加
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={removeVertex}
+                    disabled={shape.points.length <= 3}
+                  >
+                    頂点を削除
+                  </Button>
+                </div>
+                <p className="text-[11px] text-muted-foreground">頂点のハンドルをドラッグして形を調整します</p>
+              </div>
+            )}
+
+            <div className="pt-2 border-t">
+              <Button variant="destructive" size="sm" className="w-full" onClick={() => onDelete(shape.id)}>
+                図形を削除
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
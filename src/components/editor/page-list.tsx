@@ -2,8 +2,11 @@
 
 import { useState, useEffect } from 'react'
 import dynamic from 'next/dynamic'
+import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
-import type { PageInfo } from '@/types/editor'
+import { batchTargetPages, listingKeyOf, type BatchContent, type BatchScope } from '@/lib/page-groups'
+import { loadReactPdf } from '@/lib/pdfjs'
+import type { MaskDetection, PageInfo, PageMaskDetections } from '@/types/editor'
 
 // 型をre-export（他のファイルとの互換性のため）
 export type { PageInfo } from '@/types/editor'
@@ -21,43 +24,243 @@ const Page = dynamic(
 
 interface PageListProps {
   pages: PageInfo[]
+  maskDetections?: PageMaskDetections
   selectedPageId: string | null
   onSelectPage: (id: string) => void
+  // 一括適用の対象としてチェックしたページ
+  checkedPageIds?: Set<string>
+  onToggleChecked?: (id: string) => void
+  // 選択中ページの白塗り・ブロックを他のページへ適用
+  onBatchApply?: (scope: BatchScope, content: BatchContent) => void
+  // ページ操作（ドラッグで並べ替え・90°回転・削除）
+  onReorderPage?: (id: string, toIndex: number) => void
+  onRotatePage?: (id: string) => void
+  onDeletePage?: (id: string) => void
+  // 公開時の物件の区切り（このページから別物件にする / 前の物件にまとめる）
+  onSplitListing?: (id: string) => void
+  onJoinListing?: (id: string) => void
 }
 
-export function PageList({ pages, selectedPageId, onSelectPage }: PageListProps) {
+const SCOPE_LABELS: Record<BatchScope, string> = {
+  all: '全ページ',
+  checked: 'チェックしたページ',
+  same_size: '同じサイズのページ',
+  same_file: '同じPDFのページ',
+}
+
+const CONTENT_LABELS: Record<BatchContent, string> = {
+  both: '白塗り＋ブロック',
+  mask: '白塗りのみ',
+  blocks: 'ブロックのみ',
+}
+
+export function PageList({
+  pages,
+  maskDetections,
+  selectedPageId,
+  onSelectPage,
+  checkedPageIds,
+  onToggleChecked,
+  onBatchApply,
+  onReorderPage,
+  onRotatePage,
+  onDeletePage,
+  onSplitListing,
+  onJoinListing,
+}: PageListProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  const handleDrop = (index: number) => {
+    if (draggingId && onReorderPage) onReorderPage(draggingId, index)
+    setDraggingId(null)
+    setDropIndex(null)
+  }
+
+  let listingNumber = 0
+
   return (
     <div className="space-y-2">
       <h3 className="font-medium text-sm text-gray-700 px-2">
         物件一覧 ({pages.length}件)
       </h3>
       <div className="space-y-1 max-h-[calc(100vh-200px)] overflow-y-auto">
-        {pages.map((page) => (
-          <PageThumbnail
-            key={page.id}
-            page={page}
-            isSelected={page.id === selectedPageId}
-            onClick={() => onSelectPage(page.id)}
-          />
-        ))}
+        {pages.map((page, index) => {
+          const startsListing = index === 0 || listingKeyOf(pages[index - 1]) !== listingKeyOf(page)
+          if (startsListing) listingNumber++
+          return (
+            <div key={page.id}>
+              {onSplitListing && onJoinListing && (
+                <ListingDivider
+                  listingNumber={listingNumber}
+                  startsListing={startsListing}
+                  isFirst={index === 0}
+                  onSplit={() => onSplitListing(page.id)}
+                  onJoin={() => onJoinListing(page.id)}
+                />
+              )}
+              <div
+                draggable={!!onReorderPage}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move'
+                  setDraggingId(page.id)
+                }}
+                onDragOver={(e) => {
+                  if (!draggingId) return
+                  e.preventDefault()
+                  setDropIndex(index)
+                }}
+                onDrop={(e) => {
+                  e.preventDefault()
+                  handleDrop(index)
+                }}
+                onDragEnd={() => {
+                  setDraggingId(null)
+                  setDropIndex(null)
+                }}
+                className={cn(
+                  'rounded-lg',
+                  draggingId === page.id && 'opacity-50',
+                  dropIndex === index && draggingId !== page.id && 'ring-2 ring-blue-300'
+                )}
+              >
+                <PageThumbnail
+                  page={page}
+                  detection={maskDetections?.[page.id]}
+                  isSelected={page.id === selectedPageId}
+                  onClick={() => onSelectPage(page.id)}
+                  checked={checkedPageIds?.has(page.id)}
+                  onToggleChecked={onToggleChecked ? () => onToggleChecked(page.id) : undefined}
+                  onRotate={onRotatePage ? () => onRotatePage(page.id) : undefined}
+                  onDelete={onDeletePage ? () => onDeletePage(page.id) : undefined}
+                />
+              </div>
+            </div>
+          )
+        })}
       </div>
+      {onReorderPage && pages.length > 1 && (
+        <p className="text-[10px] text-gray-500 px-1">ドラッグで出力順を並べ替えられます</p>
+      )}
+      {onBatchApply && pages.length > 1 && (
+        <BatchApplyPanel
+          pages={pages}
+          selectedPageId={selectedPageId}
+          checkedPageIds={checkedPageIds ?? new Set()}
+          onApply={onBatchApply}
+        />
+      )}
+    </div>
+  )
+}
+
+interface BatchApplyPanelProps {
+  pages: PageInfo[]
+  selectedPageId: string | null
+  checkedPageIds: Set<string>
+  onApply: (scope: BatchScope, content: BatchContent) => void
+}
+
+function BatchApplyPanel({ pages, selectedPageId, checkedPageIds, onApply }: BatchApplyPanelProps) {
+  const [scope, setScope] = useState<BatchScope>('all')
+  const [content, setContent] = useState<BatchContent>('both')
+  const source = pages.find((p) => p.id === selectedPageId)
+  const targetCount = source ? batchTargetPages(pages, source, scope, checkedPageIds).length : 0
+
+  return (
+    <div className="space-y-1.5 border-t pt-3 px-1">
+      <p className="text-xs font-medium text-gray-700">このページの設定を適用</p>
+      <select
+        value={scope}
+        onChange={(e) => setScope(e.target.value as BatchScope)}
+        className="w-full h-7 rounded-md border px-1 text-xs"
+      >
+        {(Object.keys(SCOPE_LABELS) as BatchScope[]).map((s) => (
+          <option key={s} value={s}>{SCOPE_LABELS[s]}</option>
+        ))}
+      </select>
+      <select
+        value={content}
+        onChange={(e) => setContent(e.target.value as BatchContent)}
+        className="w-full h-7 rounded-md border px-1 text-xs"
+      >
+        {(Object.keys(CONTENT_LABELS) as BatchContent[]).map((c) => (
+          <option key={c} value={c}>{CONTENT_LABELS[c]}</option>
+        ))}
+      </select>
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full h-7 text-xs"
+        disabled={targetCount === 0}
+        onClick={() => onApply(scope, content)}
+      >
+        {targetCount}ページに適用
+      </Button>
+      <p className="text-[10px] text-gray-500">サイズの違うページには比率を合わせて配置します</p>
+    </div>
+  )
+}
+
+interface ListingDividerProps {
+  listingNumber: number
+  startsListing: boolean
+  isFirst: boolean
+  onSplit: () => void
+  onJoin: () => void
+}
+
+// 物件の区切り（公開時はこの単位で1物件＝1URLになる）
+function ListingDivider({ listingNumber, startsListing, isFirst, onSplit, onJoin }: ListingDividerProps) {
+  if (!startsListing) {
+    return (
+      <button
+        onClick={onSplit}
+        className="w-full py-0.5 text-[10px] text-gray-400 hover:text-blue-600 border-t border-dashed"
+        title="このページから別の物件として公開します"
+      >
+        ✂ ここで物件を分割
+      </button>
+    )
+  }
+
+  return (
+    <div className="flex items-center justify-between px-1 pt-1 text-[11px] font-medium text-gray-600">
+      <span>物件 {listingNumber}</span>
+      {!isFirst && (
+        <button onClick={onJoin} className="text-[10px] font-normal text-gray-400 hover:text-blue-600">
+          前の物件にまとめる
+        </button>
+      )}
     </div>
   )
 }
 
 interface PageThumbnailProps {
   page: PageInfo
+  detection?: MaskDetection
   isSelected: boolean
   onClick: () => void
+  checked?: boolean
+  onToggleChecked?: () => void
+  onRotate?: () => void
+  onDelete?: () => void
 }
 
-function PageThumbnail({ page, isSelected, onClick }: PageThumbnailProps) {
+function PageThumbnail({
+  page,
+  detection,
+  isSelected,
+  onClick,
+  checked,
+  onToggleChecked,
+  onRotate,
+  onDelete,
+}: PageThumbnailProps) {
   const [isReady, setIsReady] = useState(false)
 
   useEffect(() => {
-    import('react-pdf').then((mod) => {
-      const version = mod.pdfjs.version
-      mod.pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${version}/build/pdf.worker.min.mjs`
+    loadReactPdf().then(() => {
       setIsReady(true)
     })
   }, [])
@@ -75,41 +278,86 @@ function PageThumbnail({ page, isSelected, onClick }: PageThumbnailProps) {
   }
 
   return (
-    <button
-      onClick={onClick}
-      className={cn(
-        'w-full p-2 rounded-lg border-2 transition-all text-left',
-        isSelected ? 'border-blue-500 bg-blue-50' : 'border-transparent hover:bg-gray-50'
+    <div className="relative">
+      {onToggleChecked && (
+        <input
+          type="checkbox"
+          checked={!!checked}
+          onChange={onToggleChecked}
+          className="absolute top-3 left-3 z-10 w-3.5 h-3.5"
+          title="一括適用の対象にする"
+        />
       )}
-    >
-      <div className="flex gap-2">
-        <div className="w-16 h-20 flex-shrink-0 border rounded bg-white overflow-hidden flex items-center justify-center">
-          {isReady ? (
-            <Document file={{ data: page.pdfData.slice() }} loading={null} error={null}>
-              <Page
-                pageNumber={page.pageNumber}
-                width={60}
-                renderTextLayer={false}
-                renderAnnotationLayer={false}
-              />
-            </Document>
-          ) : (
-            <div className="text-xs text-gray-400">...</div>
+      {(onRotate || onDelete) && (
+        <div className="absolute top-1.5 right-1.5 z-10 flex gap-0.5">
+          {onRotate && (
+            <button
+              onClick={onRotate}
+              className="w-5 h-5 rounded bg-white/90 border text-xs leading-none hover:bg-gray-100"
+              title="右に90°回転"
+            >
+              ↻
+            </button>
+          )}
+          {onDelete && (
+            <button
+              onClick={onDelete}
+              className="w-5 h-5 rounded bg-white/90 border text-xs leading-none hover:bg-red-50 hover:text-red-600"
+              title="このページを削除"
+            >
+              ×
+            </button>
           )}
         </div>
-        <div className="flex-1 min-w-0">
-          <p className="text-xs font-medium truncate">{page.fileName}</p>
-          <p className="text-xs text-gray-500">ページ {page.pageNumber}</p>
-          <span
-            className={cn(
-              'inline-block mt-1 px-1.5 py-0.5 text-xs rounded',
-              statusColors[page.status]
+      )}
+      <button
+        onClick={onClick}
+        className={cn(
+          'w-full p-2 rounded-lg border-2 transition-all text-left',
+          isSelected ? 'border-blue-500 bg-blue-50' : 'border-transparent hover:bg-gray-50'
+        )}
+      >
+        <div className="flex gap-2">
+          <div className="w-16 h-20 flex-shrink-0 border rounded bg-white overflow-hidden flex items-center justify-center">
+            {isReady ? (
+              <Document file={{ data: page.pdfData.slice() }} loading={null} error={null}>
+                <Page
+                  pageNumber={page.pageNumber}
+                  width={60}
+                  rotate={page.rotation}
+                  renderTextLayer={false}
+                  renderAnnotationLayer={false}
+                />
+              </Document>
+            ) : (
+              <div className="text-xs text-gray-400">...</div>
+            )}
+          </div>
+          <div className={cn('flex-1 min-w-0', (onRotate || onDelete) && 'pr-11')}>
+            <p className="text-xs font-medium truncate">{page.fileName}</p>
+            <p className="text-xs text-gray-500">ページ {page.pageNumber}</p>
+            <span
+              className={cn(
+                'inline-block mt-1 px-1.5 py-0.5 text-xs rounded',
+                statusColors[page.status]
+              )}
+            >
+              {statusLabels[page.status]}
+            </span>
+            {detection && (
+              <span
+                className={cn(
+                  'inline-block mt-1 ml-1 px-1.5 py-0.5 text-xs rounded',
+                  detection.confidence >= 0.5 ? 'bg-blue-100 text-blue-700' : 'bg-orange-100 text-orange-700'
+                )}
+                title={`帯の自動検出 信頼度 ${Math.round(detection.confidence * 100)}%`}
+              >
+                {detection.confidence >= 0.5 ? `帯 ${Math.round(detection.confidence * 100)}%` : '帯 要確認'}
+              </span>
             )}
-          >
-            {statusLabels[page.status]}
-          </span>
+          </div>
         </div>
-      </div>
-    </button>
+      </button>
+    </div>
   )
 }
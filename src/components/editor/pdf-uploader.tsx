@@ -2,6 +2,10 @@
 
 import { useCallback, useRef } from 'react'
 import { Card, CardContent } from '@/components/ui/card'
+import { isImageFile, isPdfFile, UPLOAD_ACCEPT } from '@/lib/image-to-pdf'
+
+// PDFと画像（JPEG/PNG/WebP/HEIC）を受け付ける。画像は読み込み時にPDFへ変換される
+const isAcceptedFile = (file: File) => isPdfFile(file) || isImageFile(file)
 
 interface PdfUploaderProps {
   onFilesSelected: (files: File[]) => void
@@ -13,9 +17,7 @@ export function PdfUploader({ onFilesSelected }: PdfUploaderProps) {
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault()
-      const files = Array.from(e.dataTransfer.files).filter(
-        (file) => file.type === 'application/pdf'
-      )
+      const files = Array.from(e.dataTransfer.files).filter(isAcceptedFile)
       if (files.length > 0) {
         onFilesSelected(files)
       }
@@ -29,9 +31,7 @@ export function PdfUploader({ onFilesSelected }: PdfUploaderProps) {
 
   const handleFileInput = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const files = Array.from(e.target.files || []).filter(
-        (file) => file.type === 'application/pdf'
-      )
+      const files = Array.from(e.target.files || []).filter(isAcceptedFile)
       if (files.length > 0) {
         onFilesSelected(files)
       }
@@ -62,7 +62,7 @@ export function PdfUploader({ onFilesSelected }: PdfUploaderProps) {
           <input
             ref={inputRef}
             type="file"
-            accept="application/pdf,.pdf"
+            accept={UPLOAD_ACCEPT}
             multiple
             onChange={handleFileInput}
             style={{
@@ -92,11 +92,14 @@ export function PdfUploader({ onFilesSelected }: PdfUploaderProps) {
               />
             </svg>
             <p className="text-lg font-medium text-gray-700">
-              PDFファイルをドラッグ&ドロップ
+              PDF・画像ファイルをドラッグ&ドロップ
             </p>
             <p className="text-sm text-gray-500">
               または、クリックしてファイルを選択（複数可）
             </p>
+            <p className="text-xs text-gray-400">
+              JPEG / PNG / WebP / HEIC の写真・スクリーンショットは1枚ずつPDFページに変換されます
+            </p>
           </div>
         </div>
       </CardContent>
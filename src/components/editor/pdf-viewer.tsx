@@ -2,6 +2,8 @@
 
 import { useState, useCallback, useEffect, useMemo } from 'react'
 import dynamic from 'next/dynamic'
+import { renderedPageSize } from '@/lib/mask-geometry'
+import { loadReactPdf } from '@/lib/pdfjs'
 import type { MaskSettings } from '@/types/editor'
 
 // 型をre-export（他のファイルとの互換性のため）
@@ -25,6 +27,8 @@ interface PdfViewerProps {
   scale?: number
   maxWidth?: number
   maxHeight?: number
+  // ページ一覧で回転したページ（未設定なら元PDFの向き）
+  rotation?: number
 }
 
 export function PdfViewer({
@@ -34,6 +38,7 @@ export function PdfViewer({
   scale,
   maxWidth,
   maxHeight,
+  rotation,
 }: PdfViewerProps) {
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 })
   const [calculatedScale, setCalculatedScale] = useState(scale || 1.0)
@@ -42,9 +47,7 @@ export function PdfViewer({
 
   // worker設定をuseEffect内で実行
   useEffect(() => {
-    import('react-pdf').then((mod) => {
-      const version = mod.pdfjs.version
-      mod.pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${version}/build/pdf.worker.min.mjs`
+    loadReactPdf().then(() => {
       setIsReady(true)
     })
   }, [])
@@ -53,11 +56,15 @@ export function PdfViewer({
   const file = useMemo(() => ({ data: pdfData.slice() }), [pdfData])
 
   const onPageLoadSuccess = useCallback(
-    (page: { width: number; height: number; originalWidth?: number; originalHeight?: number }) => {
+    (page: { width: number; height: number; rotate: number; originalWidth?: number; originalHeight?: number }) => {
       // page.width/heightは既にscale適用済み
       const currentScale = scale || calculatedScale
-      const origWidth = page.originalWidth || page.width / currentScale
-      const origHeight = page.originalHeight || page.height / currentScale
+      const rendered = renderedPageSize(page, rotation)
+      const original = page.originalWidth && page.originalHeight
+        ? renderedPageSize({ width: page.originalWidth, height: page.originalHeight, rotate: page.rotate }, rotation)
+        : null
+      const origWidth = original?.width || rendered.width / currentScale
+      const origHeight = original?.height || rendered.height / currentScale
 
       setOriginalSize({ width: origWidth, height: origHeight })
 
@@ -83,7 +90,7 @@ export function PdfViewer({
         height: origHeight * targetScale
       })
     },
-    [scale, maxWidth, maxHeight, calculatedScale]
+    [scale, maxWidth, maxHeight, calculatedScale, rotation]
   )
 
   if (!isReady) {
@@ -102,6 +109,7 @@ export function PdfViewer({
         <Page
           pageNumber={pageNumber}
           scale={calculatedScale}
+          rotate={rotation}
           onLoadSuccess={onPageLoadSuccess}
           renderTextLayer={false}
           renderAnnotationLayer={false}
@@ -138,6 +146,30 @@ export function PdfViewer({
               }}
             />
           )}
+
+          {/* 追加の白塗り図形 */}
+          {maskSettings.shapes && maskSettings.shapes.length > 0 && (
+            <svg className="absolute top-0 left-0 w-full h-full">
+              {maskSettings.shapes.map((shape) =>
+                shape.type === 'rect' ? (
+                  <rect
+                    key={shape.id}
+                    x={shape.x * calculatedScale}
+                    y={shape.y * calculatedScale}
+                    width={shape.width * calculatedScale}
+                    height={shape.height * calculatedScale}
+                    className="fill-red-500/40"
+                  />
+                ) : (
+                  <polygon
+                    key={shape.id}
+                    points={shape.points.map((p) => `${p.x * calculatedScale},${p.y * calculatedScale}`).join(' ')}
+                    className="fill-red-500/40"
+                  />
+                )
+              )}
+            </svg>
+          )}
         </div>
       )}
     </div>
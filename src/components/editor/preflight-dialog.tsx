@@ -0,0 +1,108 @@
+'use client'
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import type { PreflightIssue } from '@/lib/preflight'
+import type { PageInfo } from '@/types/editor'
+
+interface PreflightDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  issues: PreflightIssue[]
+  pages: PageInfo[]
+  action: 'export' | 'publish'
+  // 会社設定で「エラーがある間は公開しない」が有効
+  blocked: boolean
+  onContinue: () => void
+  // 該当ページ・ブロックを選択して修正に戻る
+  onSelectIssue: (issue: PreflightIssue) => void
+}
+
+export function PreflightDialog({
+  open,
+  onOpenChange,
+  issues,
+  pages,
+  action,
+  blocked,
+  onContinue,
+  onSelectIssue,
+}: PreflightDialogProps) {
+  const errors = issues.filter((issue) => issue.severity === 'error')
+  const warnings = issues.filter((issue) => issue.severity === 'warning')
+  const actionLabel = action === 'export' ? '出力' : '公開'
+
+  const pageLabel = (issue: PreflightIssue) => {
+    if (!issue.pageId) return '全ページ'
+    const index = pages.findIndex((p) => p.id === issue.pageId)
+    return index >= 0 ? `${index + 1}ページ` : ''
+  }
+
+  const renderIssue = (issue: PreflightIssue, index: number) => (
+    <li key={index}>
+      <button
+        type="button"
+        className="w-full text-left rounded px-2 py-1 text-sm hover:bg-gray-100 disabled:hover:bg-transparent"
+        disabled={!issue.pageId}
+        onClick={() => onSelectIssue(issue)}
+      >
+        <span className="text-xs text-muted-foreground mr-2">{pageLabel(issue)}</span>
+        {issue.message}
+      </button>
+    </li>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{actionLabel}前のチェック</DialogTitle>
+          <DialogDescription>
+            エラー{errors.length}件・注意{warnings.length}件が見つかりました。項目をクリックすると該当箇所に移動します
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[50vh] overflow-y-auto space-y-3">
+          {errors.length > 0 && (
+            <div>
+              <div className="text-xs font-medium text-red-600 mb-1">エラー</div>
+              <ul className="space-y-0.5">{errors.map(renderIssue)}</ul>
+            </div>
+          )}
+          {warnings.length > 0 && (
+            <div>
+              <div className="text-xs font-medium text-amber-600 mb-1">注意</div>
+              <ul className="space-y-0.5">{warnings.map(renderIssue)}</ul>
+            </div>
+          )}
+        </div>
+
+        {blocked && (
+          <p className="text-xs text-red-600">
+            会社設定により、エラーを解消するまで公開できません
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            戻って修正
+          </Button>
+          <Button
+            variant={errors.length > 0 ? 'destructive' : 'default'}
+            onClick={onContinue}
+            disabled={blocked}
+          >
+            このまま{actionLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
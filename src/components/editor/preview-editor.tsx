@@ -1,16 +1,69 @@
 'use client'
 
-import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef, type Dispatch, type SetStateAction } from 'react'
 import dynamic from 'next/dynamic'
-import { BlockEditor, createInitialBlocks } from './block-editor'
+import { BlockEditor } from './block-editor'
 import { BlockProperties } from './block-properties'
 import { PublishDialog } from './publish-dialog'
+import { TemplatePicker } from './template-picker'
+import { MaskShapeEditor } from './mask-shape-editor'
+import { MaskShapeProperties } from './mask-shape-properties'
+import { BlockPalette, type BlockPaletteItem } from './block-palette'
+import { BlockAlignTools } from './block-align-tools'
+import { ExportOptions } from './export-options'
+import { ExportDialog } from './export-dialog'
+import { PreflightDialog } from './preflight-dialog'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { toast } from 'sonner'
-import { generateModifiedPdf } from '@/lib/pdf-generator'
+import { generateModifiedPdfInWorker, isAbortError } from '@/lib/pdf-worker'
+import { DEFAULT_IMPOSITION, imposePdf, type ImpositionOptions } from '@/lib/pdf-imposition'
+import { loadReactPdf } from '@/lib/pdfjs'
+import {
+  DEFAULT_EXPORT_REQUEST,
+  LINE_IMAGE_PRESET,
+  exportImagesZip,
+  exportPropertyPdfsZip,
+  type ExportRequest,
+} from '@/lib/export-bundle'
+import {
+  blockTextContent,
+  createCustomFieldBlock,
+  createFreeTextBlock,
+  createQrBlock,
+  createShapeBlock,
+  isTextualBlock,
+  parseCustomFields,
+  parseCustomFonts,
+  type QrTargets,
+} from '@/lib/blocks'
+import { findTextInsideMasks } from '@/lib/redaction-verifier'
+import { hasPreflightErrors, runPreflight, type PreflightIssue } from '@/lib/preflight'
+import { layoutPreviewText, usePreviewFontsReady } from '@/lib/preview-fonts'
+import { createInitialBlocks } from '@/lib/initial-blocks'
+import {
+  EMPTY_HISTORY,
+  recordCommand,
+  redoCommand,
+  undoCommand,
+  type EditHistory,
+  type EditSnapshot,
+  type PageBlocks,
+  type PageMasks,
+} from '@/lib/edit-history'
+import { alignBlocks, distributeBlocks, type AlignMode, type DistributeAxis } from '@/lib/block-align'
+import {
+  fromRelativeBlocks,
+  fromRelativeMask,
+  saveTemplate,
+  scaleBlocks,
+  toRelativeBlocks,
+  type ResolvedTemplate,
+  type TemplateLibrary,
+} from '@/lib/layout-templates'
 import type { CompanyProfile, Block } from '@/lib/database.types'
-import type { MaskSettings, PageInfo } from '@/types/editor'
+import { DEFAULT_MASK_FILL, renderedPageSize } from '@/lib/mask-geometry'
+import type { MaskSettings, MaskShape, PageInfo } from '@/types/editor'
 
 // react-pdfをクライアントサイドのみでロード
 const Document = dynamic(
@@ -36,8 +89,32 @@ interface PreviewEditorProps {
   userEmail?: string
   onBack: () => void
   embedContext?: ObikaeEmbedContext | null
+  templateLibrary: TemplateLibrary
+  onTemplateLibraryChange: (library: TemplateLibrary) => void
+  onMaskChange: (pageId: string, mask: MaskSettings) => void
+  // ブロック配置は親で保持（プレビューを離れても消えない）
+  blocks: PageBlocks
+  onBlocksChange: Dispatch<SetStateAction<PageBlocks>>
+  pageDimensions: PageSizes
+  onPageDimensionsChange: Dispatch<SetStateAction<PageSizes>>
+  // 一括適用で予約された配置（ページ相対）。初回表示時に既定テンプレートより優先
+  pendingBlocks: PageBlocks
+  // 出力・公開が完了したとき
+  onFinished?: () => void
 }
 
+type PageSizes = { [pageId: string]: { width: number; height: number } }
+
+
+const PASTE_OFFSET = 10
+const NUDGE_STEP = 1
+const NUDGE_STEP_LARGE = 10
+const ARROW_KEYS: { [key: string]: { x: number; y: number } } = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+}
 
 export function PreviewEditor({
   pages,
@@ -46,23 +123,50 @@ export function PreviewEditor({
   userEmail,
   onBack,
   embedContext,
+  templateLibrary,
+  onTemplateLibraryChange,
+  onMaskChange,
+  blocks,
+  onBlocksChange: setBlocks,
+  pageDimensions,
+  onPageDimensionsChange: setPageDimensions,
+  pendingBlocks,
+  onFinished,
 }: PreviewEditorProps) {
-  const [pageDimensions, setPageDimensions] = useState<{ [pageId: string]: { width: number; height: number } }>({})
   const [pageScales, setPageScales] = useState<{ [pageId: string]: number }>({})
   const [originalPageSizes, setOriginalPageSizes] = useState<{ [pageId: string]: { width: number; height: number } }>({})
-  const [blocks, setBlocks] = useState<{ [pageId: string]: Block[] }>({})
-  const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null)
+  // 複数選択は同じページ内のみ（最後に選択したものがプロパティ表示の対象）
+  const [selectedBlockIds, setSelectedBlockIds] = useState<string[]>([])
+  // クリックしたページ（貼り付け先・ブロック追加先）
+  const [focusedPageId, setFocusedPageId] = useState<string | null>(null)
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY)
+  const clipboardRef = useRef<{
+    pageId: string
+    blocks: Block[]
+    size: { width: number; height: number }
+    pasteCount: number
+  } | null>(null)
+  const [selectedShapeId, setSelectedShapeId] = useState<string | null>(null)
   const [exporting, setExporting] = useState(false)
+  // 出力の進捗表示と中止
+  const [exportProgress, setExportProgress] = useState('')
+  const exportAbortRef = useRef<AbortController | null>(null)
+  // 墨消し（白塗り範囲の元テキスト・画像をPDFから削除）
+  const [redact, setRedact] = useState(true)
+  // PDF出力の用紙サイズ・割り付け
+  const [imposition, setImposition] = useState<ImpositionOptions>(DEFAULT_IMPOSITION)
   const [showPublishDialog, setShowPublishDialog] = useState(false)
+  const [showExportDialog, setShowExportDialog] = useState(false)
+  // 出力・公開前のチェック結果（問題がなければダイアログは出さずに進む）
+  const [preflight, setPreflight] = useState<{ action: 'export' | 'publish'; issues: PreflightIssue[] } | null>(null)
+  const [checking, setChecking] = useState(false)
   const [isReady, setIsReady] = useState(false)
   const containerRef = useRef<HTMLDivElement>(null)
   const [maxWidth, setMaxWidth] = useState(0)
 
   // worker設定をuseEffect内で実行
   useEffect(() => {
-    import('react-pdf').then((mod) => {
-      const version = mod.pdfjs.version
-      mod.pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${version}/build/pdf.worker.min.mjs`
+    loadReactPdf().then(() => {
       setIsReady(true)
     })
   }, [])
@@ -90,6 +194,14 @@ export function PreviewEditor({
     [pages]
   )
 
+  const customFields = useMemo(() => parseCustomFields(companyProfile?.custom_fields), [companyProfile])
+  const customFonts = useMemo(() => parseCustomFonts(companyProfile?.custom_fonts), [companyProfile])
+
+  const defaultTemplate = useMemo(
+    () => templateLibrary.templates.find((t) => t.id === templateLibrary.defaultTemplateId) ?? null,
+    [templateLibrary]
+  )
+
   // ページごとのロード成功ハンドラを生成
   const createPageLoadHandler = useCallback(
     (pageId: string, mask: MaskSettings) => (pageInfo: { width: number; height: number }) => {
@@ -112,97 +224,444 @@ export function PreviewEditor({
         }
       }
 
+      const prevDims = pageDimensions[pageId]
       setPageDimensions((prev) => ({
         ...prev,
         [pageId]: { width: pageInfo.width, height: pageInfo.height }
       }))
 
-      // 初期ブロックがなければ生成
+      // 初期ブロックがなければ生成（一括適用の予約 → 既定テンプレート → 自動配置の順）
       setBlocks((prev) => {
-        if (prev[pageId]) return prev
+        const existing = prev[pageId]
+        if (existing) {
+          // 前回表示時とサイズが違えば（ウィンドウ幅の変更など）配置を拡縮
+          if (prevDims && (prevDims.width !== pageInfo.width || prevDims.height !== pageInfo.height)) {
+            return { ...prev, [pageId]: scaleBlocks(existing, prevDims, pageInfo) }
+          }
+          return prev
+        }
         const scale = pageScales[pageId] || 1.0
-        const initialBlocks = createInitialBlocks(
-          pageInfo.width,
-          pageInfo.height,
-          mask.bottomHeight * scale,
-          mask.leftWidth * scale,
-          mask.enableLShape,
-          companyProfile
-        )
+        const pending = pendingBlocks[pageId]
+        const initialBlocks = pending
+          ? fromRelativeBlocks(pending, pageInfo)
+          : defaultTemplate
+            ? fromRelativeBlocks(defaultTemplate.blocks, pageInfo)
+            : createInitialBlocks(
+                pageInfo.width,
+                pageInfo.height,
+                mask.bottomHeight * scale,
+                mask.leftWidth * scale,
+                mask.enableLShape,
+                companyProfile
+              )
         return { ...prev, [pageId]: initialBlocks }
       })
     },
-    [pageScales, originalPageSizes, maxWidth, companyProfile]
+    [
+      pageScales,
+      originalPageSizes,
+      maxWidth,
+      companyProfile,
+      defaultTemplate,
+      pageDimensions,
+      pendingBlocks,
+      setPageDimensions,
+      setBlocks,
+    ]
+  )
+
+  // 履歴から復元（白塗りは親の状態なので onMaskChange 経由）
+  const applySnapshot = useCallback(
+    (snapshot: EditSnapshot) => {
+      const nextBlocks = snapshot.blocks
+      if (nextBlocks) setBlocks((prev) => ({ ...prev, ...nextBlocks }))
+      for (const [pageId, mask] of Object.entries(snapshot.masks ?? {})) {
+        onMaskChange(pageId, mask)
+      }
+    },
+    [onMaskChange, setBlocks]
+  )
+
+  // ブロック・白塗りの編集はすべてここを通して履歴に記録する
+  const applyEdit = useCallback(
+    (label: string, change: EditSnapshot, mergeKey?: string) => {
+      const before: EditSnapshot = {}
+      if (change.blocks) {
+        const prevBlocks: PageBlocks = {}
+        for (const pageId of Object.keys(change.blocks)) prevBlocks[pageId] = blocks[pageId] || []
+        before.blocks = prevBlocks
+      }
+      if (change.masks) {
+        const prevMasks: PageMasks = {}
+        for (const pageId of Object.keys(change.masks)) {
+          if (maskSettings[pageId]) prevMasks[pageId] = maskSettings[pageId]
+        }
+        before.masks = prevMasks
+      }
+      setHistory((h) => recordCommand(h, { label, before, after: change, mergeKey, at: Date.now() }))
+      applySnapshot(change)
+    },
+    [blocks, maskSettings, applySnapshot]
   )
 
-  // ページごとのブロック変更ハンドラを生成
+  const handleUndo = useCallback(() => {
+    const result = undoCommand(history)
+    if (!result) return
+    setHistory(result.history)
+    applySnapshot(result.command.before)
+  }, [history, applySnapshot])
+
+  const handleRedo = useCallback(() => {
+    const result = redoCommand(history)
+    if (!result) return
+    setHistory(result.history)
+    applySnapshot(result.command.after)
+  }, [history, applySnapshot])
+
+  // ページごとのブロック変更ハンドラを生成（ドラッグ中の変更は1つの操作にまとめる）
   const createBlocksChangeHandler = useCallback(
     (pageId: string) => (newBlocks: Block[]) => {
-      setBlocks((prev) => ({ ...prev, [pageId]: newBlocks }))
+      applyEdit('ブロックの移動', { blocks: { [pageId]: newBlocks } }, `drag:${pageId}`)
     },
-    []
+    [applyEdit]
+  )
+
+  // ブロックが属するページを検索
+  const findBlockPage = useCallback(
+    (id: string) => Object.keys(blocks).find((pageId) => blocks[pageId]?.some((b) => b.id === id)) ?? null,
+    [blocks]
   )
 
   // 選択中ブロックの更新（全ページから検索）
   const handleBlockUpdate = useCallback(
     (updatedBlock: Block) => {
-      // どのページに属するブロックか検索
-      for (const pageId of Object.keys(blocks)) {
-        const pageBlocks = blocks[pageId]
-        if (pageBlocks?.some((b) => b.id === updatedBlock.id)) {
-          setBlocks((prev) => ({
-            ...prev,
-            [pageId]: (prev[pageId] || []).map((b) =>
-              b.id === updatedBlock.id ? updatedBlock : b
-            ),
-          }))
-          return
-        }
-      }
+      const pageId = findBlockPage(updatedBlock.id)
+      if (!pageId) return
+      applyEdit(
+        'ブロックの編集',
+        { blocks: { [pageId]: blocks[pageId].map((b) => (b.id === updatedBlock.id ? updatedBlock : b)) } },
+        `update:${updatedBlock.id}`
+      )
     },
-    [blocks]
+    [blocks, findBlockPage, applyEdit]
   )
 
-  // 選択中ブロックの削除（全ページから検索）
-  const handleBlockDelete = useCallback(
-    (id: string) => {
+  // ブロックの削除（全ページから検索）
+  const deleteBlocks = useCallback(
+    (ids: string[]) => {
+      const next: PageBlocks = {}
       for (const pageId of Object.keys(blocks)) {
-        const pageBlocks = blocks[pageId]
-        if (pageBlocks?.some((b) => b.id === id)) {
-          setBlocks((prev) => ({
-            ...prev,
-            [pageId]: (prev[pageId] || []).filter((b) => b.id !== id),
-          }))
-          setSelectedBlockId(null)
-          return
+        if (blocks[pageId]?.some((b) => ids.includes(b.id))) {
+          next[pageId] = blocks[pageId].filter((b) => !ids.includes(b.id))
         }
       }
+      if (Object.keys(next).length === 0) return
+      applyEdit('ブロックの削除', { blocks: next })
+      setSelectedBlockIds([])
     },
-    [blocks]
+    [blocks, applyEdit]
   )
 
+  const handleBlockDelete = useCallback((id: string) => deleteBlocks([id]), [deleteBlocks])
+
   // 選択中ブロックを全ページから検索
+  const selectedBlockId = selectedBlockIds[selectedBlockIds.length - 1] ?? null
+  const selectedBlockPageId = selectedBlockId ? findBlockPage(selectedBlockId) : null
   const selectedBlock = useMemo(() => {
-    if (!selectedBlockId) return null
-    for (const pageId of Object.keys(blocks)) {
-      const found = blocks[pageId]?.find((b) => b.id === selectedBlockId)
-      if (found) return found
+    if (!selectedBlockId || !selectedBlockPageId) return null
+    return blocks[selectedBlockPageId]?.find((b) => b.id === selectedBlockId) ?? null
+  }, [selectedBlockId, selectedBlockPageId, blocks])
+
+  // 選択中テキストブロックの出力レイアウト（はみ出し警告用）
+  const fontsReady = usePreviewFontsReady(customFonts)
+  const selectedTextLayout = useMemo(() => {
+    if (!selectedBlock || !isTextualBlock(selectedBlock)) return null
+    const content = blockTextContent(selectedBlock, companyProfile)
+    return content ? layoutPreviewText(content, selectedBlock, customFonts) : null
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedBlock, companyProfile, customFonts, fontsReady])
+
+  // ブロックと白塗り図形の選択は排他
+  const handleSelectBlocks = useCallback((ids: string[]) => {
+    setSelectedBlockIds(ids)
+    setSelectedShapeId(null)
+  }, [])
+
+  const handleSelectShape = useCallback((id: string | null) => {
+    setSelectedShapeId(id)
+    setSelectedBlockIds([])
+  }, [])
+
+  // 選択中の白塗り図形とそのページ
+  const selectedShapeEntry = useMemo(() => {
+    if (!selectedShapeId) return null
+    for (const pageId of Object.keys(maskSettings)) {
+      const shape = maskSettings[pageId]?.shapes?.find((s) => s.id === selectedShapeId)
+      if (shape) return { pageId, shape }
     }
     return null
-  }, [selectedBlockId, blocks])
+  }, [selectedShapeId, maskSettings])
+
+  // テンプレート保存・適用、追加・貼り付けの対象ページ
+  // （選択中ブロック／図形のページ → 最後にクリックしたページ → 1ページ目）
+  const activePageId = useMemo(() => {
+    if (selectedBlockPageId) return selectedBlockPageId
+    if (selectedShapeEntry) return selectedShapeEntry.pageId
+    if (focusedPageId && pages.some((p) => p.id === focusedPageId)) return focusedPageId
+    return pages[0]?.id ?? null
+  }, [selectedBlockPageId, selectedShapeEntry, focusedPageId, pages])
+
+  // 対象ページの帯の中央付近にブロックを追加
+  const handleAddBlock = useCallback(
+    (item: BlockPaletteItem) => {
+      const dims = activePageId ? pageDimensions[activePageId] : undefined
+      if (!activePageId || !dims) return
+      const scale = pageScales[activePageId] || 1.0
+      const bandHeight = (maskSettings[activePageId]?.bottomHeight ?? 0) * scale
+      const centerY = bandHeight > 0 ? dims.height - bandHeight / 2 : dims.height / 2
+
+      const block = item.kind === 'free_text'
+        ? createFreeTextBlock(0, 0)
+        : item.kind === 'custom_field'
+          ? createCustomFieldBlock(0, 0, item.key)
+          : item.kind === 'qr'
+            ? createQrBlock(0, 0, item.field)
+            : createShapeBlock(0, 0, item.kind)
+      block.x = Math.max(0, dims.width / 2 - block.width / 2)
+      block.y = Math.max(0, Math.min(dims.height - block.height, centerY - block.height / 2))
+
+      applyEdit('ブロックの追加', { blocks: { [activePageId]: [...(blocks[activePageId] || []), block] } })
+      handleSelectBlocks([block.id])
+    },
+    [activePageId, pageDimensions, pageScales, maskSettings, blocks, applyEdit, handleSelectBlocks]
+  )
+
+  // 選択中ブロックの移動（矢印キー）。ページ外には出さない
+  const nudgeSelected = useCallback(
+    (dx: number, dy: number) => {
+      const pageId = selectedBlockPageId
+      const dims = pageId ? pageDimensions[pageId] : undefined
+      if (!pageId || !dims) return
+      const moved = blocks[pageId].map((b) =>
+        selectedBlockIds.includes(b.id)
+          ? {
+              ...b,
+              x: Math.max(0, Math.min(dims.width - b.width, b.x + dx)),
+              y: Math.max(0, Math.min(dims.height - b.height, b.y + dy)),
+            }
+          : b
+      )
+      applyEdit('ブロックの移動', { blocks: { [pageId]: moved } }, `nudge:${selectedBlockIds.join(',')}`)
+    },
+    [selectedBlockPageId, selectedBlockIds, pageDimensions, blocks, applyEdit]
+  )
+
+  const handleCopy = useCallback((): boolean => {
+    const pageId = selectedBlockPageId
+    const dims = pageId ? pageDimensions[pageId] : undefined
+    if (!pageId || !dims) return false
+    const copied = blocks[pageId].filter((b) => selectedBlockIds.includes(b.id))
+    if (copied.length === 0) return false
+    clipboardRef.current = { pageId, blocks: copied, size: dims, pasteCount: 0 }
+    toast.success(`${copied.length}個のブロックをコピーしました`)
+    return true
+  }, [selectedBlockPageId, selectedBlockIds, pageDimensions, blocks])
+
+  // 貼り付け（ページサイズが違えば相対位置で配置し直す）
+  const handlePaste = useCallback((): boolean => {
+    const clip = clipboardRef.current
+    const dims = activePageId ? pageDimensions[activePageId] : undefined
+    if (!clip || !activePageId || !dims) return false
+
+    // 同じページでは元のブロックに重ならないよう少しずらす
+    const offset = activePageId === clip.pageId ? PASTE_OFFSET * ++clip.pasteCount : 0
+    const pasted = fromRelativeBlocks(toRelativeBlocks(clip.blocks, clip.size), dims).map((b) => ({
+      ...b,
+      x: Math.max(0, Math.min(dims.width - b.width, b.x + offset)),
+      y: Math.max(0, Math.min(dims.height - b.height, b.y + offset)),
+    }))
+
+    applyEdit('ブロックの貼り付け', { blocks: { [activePageId]: [...(blocks[activePageId] || []), ...pasted] } })
+    handleSelectBlocks(pasted.map((b) => b.id))
+    return true
+  }, [activePageId, pageDimensions, blocks, applyEdit, handleSelectBlocks])
+
+  const handleAlign = useCallback(
+    (mode: AlignMode) => {
+      if (!selectedBlockPageId) return
+      applyEdit('ブロックの整列', {
+        blocks: { [selectedBlockPageId]: alignBlocks(blocks[selectedBlockPageId], selectedBlockIds, mode) },
+      })
+    },
+    [selectedBlockPageId, selectedBlockIds, blocks, applyEdit]
+  )
+
+  const handleDistribute = useCallback(
+    (axis: DistributeAxis) => {
+      if (!selectedBlockPageId) return
+      applyEdit('ブロックの整列', {
+        blocks: { [selectedBlockPageId]: distributeBlocks(blocks[selectedBlockPageId], selectedBlockIds, axis) },
+      })
+    },
+    [selectedBlockPageId, selectedBlockIds, blocks, applyEdit]
+  )
+
+  // キーボード操作（入力欄にフォーカスがある間は無効）
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return
+
+      const mod = e.metaKey || e.ctrlKey
+      const key = e.key.toLowerCase()
+
+      if (mod && key === 'z') {
+        e.preventDefault()
+        if (e.shiftKey) handleRedo()
+        else handleUndo()
+      } else if (mod && key === 'y') {
+        e.preventDefault()
+        handleRedo()
+      } else if (mod && key === 'c') {
+        if (handleCopy()) e.preventDefault()
+      } else if (mod && key === 'v') {
+        if (handlePaste()) e.preventDefault()
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedBlockIds.length > 0) {
+        e.preventDefault()
+        deleteBlocks(selectedBlockIds)
+      } else if (e.key === 'Escape') {
+        setSelectedBlockIds([])
+        setSelectedShapeId(null)
+      } else if (ARROW_KEYS[e.key] && selectedBlockIds.length > 0) {
+        e.preventDefault()
+        const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP
+        nudgeSelected(ARROW_KEYS[e.key].x * step, ARROW_KEYS[e.key].y * step)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [handleUndo, handleRedo, handleCopy, handlePaste, deleteBlocks, nudgeSelected, selectedBlockIds])
+
+  const createShapesChangeHandler = useCallback(
+    (pageId: string) => (shapes: MaskShape[]) => {
+      const mask = maskSettings[pageId]
+      if (mask) applyEdit('白塗り図形の編集', { masks: { [pageId]: { ...mask, shapes } } }, `shapes:${pageId}`)
+    },
+    [maskSettings, applyEdit]
+  )
+
+  // ページ中央に白塗り図形を追加
+  const handleAddShape = useCallback(
+    (type: MaskShape['type']) => {
+      const size = activePageId ? originalPageSizes[activePageId] : undefined
+      if (!activePageId || !size) return
+      const id = `mask-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`
+      const w = size.width * 0.2
+      const h = size.height * 0.06
+      const cx = size.width / 2
+      const cy = size.height / 2
+      const shape: MaskShape = type === 'rect'
+        ? { id, type, x: cx - w / 2, y: cy - h / 2, width: w, height: h, fill: DEFAULT_MASK_FILL }
+        : {
+            id,
+            type,
+            points: [
+              { x: cx - w / 2, y: cy - h / 2 },
+              { x: cx + w / 2, y: cy - h / 2 },
+              { x: cx + w / 2, y: cy + h / 2 },
+              { x: cx - w / 2, y: cy + h / 2 },
+            ],
+            fill: DEFAULT_MASK_FILL,
+          }
+      createShapesChangeHandler(activePageId)([...(maskSettings[activePageId]?.shapes ?? []), shape])
+      handleSelectShape(id)
+    },
+    [activePageId, originalPageSizes, maskSettings, createShapesChangeHandler, handleSelectShape]
+  )
+
+  const handleShapeUpdate = useCallback(
+    (updated: MaskShape) => {
+      if (!selectedShapeEntry) return
+      const { pageId } = selectedShapeEntry
+      createShapesChangeHandler(pageId)(
+        (maskSettings[pageId]?.shapes ?? []).map((s) => (s.id === updated.id ? updated : s))
+      )
+    },
+    [selectedShapeEntry, maskSettings, createShapesChangeHandler]
+  )
+
+  const handleShapeDelete = useCallback(
+    (id: string) => {
+      if (!selectedShapeEntry) return
+      const { pageId } = selectedShapeEntry
+      createShapesChangeHandler(pageId)((maskSettings[pageId]?.shapes ?? []).filter((s) => s.id !== id))
+      setSelectedShapeId(null)
+    },
+    [selectedShapeEntry, maskSettings, createShapesChangeHandler]
+  )
+
+  const handleSaveTemplate = useCallback(
+    async (name: string): Promise<ResolvedTemplate> => {
+      const dims = activePageId ? pageDimensions[activePageId] : undefined
+      const origSize = activePageId ? originalPageSizes[activePageId] : undefined
+      if (!activePageId || !dims || !origSize) {
+        throw new Error('ページの読み込みが完了していません')
+      }
+      return saveTemplate(
+        name,
+        blocks[activePageId] || [],
+        maskSettings[activePageId] ?? null,
+        dims,
+        origSize
+      )
+    },
+    [activePageId, pageDimensions, originalPageSizes, blocks, maskSettings]
+  )
+
+  const handleApplyTemplate = useCallback(
+    (template: ResolvedTemplate, scope: 'active' | 'all') => {
+      const targetIds = scope === 'all'
+        ? pages.map((p) => p.id)
+        : activePageId ? [activePageId] : []
+
+      const nextBlocks: PageBlocks = {}
+      const nextMasks: PageMasks = {}
+      for (const pageId of targetIds) {
+        const dims = pageDimensions[pageId]
+        if (!dims) continue
+        nextBlocks[pageId] = fromRelativeBlocks(template.blocks, dims)
+
+        const origSize = originalPageSizes[pageId]
+        if (template.mask && origSize) {
+          nextMasks[pageId] = fromRelativeMask(template.mask, origSize)
+        }
+      }
+
+      applyEdit('テンプレートの適用', { blocks: nextBlocks, masks: nextMasks })
+      setSelectedBlockIds([])
+      toast.success(`「${template.name}」を${Object.keys(nextBlocks).length}ページに適用しました`)
+    },
+    [pages, activePageId, pageDimensions, originalPageSizes, applyEdit]
+  )
 
   // ファイルをダウンロード（Safari対応のBlob方式）
-  const downloadFile = async (pdfBytes: Uint8Array, fileName: string): Promise<void> => {
+  const downloadFile = async (
+    bytes: Uint8Array,
+    fileName: string,
+    mimeType = 'application/pdf'
+  ): Promise<void> => {
     // TypeScript互換性のためArrayBufferを新規作成
-    const arrayBuffer = new ArrayBuffer(pdfBytes.length)
-    new Uint8Array(arrayBuffer).set(pdfBytes)
-    const blob = new Blob([arrayBuffer], { type: 'application/pdf' })
+    const arrayBuffer = new ArrayBuffer(bytes.length)
+    new Uint8Array(arrayBuffer).set(bytes)
+    const blob = new Blob([arrayBuffer], { type: mimeType })
 
     // Safari判定
     const isSafari = /^((?!chrome|android).)*safari/i.test(navigator.userAgent)
 
-    if (isSafari) {
+    if (isSafari && mimeType === 'application/pdf') {
       // SafariではBlobを新しいタブで開く（ユーザーがCmd+Sで保存）
+      // ZIPはタブで開けないので通常のダウンロードにする
       const blobUrl = URL.createObjectURL(blob)
       const newWindow = window.open(blobUrl, '_blank')
 
@@ -257,17 +716,79 @@ export function PreviewEditor({
     companyProfile,
     pageDimensions,
     pageScales,
-  }), [pages, maskSettings, blocks, companyProfile, pageDimensions, pageScales])
+    redact,
+  }), [pages, maskSettings, blocks, companyProfile, pageDimensions, pageScales, redact])
 
-  // PDF出力（全ページを1つのPDFに統合）
-  const handleExport = async () => {
+  // 墨消し後のPDFに白塗り範囲内のテキストが残っていないか確認
+  const verifyRedaction = async (pdfBytes: Uint8Array): Promise<boolean> => {
+    const outputPages = pages
+      .filter((page) => maskSettings[page.id])
+      .map((page) => ({
+        mask: maskSettings[page.id],
+        ownText: (blocks[page.id] || []).flatMap((b) =>
+          isTextualBlock(b) ? blockTextContent(b, companyProfile) ?? [] : []
+        ),
+      }))
+    const leaks = await findTextInsideMasks(pdfBytes, outputPages)
+    if (leaks.length > 0) {
+      const sample = leaks.slice(0, 3).map((l) => `${l.pageIndex + 1}ページ「${l.text}」`).join('、')
+      toast.warning(`白塗り範囲内に削除できなかったテキストが${leaks.length}件あります: ${sample}`, {
+        duration: 10000,
+      })
+      return false
+    }
+    return true
+  }
+
+  // 出力（既定は全ページを1つのPDFに統合。画像・物件ごとのPDFはZIPにまとめる）
+  // qrTargets: 公開後の印刷用PDF（物件QRに計測付きURLを入れる）
+  const handleExport = async (
+    qrTargets?: QrTargets,
+    request: ExportRequest = DEFAULT_EXPORT_REQUEST
+  ) => {
     setExporting(true)
+    setExportProgress('')
+    const controller = new AbortController()
+    exportAbortRef.current = controller
+    const { signal } = controller
     try {
-      const pdfBytes = await generateModifiedPdf(getPdfParams())
-      const fileName = `帯替え済み_${new Date().toISOString().slice(0, 10)}.pdf`
+      const pdfBytes = await generateModifiedPdfInWorker({ ...getPdfParams(), qrTargets }, {
+        signal,
+        onProgress: (done, total) => setExportProgress(`PDF生成 ${done}/${total}`),
+      })
+      const baseName = `帯替え済み_${new Date().toISOString().slice(0, 10)}`
 
-      await downloadFile(pdfBytes, fileName)
-      toast.success(`${pages.length}ページのPDFをダウンロードしました`)
+      const verified = redact ? await verifyRedaction(pdfBytes).catch((err) => {
+        console.error('[redaction-verifier] failed:', err)
+        toast.warning('墨消しの確認に失敗しました')
+        return false
+      }) : false
+
+      // 墨消しの確認は元のページ配置で行い、用紙への割り付けはその後
+      const verifiedNote = verified ? '（墨消し確認済み）' : ''
+      if (request.kind === 'pdf') {
+        await downloadFile(await imposePdf(pdfBytes, imposition), `${baseName}.pdf`)
+        toast.success(`${pages.length}ページのPDFをダウンロードしました${verifiedNote}`)
+      } else {
+        // 生成PDFは白塗り設定のあるページだけを順に含む
+        const outputPages = pages.filter((page) => maskSettings[page.id])
+        const zipBytes = request.kind === 'property_pdfs'
+          ? await exportPropertyPdfsZip(pdfBytes, outputPages, (bytes) => imposePdf(bytes, imposition))
+          : await exportImagesZip(
+              pdfBytes,
+              outputPages,
+              request.kind === 'line' ? LINE_IMAGE_PRESET : { dpi: request.dpi, format: request.format },
+              { signal, onProgress: (done, total) => setExportProgress(`画像変換 ${done}/${total}`) }
+            )
+        await downloadFile(zipBytes, `${baseName}.zip`, 'application/zip')
+        toast.success(
+          request.kind === 'property_pdfs'
+            ? `物件ごとのPDFをZIPでダウンロードしました${verifiedNote}`
+            : `${outputPages.length}ページの画像をZIPでダウンロードしました${verifiedNote}`
+        )
+      }
+
+      onFinished?.()
 
       // Notionにログを記録（fire-and-forget）
       const firstFileName = pages[0]?.fileName || '不明'
@@ -284,13 +805,56 @@ export function PreviewEditor({
         console.error('[log-export] Failed to log:', err)
       })
     } catch (error) {
-      console.error('Export error:', error)
-      toast.error('PDF出力に失敗しました: ' + (error instanceof Error ? error.message : '不明なエラー'))
+      if (isAbortError(error)) {
+        toast.info('出力を中止しました')
+      } else {
+        console.error('Export error:', error)
+        toast.error('PDF出力に失敗しました: ' + (error instanceof Error ? error.message : '不明なエラー'))
+      }
     } finally {
       setExporting(false)
+      exportAbortRef.current = null
     }
   }
 
+  const proceedAfterPreflight = (action: 'export' | 'publish') => {
+    setPreflight(null)
+    if (action === 'export') setShowExportDialog(true)
+    else setShowPublishDialog(true)
+  }
+
+  // 出力・公開の前にチェックし、問題があれば一覧を表示
+  const handlePreflight = async (action: 'export' | 'publish') => {
+    setChecking(true)
+    try {
+      const issues = await runPreflight(getPdfParams(), { publishing: action === 'publish' })
+      if (issues.length === 0) proceedAfterPreflight(action)
+      else setPreflight({ action, issues })
+    } catch (error) {
+      console.error('[preflight] failed:', error)
+      // エラーがあれば公開しない設定では、チェックできなかった公開も止める
+      if (action === 'publish' && companyProfile?.block_publish_on_preflight_errors) {
+        toast.error('公開前のチェックに失敗したため公開を中止しました。もう一度お試しください')
+        return
+      }
+      toast.warning('出力前のチェックに失敗しました')
+      proceedAfterPreflight(action)
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  // チェック結果の項目から該当ページ・ブロックへ移動
+  const handleSelectIssue = (issue: PreflightIssue) => {
+    if (!issue.pageId) return
+    setPreflight(null)
+    setFocusedPageId(issue.pageId)
+    handleSelectBlocks(issue.blockId ? [issue.blockId] : [])
+    containerRef.current
+      ?.querySelector(`[data-page-id="${issue.pageId}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }
+
   const isEmbed = !!embedContext
 
   return (
@@ -303,28 +867,83 @@ export function PreviewEditor({
           <p className="text-sm text-muted-foreground">
             {isEmbed
               ? `${embedContext?.customerName}様向けの提案リンクを作成します`
-              : '会社情報ブロックをドラッグして配置を調整してください'}
+              : '会社情報ブロックをドラッグして配置を調整してください（矢印キーで微調整、Ctrl+C / Ctrl+V でページ間コピー）'}
           </p>
         </div>
         <div className="flex items-center gap-2">
           <Button variant="outline" onClick={onBack}>
             戻る
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleUndo}
+            disabled={history.undo.length === 0}
+            title={`元に戻す（Ctrl+Z）${history.undo.length > 0 ? `: ${history.undo[history.undo.length - 1].label}` : ''}`}
+          >
+            元に戻す
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRedo}
+            disabled={history.redo.length === 0}
+            title={`やり直す（Ctrl+Shift+Z）${history.redo.length > 0 ? `: ${history.redo[history.redo.length - 1].label}` : ''}`}
+          >
+            やり直す
+          </Button>
+          {!isEmbed && (
+            <label className="flex items-center gap-1.5 text-sm text-gray-700 cursor-pointer" title="元の帯の文字や画像をPDFのデータから削除します（コピー・検索できなくなります）">
+              <input
+                type="checkbox"
+                checked={redact}
+                onChange={(e) => setRedact(e.target.checked)}
+                className="w-4 h-4"
+              />
+              墨消し
+            </label>
+          )}
           {!isEmbed && (
-            <Button onClick={handleExport} disabled={exporting}>
-              {exporting ? '出力中...' : 'PDFを出力'}
+            <Button onClick={() => handlePreflight('export')} disabled={exporting || checking}>
+              {exporting ? `出力中...${exportProgress && `（${exportProgress}）`}` : checking ? '確認中...' : '出力'}
             </Button>
           )}
           <Button
             variant={isEmbed ? 'default' : 'outline'}
-            onClick={() => setShowPublishDialog(true)}
-            disabled={exporting}
+            onClick={() => handlePreflight('publish')}
+            disabled={exporting || checking}
           >
             {isEmbed ? '提案リンクを作成' : 'Web公開'}
           </Button>
         </div>
       </div>
 
+      {preflight && (
+        <PreflightDialog
+          open
+          onOpenChange={(open) => !open && setPreflight(null)}
+          issues={preflight.issues}
+          pages={pages}
+          action={preflight.action}
+          blocked={
+            preflight.action === 'publish' &&
+            !!companyProfile?.block_publish_on_preflight_errors &&
+            hasPreflightErrors(preflight.issues)
+          }
+          onContinue={() => proceedAfterPreflight(preflight.action)}
+          onSelectIssue={handleSelectIssue}
+        />
+      )}
+
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        exporting={exporting}
+        progress={exportProgress}
+        onCancel={() => exportAbortRef.current?.abort()}
+        onExport={(request) => handleExport(undefined, request)}
+      />
+
       <PublishDialog
         open={showPublishDialog}
         onOpenChange={setShowPublishDialog}
@@ -332,6 +951,8 @@ export function PreviewEditor({
         defaultTitle={pages[0]?.fileName?.replace(/\.pdf$/i, '') || '物件'}
         userEmail={userEmail}
         embedContext={embedContext ?? null}
+        onExportPdf={handleExport}
+        onPublished={onFinished}
       />
 
       <div className="grid grid-cols-12 gap-4">
@@ -347,14 +968,19 @@ export function PreviewEditor({
               if (!mask) return null
 
               return (
-                <div key={page.id}>
+                <div key={page.id} data-page-id={page.id}>
                   {/* ページラベル */}
                   <div className="text-sm text-muted-foreground mb-2">
                     {index + 1} / {pages.length} - {page.fileName}
                   </div>
 
                   {/* PDFプレビュー + BlockEditor */}
-                  <div className="relative inline-block border rounded-lg overflow-hidden shadow-lg">
+                  <div
+                    className={`relative inline-block border rounded-lg overflow-hidden shadow-lg ${
+                      activePageId === page.id && pages.length > 1 ? 'ring-2 ring-blue-200' : ''
+                    }`}
+                    onMouseDownCapture={() => setFocusedPageId(page.id)}
+                  >
                     {isReady && file && maxWidth > 0 ? (
                       <Document
                         file={file}
@@ -364,7 +990,10 @@ export function PreviewEditor({
                         <Page
                           pageNumber={page.pageNumber}
                           scale={scale}
-                          onLoadSuccess={createPageLoadHandler(page.id, mask)}
+                          rotate={page.rotation}
+                          onLoadSuccess={(loaded) =>
+                            createPageLoadHandler(page.id, mask)(renderedPageSize(loaded, page.rotation))
+                          }
                           renderTextLayer={false}
                           renderAnnotationLayer={false}
                         />
@@ -410,8 +1039,19 @@ export function PreviewEditor({
                         companyProfile={companyProfile}
                         blocks={pageBlocks}
                         onBlocksChange={createBlocksChangeHandler(page.id)}
-                        selectedBlockId={selectedBlockId}
-                        onSelectBlock={setSelectedBlockId}
+                        selectedBlockIds={selectedBlockIds}
+                        onSelectBlocks={handleSelectBlocks}
+                      />
+                    )}
+
+                    {dims && dims.width > 0 && originalPageSizes[page.id] && (
+                      <MaskShapeEditor
+                        shapes={mask.shapes ?? []}
+                        scale={scale}
+                        pageSize={originalPageSizes[page.id]}
+                        selectedShapeId={selectedShapeId}
+                        onSelectShape={handleSelectShape}
+                        onShapesChange={createShapesChangeHandler(page.id)}
                       />
                     )}
                   </div>
@@ -426,8 +1066,55 @@ export function PreviewEditor({
             block={selectedBlock}
             onUpdate={handleBlockUpdate}
             onDelete={handleBlockDelete}
+            customFields={customFields}
+            customFonts={customFonts}
+            textLayout={selectedTextLayout}
           />
 
+          {selectedBlockIds.length > 1 && (
+            <div className="mt-4">
+              <BlockAlignTools
+                selectedCount={selectedBlockIds.length}
+                onAlign={handleAlign}
+                onDistribute={handleDistribute}
+              />
+            </div>
+          )}
+
+          <div className="mt-4">
+            <BlockPalette
+              customFields={customFields}
+              onAdd={handleAddBlock}
+              disabled={!activePageId || !pageDimensions[activePageId]}
+            />
+          </div>
+
+          <div className="mt-4">
+            <MaskShapeProperties
+              shape={selectedShapeEntry?.shape ?? null}
+              onAdd={handleAddShape}
+              onUpdate={handleShapeUpdate}
+              onDelete={handleShapeDelete}
+              disabled={!activePageId || !originalPageSizes[activePageId]}
+            />
+          </div>
+
+          {!isEmbed && (
+            <div className="mt-4">
+              <ExportOptions options={imposition} onChange={setImposition} />
+            </div>
+          )}
+
+          <div className="mt-4">
+            <TemplatePicker
+              library={templateLibrary}
+              onLibraryChange={onTemplateLibraryChange}
+              onSave={handleSaveTemplate}
+              onApply={handleApplyTemplate}
+              disabled={Object.keys(pageDimensions).length === 0}
+            />
+          </div>
+
           {companyProfile && (
             <Card className="mt-4">
               <CardHeader>
@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import {
   Dialog,
   DialogContent,
@@ -14,9 +14,12 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { toast } from 'sonner'
 import { createClient } from '@/lib/supabase/client'
-import { generateModifiedPdf, type GeneratePdfParams } from '@/lib/pdf-generator'
-import { renderPdfToImages } from '@/lib/pdf-to-images'
+import type { GeneratePdfParams } from '@/lib/pdf-generator'
+import { generateModifiedPdfInWorker, isAbortError, renderPdfToImagesInWorker } from '@/lib/pdf-worker'
 import { getPublicBaseUrl } from '@/lib/public-url'
+import { groupIntoListings } from '@/lib/page-groups'
+import type { QrTargets } from '@/lib/blocks'
+import { createPrintBatch, newPrintBatch, newPrintCode, printLinkUrl, savePrintLinks } from '@/lib/print-links'
 
 export interface ObikaeEmbedContext {
   sessionId: string
@@ -31,6 +34,10 @@ interface PublishDialogProps {
   defaultTitle: string
   userEmail?: string
   embedContext?: ObikaeEmbedContext | null
+  /** 公開後の印刷用PDF出力（物件QRに印刷バッチ用の計測URLを入れて出力する） */
+  onExportPdf?: (qrTargets: QrTargets) => Promise<void>
+  /** 公開が完了したとき（編集中の下書きを片付ける） */
+  onPublished?: () => void
 }
 
 type PublishStep = 'form' | 'publishing' | 'done'
@@ -57,6 +64,7 @@ interface PublishedItem {
   title: string
   url: string
   listingId: string
+  pageIds: string[]
 }
 
 export function PublishDialog({
@@ -65,15 +73,27 @@ export function PublishDialog({
   pdfParams,
   defaultTitle,
   embedContext,
+  onExportPdf,
+  onPublished,
 }: PublishDialogProps) {
   const [step, setStep] = useState<PublishStep>('form')
   const [title, setTitle] = useState(defaultTitle)
   const [progress, setProgress] = useState('')
+  // 進捗バー（0〜1）。PDF生成 → 画像変換 → アップロードの順に進む
+  const [progressRatio, setProgressRatio] = useState(0)
+  const abortRef = useRef<AbortController | null>(null)
   const [publishedItems, setPublishedItems] = useState<PublishedItem[]>([])
   const [proposeUrl, setProposeUrl] = useState<string | null>(null)
+  const [exportingPrint, setExportingPrint] = useState(false)
 
   const isEmbed = !!embedContext
 
+  // 公開される物件の単位（ページ一覧の区切り。既定は元ファイルごと）
+  const listingPreview = useMemo(
+    () => groupIntoListings(pdfParams.pages.filter((p) => pdfParams.maskSettings[p.id])),
+    [pdfParams.pages, pdfParams.maskSettings]
+  )
+
   // In embed mode, swap the default title to something customer-specific.
   useEffect(() => {
     if (isEmbed && embedContext?.customerName) {
@@ -87,90 +107,157 @@ export function PublishDialog({
 
   const handlePublish = async () => {
     setStep('publishing')
+    setProgressRatio(0)
+    const controller = new AbortController()
+    abortRef.current = controller
+    const { signal } = controller
+    const supabase = createClient()
+    // Rolled back when the publish fails or is cancelled
+    const createdListingIds: string[] = []
+    const uploadedPaths: string[] = []
 
     try {
-      const supabase = createClient()
       const { data: { user } } = await supabase.auth.getUser()
       if (!user) throw new Error('ログインが必要です')
 
-      // Step 1: Generate modified PDF
-      setProgress('PDF生成中...')
-      const pdfBytes = await generateModifiedPdf(pdfParams)
-
-      // Step 2: Render PDF to images
-      setProgress('画像変換中...')
-      const images = await renderPdfToImages(pdfBytes)
-
-      // Step 3: Create one listing per page (1 property = 1 URL)
-      const items: PublishedItem[] = []
+      // One listing per property (1 property = 1 URL). Pages are grouped by the
+      // listing breaks set in the page list; the generator skips pages without
+      // a mask, so only those are counted.
+      const outputPages = pdfParams.pages.filter((p) => pdfParams.maskSettings[p.id])
+      const listings = groupIntoListings(outputPages)
       const baseSlug = toSlug(title)
       const timestamp = Date.now().toString(36)
-
-      for (const img of images) {
-        const itemTitle = images.length > 1
-          ? `${title} (${img.pageNumber}/${images.length})`
+      const proposalSlug = isEmbed && embedContext
+        ? `${toProposalSlug(embedContext.customerName)}-${timestamp}`
+        : null
+
+      // Step 1: Create the listings (hidden until their pages are uploaded) and
+      // register their tracked QR codes before the codes are drawn into the
+      // images, so every published QR resolves.
+      setProgress('公開の準備中...')
+      const items: PublishedItem[] = []
+      for (let n = 0; n < listings.length; n++) {
+        const itemTitle = listings.length > 1
+          ? `${title} (${n + 1}/${listings.length})`
           : title
-        const listingSlug = images.length > 1
-          ? `${baseSlug}-${img.pageNumber}-${timestamp}`
+        const listingSlug = listings.length > 1
+          ? `${baseSlug}-${n + 1}-${timestamp}`
           : `${baseSlug}-${timestamp}`
 
-        setProgress(`物件 ${img.pageNumber}/${images.length} を公開中...`)
-
-        // Create listing
         const { data: listing, error: listingError } = await supabase
           .from('published_listings')
           .insert({
             user_id: user.id,
             title: itemTitle,
             slug: listingSlug,
-            page_count: 1,
+            page_count: listings[n].length,
             ga_measurement_id: GA_MEASUREMENT_ID,
+            is_published: false,
           })
           .select()
           .single()
 
         if (listingError || !listing) throw new Error(listingError?.message || 'リスト作成に失敗')
 
-        // Upload image
-        const filePath = `${user.id}/${listing.id}/1.png`
-        const { error: uploadError } = await supabase.storage
-          .from('published')
-          .upload(filePath, img.blob, { contentType: 'image/png', upsert: true })
-
-        if (uploadError) throw new Error(`画像アップロード失敗: ${uploadError.message}`)
-
-        const { data: { publicUrl: imageUrl } } = supabase.storage
-          .from('published')
-          .getPublicUrl(filePath)
-
-        // Save page record
-        const { error: pageError } = await supabase
-          .from('published_pages')
-          .insert({
-            listing_id: listing.id,
-            page_number: 1,
-            image_url: imageUrl,
-            width: img.width,
-            height: img.height,
-          })
-
-        if (pageError) throw new Error(`ページ保存失敗: ${pageError.message}`)
-
         items.push({
           title: itemTitle,
           url: `${getPublicBaseUrl()}/p/${listingSlug}`,
           listingId: listing.id,
+          pageIds: listings[n].map((p) => p.id),
         })
+        createdListingIds.push(listing.id)
+      }
+
+      const webBatch = newPrintBatch('web')
+      const listingCodes = items.map(() => newPrintCode())
+      await savePrintLinks(
+        webBatch,
+        items.map((item, n) => ({ code: listingCodes[n], listingId: item.listingId }))
+      )
+      const qrTargets: QrTargets = {
+        listingUrls: Object.fromEntries(
+          items.flatMap((item, n) => item.pageIds.map((pageId) => [pageId, printLinkUrl(listingCodes[n])]))
+        ),
+        proposalUrl: proposalSlug ? `${getPublicBaseUrl()}/propose/${proposalSlug}` : undefined,
+      }
+
+      // Step 2: Generate modified PDF
+      setProgress('PDF生成中...')
+      const pdfBytes = await generateModifiedPdfInWorker({ ...pdfParams, qrTargets }, {
+        signal,
+        onProgress: (done, total) => {
+          setProgress(`PDF生成中... (${done}/${total})`)
+          setProgressRatio((done / total) * 0.4)
+        },
+      })
+
+      // Step 3: Render PDF to images
+      setProgress('画像変換中...')
+      const images = await renderPdfToImagesInWorker(pdfBytes, undefined, undefined, {
+        signal,
+        onProgress: (done, total) => {
+          setProgress(`画像変換中... (${done}/${total})`)
+          setProgressRatio(0.4 + (done / total) * 0.3)
+        },
+      })
+      const imageByPageId = new Map(outputPages.map((p, i) => [p.id, images[i]]))
+
+      // Step 4: Upload the pages and publish the listings
+      for (let n = 0; n < items.length; n++) {
+        const item = items[n]
+        const listingImages = item.pageIds.flatMap((pageId) => imageByPageId.get(pageId) ?? [])
+
+        signal.throwIfAborted()
+        setProgress(`物件 ${n + 1}/${items.length} を公開中...`)
+        setProgressRatio(0.7 + (n / items.length) * 0.3)
+
+        for (let k = 0; k < listingImages.length; k++) {
+          const img = listingImages[k]
+          const pageNumber = k + 1
+
+          // Upload image
+          const filePath = `${user.id}/${item.listingId}/${pageNumber}.png`
+          const { error: uploadError } = await supabase.storage
+            .from('published')
+            .upload(filePath, img.blob, { contentType: 'image/png', upsert: true })
+
+          if (uploadError) throw new Error(`画像アップロード失敗: ${uploadError.message}`)
+          uploadedPaths.push(filePath)
+
+          const { data: { publicUrl: imageUrl } } = supabase.storage
+            .from('published')
+            .getPublicUrl(filePath)
+
+          // Save page record
+          const { error: pageError } = await supabase
+            .from('published_pages')
+            .insert({
+              listing_id: item.listingId,
+              page_number: pageNumber,
+              image_url: imageUrl,
+              width: img.width,
+              height: img.height,
+            })
+
+          if (pageError) throw new Error(`ページ保存失敗: ${pageError.message}`)
+        }
+
+        const { error: publishError } = await supabase
+          .from('published_listings')
+          .update({ page_count: listingImages.length, is_published: true })
+          .eq('id', item.listingId)
+
+        if (publishError) throw new Error(`公開設定に失敗: ${publishError.message}`)
       }
+      createdListingIds.length = 0
 
       setPublishedItems(items)
 
       // In embed mode, auto-create a proposal_set bundling the published listings
       // so that the parent window (sales-ai-mockup) can paste a single URL into chat.
-      if (isEmbed && embedContext) {
+      if (isEmbed && embedContext && proposalSlug) {
         try {
           setProgress('提案セットを作成中...')
-          const proposalSlug = `${toProposalSlug(embedContext.customerName)}-${Date.now().toString(36)}`
           const { data: proposal, error: proposalError } = await supabase
             .from('proposal_sets')
             .insert({
@@ -233,10 +320,45 @@ export function PublishDialog({
 
       setStep('done')
       toast.success(`${items.length}件の物件を公開しました`)
+      onPublished?.()
     } catch (error) {
-      console.error('Publish error:', error)
-      toast.error('公開に失敗しました: ' + (error instanceof Error ? error.message : '不明なエラー'))
+      if (isAbortError(error)) {
+        toast.info('公開を中止しました')
+      } else {
+        console.error('Publish error:', error)
+        toast.error('公開に失敗しました: ' + (error instanceof Error ? error.message : '不明なエラー'))
+      }
+      if (uploadedPaths.length > 0) {
+        await supabase.storage.from('published').remove(uploadedPaths)
+      }
+      if (createdListingIds.length > 0) {
+        // Pages and print links cascade with the listing
+        const { error: rollbackError } = await supabase
+          .from('published_listings')
+          .delete()
+          .in('id', createdListingIds)
+        if (rollbackError) console.error('Publish rollback error:', rollbackError)
+      }
       setStep('form')
+    } finally {
+      abortRef.current = null
+    }
+  }
+
+  // 配布用の印刷PDF。物件ごとに新しい計測コードを発行し、どの配布物から見られたか分かるようにする
+  const handleExportPrint = async () => {
+    if (!onExportPdf) return
+    setExportingPrint(true)
+    try {
+      const listingUrls = await createPrintBatch(
+        publishedItems.map((item) => ({ listingId: item.listingId, pageIds: item.pageIds }))
+      )
+      await onExportPdf({ listingUrls, proposalUrl: proposeUrl ?? undefined })
+    } catch (error) {
+      console.error('Print export error:', error)
+      toast.error('印刷用PDFの作成に失敗しました: ' + (error instanceof Error ? error.message : '不明なエラー'))
+    } finally {
+      setExportingPrint(false)
     }
   }
 
@@ -301,7 +423,7 @@ export function PublishDialog({
           </DialogTitle>
           {step === 'form' && (
             <DialogDescription>
-              各ページを個別のWebページとして公開します（{pdfParams.pages.length}物件）
+              物件ごとに1つのWebページとして公開します（{listingPreview.length}物件）
             </DialogDescription>
           )}
         </DialogHeader>
@@ -317,8 +439,22 @@ export function PublishDialog({
                   onChange={(e) => setTitle(e.target.value)}
                   placeholder="物件名やファイル名"
                 />
+              </div>
+              <div className="space-y-1">
+                <Label>公開される物件</Label>
+                <ul className="max-h-40 overflow-y-auto rounded-md border divide-y text-sm">
+                  {listingPreview.map((group, n) => (
+                    <li key={group[0].id} className="flex items-center gap-2 px-3 py-1.5">
+                      <span className="text-muted-foreground">物件{n + 1}</span>
+                      <span className="min-w-0 flex-1 truncate">
+                        {Array.from(new Set(group.map((p) => p.fileName))).join('、')}
+                      </span>
+                      <span className="text-xs text-muted-foreground">{group.length}ページ</span>
+                    </li>
+                  ))}
+                </ul>
                 <p className="text-xs text-muted-foreground">
-                  {pdfParams.pages.length}件の物件ページが個別に公開されます
+                  1つのファイルのページは1物件にまとまります。複数物件を1つにまとめたPDFは、ページ一覧の区切りで物件を分けてから公開してください
                 </p>
               </div>
             </div>
@@ -326,8 +462,8 @@ export function PublishDialog({
               <Button variant="outline" onClick={handleClose}>
                 キャンセル
               </Button>
-              <Button onClick={handlePublish} disabled={!title.trim()}>
-                {pdfParams.pages.length}件を公開する
+              <Button onClick={handlePublish} disabled={!title.trim() || listingPreview.length === 0}>
+                {listingPreview.length}件を公開する
               </Button>
             </DialogFooter>
           </>
@@ -337,6 +473,15 @@ export function PublishDialog({
           <div className="py-8 text-center space-y-4">
             <div className="animate-spin h-8 w-8 border-2 border-gray-300 border-t-gray-900 rounded-full mx-auto" />
             <p className="text-sm text-muted-foreground">{progress}</p>
+            <div className="h-1.5 w-full rounded-full bg-gray-200 overflow-hidden">
+              <div
+                className="h-full bg-gray-900 transition-[width]"
+                style={{ width: `${Math.round(progressRatio * 100)}%` }}
+              />
+            </div>
+            <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+              中止
+            </Button>
           </div>
         )}
 
@@ -375,9 +520,22 @@ export function PublishDialog({
                 <p className="text-sm text-muted-foreground">
                   {publishedItems.length}件の物件ページを公開しました
                 </p>
-                <Button variant="outline" size="sm" onClick={handleCopyAll}>
-                  全URLコピー
-                </Button>
+                <div className="flex items-center gap-2">
+                  {onExportPdf && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleExportPrint}
+                      disabled={exportingPrint}
+                      title="物件QRに読み取り計測用のURLを入れたPDFを出力します"
+                    >
+                      {exportingPrint ? '出力中...' : '印刷用PDF（QR計測付き）'}
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={handleCopyAll}>
+                    全URLコピー
+                  </Button>
+                </div>
               </div>
               <div className="max-h-[320px] overflow-y-auto space-y-2">
                 {publishedItems.map((item, i) => (
@@ -0,0 +1,159 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import {
+  deleteTemplate,
+  setDefaultTemplate,
+  type ResolvedTemplate,
+  type TemplateLibrary,
+} from '@/lib/layout-templates'
+
+interface TemplatePickerProps {
+  library: TemplateLibrary
+  onLibraryChange: (library: TemplateLibrary) => void
+  // 現在のページの配置をテンプレートとして保存（保存結果を返す）
+  onSave: (name: string) => Promise<ResolvedTemplate>
+  onApply: (template: ResolvedTemplate, scope: 'active' | 'all') => void
+  disabled?: boolean
+}
+
+export function TemplatePicker({
+  library,
+  onLibraryChange,
+  onSave,
+  onApply,
+  disabled,
+}: TemplatePickerProps) {
+  const [name, setName] = useState('')
+  const [saving, setSaving] = useState(false)
+  const { templates, defaultTemplateId } = library
+
+  const handleSave = async () => {
+    const trimmed = name.trim()
+    if (!trimmed) return
+    setSaving(true)
+    try {
+      const saved = await onSave(trimmed)
+      onLibraryChange({ ...library, templates: [saved, ...templates] })
+      setName('')
+      toast.success(`テンプレート「${trimmed}」を保存しました`)
+    } catch (error) {
+      toast.error('保存に失敗しました: ' + (error instanceof Error ? error.message : '不明なエラー'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (template: ResolvedTemplate) => {
+    if (!confirm(`テンプレート「${template.name}」を削除しますか？`)) return
+    try {
+      await deleteTemplate(template.id)
+      onLibraryChange({
+        templates: templates.filter((t) => t.id !== template.id),
+        defaultTemplateId: defaultTemplateId === template.id ? null : defaultTemplateId,
+      })
+    } catch (error) {
+      toast.error('削除に失敗しました: ' + (error instanceof Error ? error.message : '不明なエラー'))
+    }
+  }
+
+  const handleToggleDefault = async (template: ResolvedTemplate) => {
+    const nextId = defaultTemplateId === template.id ? null : template.id
+    try {
+      await setDefaultTemplate(nextId)
+      onLibraryChange({ ...library, defaultTemplateId: nextId })
+      toast.success(nextId ? `「${template.name}」を既定にしました` : '既定テンプレートを解除しました')
+    } catch (error) {
+      toast.error('更新に失敗しました: ' + (error instanceof Error ? error.message : '不明なエラー'))
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">配置テンプレート</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {templates.length === 0 ? (
+          <p className="text-xs text-muted-foreground">保存済みのテンプレートはありません</p>
+        ) : (
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {templates.map((template) => (
+              <div
+                key={template.id}
+                className={cn(
+                  'flex items-center gap-1 rounded border px-2 py-1 text-xs',
+                  defaultTemplateId === template.id && 'border-blue-300 bg-blue-50'
+                )}
+              >
+                <button
+                  type="button"
+                  className={cn(
+                    'flex-shrink-0 text-base leading-none',
+                    defaultTemplateId === template.id ? 'text-yellow-500' : 'text-gray-300 hover:text-gray-500'
+                  )}
+                  title={defaultTemplateId === template.id ? '既定を解除' : '既定にする（読み込み時に自動適用）'}
+                  onClick={() => handleToggleDefault(template)}
+                >
+                  ★
+                </button>
+                <span className="flex-1 truncate" title={template.name}>{template.name}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-1.5 text-xs"
+                  disabled={disabled}
+                  onClick={() => onApply(template, 'active')}
+                >
+                  適用
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-1.5 text-xs"
+                  disabled={disabled}
+                  onClick={() => onApply(template, 'all')}
+                >
+                  全ページ
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-1.5 text-xs text-red-600 hover:text-red-700"
+                  onClick={() => handleDelete(template)}
+                >
+                  削除
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2 pt-2 border-t">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="テンプレート名"
+            className="h-8 text-xs"
+          />
+          <Button
+            size="sm"
+            className="h-8 flex-shrink-0"
+            onClick={handleSave}
+            disabled={disabled || saving || !name.trim()}
+          >
+            {saving ? '保存中...' : '保存'}
+          </Button>
+        </div>
+        <p className="text-[11px] text-muted-foreground">
+          選択中ブロックのページ（未選択時は1ページ目）の配置と白塗り範囲を保存します
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
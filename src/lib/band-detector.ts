@@ -0,0 +1,245 @@
+/**
+ * Automatic detection of the original broker band (帯) on a maisoku page.
+ *
+ * Two independent signals are combined:
+ *   1. Text positions (pdfjs `getTextContent`) — broker-contact keywords such
+ *      as TEL / FAX / 免許 / 取引態様 clustered near the bottom (or down the
+ *      left edge for L-shaped bands).
+ *   2. Pixel structure — the page is rasterised at low resolution and long
+ *      horizontal / vertical rules that separate the band from the body are
+ *      located.
+ *
+ * Scanned maisoku have no text layer, so (2) alone must work; when both agree
+ * the confidence is high. Results are in PDF points of the displayed
+ * (rotation-applied) page, i.e. the same units as `MaskSettings`.
+ */
+
+import type { PDFPageProxy, PageViewport } from 'pdfjs-dist'
+import { loadPdfjs } from '@/lib/pdfjs'
+import type { MaskDetection, MaskSettings } from '@/types/editor'
+
+const BROKER_KEYWORDS =
+  /(TEL|ＴＥＬ|Tel|電話|FAX|ＦＡＸ|Fax|免許|宅建|宅地建物取引|取引態様|仲介|媒介|代理|元付|株式会社|有限会社|㈱|（株）|\(株\)|商号|担当)/
+
+// Bands are never taller than this share of the page; anything above is body.
+const MAX_BAND_RATIO = 0.35
+const MAX_LEFT_RATIO = 0.25
+const RASTER_WIDTH = 400
+const DARK_THRESHOLD = 200
+const LINE_COVERAGE = 0.6
+const SNAP_DISTANCE_PT = 30
+const MARGIN_PT = 4
+
+export const DEFAULT_MASK: MaskSettings = { bottomHeight: 100, leftWidth: 0, enableLShape: false }
+
+export interface BandDetectionResult {
+  mask: MaskSettings
+  detection: MaskDetection
+}
+
+interface TextHit {
+  x: number
+  top: number
+  bottom: number
+  vertical: boolean
+}
+
+/** `rotation` overrides the page's /Rotate (a page turned in the page list). */
+export async function detectBand(
+  pdfData: Uint8Array,
+  pageNumber: number,
+  rotation?: number
+): Promise<BandDetectionResult> {
+  const pdfjs = await loadPdfjs()
+
+  const pdf = await pdfjs.getDocument({ data: pdfData.slice() }).promise
+  try {
+    const page = await pdf.getPage(pageNumber)
+    const viewport = page.getViewport({ scale: 1, rotation })
+    const pageWidth = viewport.width
+    const pageHeight = viewport.height
+
+    const hits = await findKeywordHits(page, viewport, pdfjs.Util.transform)
+    const lines = await findRules(page, pageWidth, rotation)
+
+    // --- Bottom band ---------------------------------------------------------
+    const bandFloor = pageHeight * (1 - MAX_BAND_RATIO)
+    const bottomHits = hits.filter((h) => !h.vertical && h.top >= bandFloor)
+    const textTop = bottomHits.length > 0 ? Math.min(...bottomHits.map((h) => h.top)) : null
+    const candidateRules = lines.horizontal.filter((y) => y >= bandFloor)
+
+    let bandTop: number | null = null
+    let textScore = 0
+    let lineScore = 0
+
+    if (textTop !== null) {
+      textScore = Math.min(1, bottomHits.length / 4)
+      // Snap to the nearest rule just above the keyword cluster.
+      const snapped = candidateRules
+        .filter((y) => y <= textTop + 2 && textTop - y <= SNAP_DISTANCE_PT)
+        .sort((a, b) => b - a)[0]
+      if (snapped !== undefined) {
+        bandTop = snapped
+        lineScore = 1
+      } else {
+        bandTop = textTop - MARGIN_PT
+      }
+    } else if (candidateRules.length > 0) {
+      // No text layer (scanned sheet): the highest rule inside the band zone.
+      bandTop = Math.min(...candidateRules)
+      lineScore = candidateRules.length === 1 ? 0.6 : 0.4
+    }
+
+    // --- L-shaped left strip -------------------------------------------------
+    const leftCeiling = pageWidth * MAX_LEFT_RATIO
+    const leftHits = hits.filter((h) => h.vertical && h.x <= leftCeiling)
+    const leftRules = lines.vertical.filter((x) => x <= leftCeiling)
+    let leftWidth = 0
+    if (leftHits.length > 0) {
+      const textRight = Math.max(...leftHits.map((h) => h.x))
+      const snapped = leftRules.filter((x) => x >= textRight - 2).sort((a, b) => a - b)[0]
+      leftWidth = snapped ?? textRight + MARGIN_PT
+    }
+
+    if (bandTop === null) {
+      if (leftWidth === 0) return { mask: DEFAULT_MASK, detection: { confidence: 0, source: 'none' } }
+      // Only the left strip was found: keep it with the default bottom height
+      return {
+        mask: { ...DEFAULT_MASK, leftWidth: Math.round(leftWidth), enableLShape: true },
+        detection: { confidence: Math.round(0.35 * Math.min(1, leftHits.length / 4) * 100) / 100, source: 'text' },
+      }
+    }
+
+    const source: MaskDetection['source'] =
+      textScore > 0 && lineScore > 0 ? 'text+lines' : textScore > 0 ? 'text' : 'lines'
+    const confidence = source === 'text+lines'
+      ? 0.6 + 0.4 * textScore
+      : source === 'text'
+        ? 0.35 + 0.35 * textScore
+        : 0.5 * lineScore
+
+    return {
+      mask: {
+        bottomHeight: Math.round(pageHeight - bandTop + MARGIN_PT),
+        leftWidth: Math.round(leftWidth),
+        enableLShape: leftWidth > 0,
+      },
+      detection: { confidence: Math.round(confidence * 100) / 100, source },
+    }
+  } finally {
+    pdf.destroy()
+  }
+}
+
+async function findKeywordHits(
+  page: PDFPageProxy,
+  viewport: PageViewport,
+  transform: (a: number[], b: number[]) => number[]
+): Promise<TextHit[]> {
+  const content = await page.getTextContent()
+  const hits: TextHit[] = []
+
+  for (const item of content.items) {
+    // TextMarkedContent entries carry no text
+    if (!('str' in item) || !BROKER_KEYWORDS.test(item.str)) continue
+    const tx = transform(viewport.transform, item.transform)
+    const fontHeight = Math.hypot(tx[2], tx[3])
+
+    // Vertical writing (-V / WMode 1 fonts): pdfjs keeps the transform
+    // unrotated and flags the style. The run goes down the text space's y
+    // axis by `height`, one em wide and centred on the origin.
+    if (content.styles[item.fontName]?.vertical) {
+      const down = { x: -tx[2] / (fontHeight || 1), y: -tx[3] / (fontHeight || 1) }
+      const corners = [-0.5, 0.5].flatMap((side) => [0, item.height].map((along) => ({
+        x: tx[4] + tx[0] * side + down.x * along,
+        y: tx[5] + tx[1] * side + down.y * along,
+      })))
+      hits.push({
+        x: Math.max(...corners.map((c) => c.x)),
+        top: Math.min(...corners.map((c) => c.y)),
+        bottom: Math.max(...corners.map((c) => c.y)),
+        // On a page turned a quarter, the column runs across the display
+        vertical: Math.abs(down.y) >= Math.abs(down.x),
+      })
+      continue
+    }
+
+    // Fallback: a horizontal run whose x-axis points up/down the display
+    const vertical = Math.abs(tx[1]) > Math.abs(tx[0])
+    hits.push({
+      x: tx[4] + (vertical ? fontHeight : 0),
+      top: tx[5] - fontHeight,
+      bottom: tx[5],
+      vertical,
+    })
+  }
+
+  return hits
+}
+
+/**
+ * Rasterise the page and return y (resp. x) positions, in PDF points, of rows
+ * (columns) that are mostly dark — i.e. ruled lines or the edge of a filled box.
+ */
+async function findRules(
+  page: PDFPageProxy,
+  pageWidth: number,
+  rotation?: number
+): Promise<{ horizontal: number[]; vertical: number[] }> {
+  const scale = RASTER_WIDTH / pageWidth
+  const viewport = page.getViewport({ scale, rotation })
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(viewport.width)
+  canvas.height = Math.round(viewport.height)
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) return { horizontal: [], vertical: [] }
+
+  ctx.fillStyle = '#fff'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  // Render through our context (willReadFrequently); pdfjs wants canvas null then
+  await page.render({ canvasContext: ctx, canvas: null, viewport }).promise
+
+  const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  const dark = (i: number) => (data[i] + data[i + 1] + data[i + 2]) / 3 < DARK_THRESHOLD
+
+  const horizontal: number[] = []
+  for (let y = Math.floor(height * (1 - MAX_BAND_RATIO)); y < height - 2; y++) {
+    let run = 0
+    let longest = 0
+    for (let x = 0; x < width; x++) {
+      run = dark((y * width + x) * 4) ? run + 1 : 0
+      if (run > longest) longest = run
+    }
+    if (longest >= width * LINE_COVERAGE) horizontal.push(y / scale)
+  }
+
+  const vertical: number[] = []
+  for (let x = 2; x < Math.floor(width * MAX_LEFT_RATIO); x++) {
+    let run = 0
+    let longest = 0
+    for (let y = 0; y < height; y++) {
+      run = dark((y * width + x) * 4) ? run + 1 : 0
+      if (run > longest) longest = run
+    }
+    if (longest >= height * LINE_COVERAGE) vertical.push(x / scale)
+  }
+
+  canvas.width = 0
+  canvas.height = 0
+
+  return {
+    horizontal: collapseAdjacent(horizontal, 2 / scale),
+    vertical: collapseAdjacent(vertical, 2 / scale),
+  }
+}
+
+// Thick rules span several raster rows; keep the first (top / left) row of each run.
+function collapseAdjacent(values: number[], gap: number): number[] {
+  const out: number[] = []
+  let prev = -Infinity
+  for (const v of values) {
+    if (v - prev > gap) out.push(v)
+    prev = v
+  }
+  return out
+}
@@ -0,0 +1,50 @@
+import type { Block } from '@/lib/database.types'
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom'
+export type DistributeAxis = 'horizontal' | 'vertical'
+
+/** Align the blocks in `ids` to the bounding box of the selection. */
+export function alignBlocks(blocks: Block[], ids: string[], mode: AlignMode): Block[] {
+  const targets = blocks.filter((b) => ids.includes(b.id))
+  if (targets.length < 2) return blocks
+
+  const left = Math.min(...targets.map((b) => b.x))
+  const right = Math.max(...targets.map((b) => b.x + b.width))
+  const top = Math.min(...targets.map((b) => b.y))
+  const bottom = Math.max(...targets.map((b) => b.y + b.height))
+
+  return blocks.map((b) => {
+    if (!ids.includes(b.id)) return b
+    switch (mode) {
+      case 'left': return { ...b, x: left }
+      case 'center': return { ...b, x: (left + right) / 2 - b.width / 2 }
+      case 'right': return { ...b, x: right - b.width }
+      case 'top': return { ...b, y: top }
+      case 'middle': return { ...b, y: (top + bottom) / 2 - b.height / 2 }
+      case 'bottom': return { ...b, y: bottom - b.height }
+    }
+  })
+}
+
+/** Space the blocks in `ids` with equal gaps between the outermost two. */
+export function distributeBlocks(blocks: Block[], ids: string[], axis: DistributeAxis): Block[] {
+  const pos = axis === 'horizontal' ? 'x' : 'y'
+  const size = axis === 'horizontal' ? 'width' : 'height'
+  const targets = blocks.filter((b) => ids.includes(b.id)).sort((a, b) => a[pos] - b[pos])
+  if (targets.length < 3) return blocks
+
+  const first = targets[0]
+  const last = targets[targets.length - 1]
+  const span = last[pos] + last[size] - first[pos]
+  const occupied = targets.reduce((sum, b) => sum + b[size], 0)
+  const gap = (span - occupied) / (targets.length - 1)
+
+  const next = new Map<string, number>()
+  let cursor = first[pos]
+  for (const b of targets) {
+    next.set(b.id, cursor)
+    cursor += b[size] + gap
+  }
+
+  return blocks.map((b) => (next.has(b.id) ? { ...b, [pos]: next.get(b.id)! } : b))
+}
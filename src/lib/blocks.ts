@@ -0,0 +1,197 @@
+import type {
+  Block,
+  CompanyFont,
+  CompanyProfile,
+  CustomFieldBlock,
+  CustomProfileField,
+  FreeTextBlock,
+  ImageBlock,
+  Json,
+  QrBlock,
+  ShapeBlock,
+  TextBlock,
+} from '@/lib/database.types'
+
+// 文字を描画するブロック（会社情報・自由テキスト・カスタム項目）
+export type TextualBlock = TextBlock | FreeTextBlock | CustomFieldBlock
+
+export const TEXT_FIELD_LABELS: Record<TextBlock['field'], string> = {
+  company_name: '会社名',
+  address: '住所',
+  phone: '電話番号',
+  fax: 'FAX',
+  email: 'メール',
+  contact_person: '担当者',
+  license_number: '免許番号',
+  fee_ratio_landlord: '貸主負担',
+  fee_ratio_tenant: '借主負担',
+  fee_distribution_motoduke: '元付配分',
+  fee_distribution_kyakuzuke: '客付配分',
+}
+
+export const IMAGE_FIELD_LABELS: Record<ImageBlock['field'], string> = {
+  logo: 'ロゴ',
+  line_qr: 'LINE QR',
+}
+
+export const FEE_LABELS: Record<string, string> = {
+  fee_ratio_landlord: '貸主負担',
+  fee_ratio_tenant: '借主負担',
+  fee_distribution_motoduke: '元付配分',
+  fee_distribution_kyakuzuke: '客付配分',
+}
+
+export const QR_FIELD_LABELS: Record<QrBlock['field'], string> = {
+  line: 'LINE友だち追加',
+  listing: '物件ページ',
+  proposal: '提案ページ',
+  url: '任意のURL',
+}
+
+/**
+ * URLs only known at publish time: each page's listing page (`/p/[slug]`)
+ * and the proposal page bundling them. Missing entries leave those QR blocks
+ * out of the output.
+ */
+export interface QrTargets {
+  listingUrls?: { [pageId: string]: string }
+  proposalUrl?: string
+}
+
+export function isTextualBlock(block: Block): block is TextualBlock {
+  return block.type === 'text' || block.type === 'free_text' || block.type === 'custom_field'
+}
+
+export function parseCustomFields(raw: Json | undefined): CustomProfileField[] {
+  if (!Array.isArray(raw)) return []
+  return raw.flatMap((item) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return []
+    const { key, label, value } = item as Record<string, Json | undefined>
+    if (typeof key !== 'string' || !key) return []
+    return [{
+      key,
+      label: typeof label === 'string' ? label : '',
+      value: typeof value === 'string' ? value : '',
+    }]
+  })
+}
+
+export function parseCustomFonts(raw: Json | undefined): CompanyFont[] {
+  if (!Array.isArray(raw)) return []
+  return raw.flatMap((item) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return []
+    const { id, name, path, url } = item as Record<string, Json | undefined>
+    if (typeof id !== 'string' || !id || typeof path !== 'string' || !path) return []
+    return [{ id, name: typeof name === 'string' ? name : id, path, url: typeof url === 'string' ? url : '' }]
+  })
+}
+
+/** The company font a block is set in, or null for the bundled Noto Sans JP. */
+export function blockFont(block: TextualBlock, fonts: CompanyFont[]): CompanyFont | null {
+  if (!block.fontFamily) return null
+  return fonts.find((f) => f.id === block.fontFamily) ?? null
+}
+
+/** The string a textual block prints, or null when there is nothing to print. */
+export function blockTextContent(block: TextualBlock, companyProfile: CompanyProfile | null): string | null {
+  if (block.type === 'free_text') return block.text || null
+
+  if (block.type === 'custom_field') {
+    const field = parseCustomFields(companyProfile?.custom_fields).find((f) => f.key === block.field)
+    return field?.value || null
+  }
+
+  if (!companyProfile) return null
+  if (block.field.startsWith('fee_')) {
+    const value = companyProfile[block.field as keyof CompanyProfile] as number | null
+    if (value === null || value === undefined) return null
+    return `${FEE_LABELS[block.field] || block.field}: ${value}%`
+  }
+  return (companyProfile[block.field as keyof CompanyProfile] as string) || null
+}
+
+/** The URL a QR block encodes on `pageId`, or null when there is nothing to encode yet. */
+export function qrBlockContent(
+  block: QrBlock,
+  companyProfile: CompanyProfile | null,
+  pageId: string,
+  targets: QrTargets = {}
+): string | null {
+  switch (block.field) {
+    case 'line':
+      return companyProfile?.line_url?.trim() || null
+    case 'listing':
+      return targets.listingUrls?.[pageId] ?? null
+    case 'proposal':
+      return targets.proposalUrl ?? null
+    default:
+      return block.url?.trim() || null
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 追加用ブロックの生成（座標はプレビューのピクセル）
+// ---------------------------------------------------------------------------
+
+function blockId(field: string): string {
+  return `block-${field}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`
+}
+
+export function createFreeTextBlock(x: number, y: number, text = 'テキスト'): FreeTextBlock {
+  return {
+    id: blockId('free_text'),
+    type: 'free_text',
+    field: 'free_text',
+    text,
+    x,
+    y,
+    width: 160,
+    height: 20,
+    fontSize: 12,
+    fontWeight: 'normal',
+    textAlign: 'left',
+    wrap: true,
+  }
+}
+
+export function createCustomFieldBlock(x: number, y: number, key: string): CustomFieldBlock {
+  return {
+    id: blockId(key),
+    type: 'custom_field',
+    field: key,
+    x,
+    y,
+    width: 160,
+    height: 20,
+    fontSize: 11,
+    fontWeight: 'normal',
+    textAlign: 'left',
+  }
+}
+
+export function createShapeBlock(x: number, y: number, kind: ShapeBlock['field']): ShapeBlock {
+  return {
+    id: blockId(kind),
+    type: 'shape',
+    field: kind,
+    x,
+    y,
+    width: kind === 'line' ? 200 : 160,
+    height: kind === 'line' ? 6 : 60,
+    strokeColor: '#000000',
+    strokeWidth: 1,
+    fillColor: null,
+  }
+}
+
+export function createQrBlock(x: number, y: number, kind: QrBlock['field']): QrBlock {
+  return {
+    id: blockId(`qr_${kind}`),
+    type: 'qr',
+    field: kind,
+    x,
+    y,
+    width: 72,
+    height: 72,
+  }
+}
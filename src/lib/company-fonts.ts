@@ -0,0 +1,37 @@
+/**
+ * Company fonts live in the private `fonts` bucket under the owner's folder.
+ * `custom_fonts` stores each font's object path; the URL the preview, the
+ * preflight and the PDF generator fetch from is a signed URL filled in when
+ * the profile is loaded (`withSignedFontUrls`).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CompanyFont, Json } from '@/lib/database.types'
+import { parseCustomFonts } from '@/lib/blocks'
+
+export const FONTS_BUCKET = 'fonts'
+
+// Long enough for an editing session; the editor signs again on the next load
+const SIGNED_URL_TTL_SECONDS = 12 * 60 * 60
+
+/** The profile with each font's `url` set to a signed URL (empty when signing failed). */
+export async function withSignedFontUrls<T extends { custom_fonts: Json }>(
+  supabase: SupabaseClient,
+  profile: T
+): Promise<T> {
+  const fonts = parseCustomFonts(profile.custom_fonts)
+  if (fonts.length === 0) return profile
+
+  const { data, error } = await supabase.storage
+    .from(FONTS_BUCKET)
+    .createSignedUrls(fonts.map((font) => font.path), SIGNED_URL_TTL_SECONDS)
+  if (error) console.error('[company-fonts] signing failed:', error.message)
+
+  const signed = fonts.map((font, i) => ({ ...font, url: data?.[i]?.signedUrl ?? '' }))
+  return { ...profile, custom_fonts: signed as unknown as Json }
+}
+
+/** `custom_fonts` as stored: the signed URLs are not persisted. */
+export function toStoredFonts(fonts: CompanyFont[]): Json {
+  return fonts.map(({ id, name, path }) => ({ id, name: name.trim() || id, path }))
+}
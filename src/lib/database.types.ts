@@ -22,12 +22,17 @@ export interface Database {
           license_number: string
           logo_url: string | null
           line_qr_url: string | null
+          line_url: string | null
           fee_ratio_landlord: number | null
           fee_ratio_tenant: number | null
           fee_distribution_motoduke: number | null
           fee_distribution_kyakuzuke: number | null
           slug: string | null
           ga_measurement_id: string | null
+          default_template_id: string | null
+          custom_fields: Json
+          custom_fonts: Json
+          block_publish_on_preflight_errors: boolean
           created_at: string
           updated_at: string
         }
@@ -43,12 +48,17 @@ export interface Database {
           license_number: string
           logo_url?: string | null
           line_qr_url?: string | null
+          line_url?: string | null
           fee_ratio_landlord?: number | null
           fee_ratio_tenant?: number | null
           fee_distribution_motoduke?: number | null
           fee_distribution_kyakuzuke?: number | null
           slug?: string | null
           ga_measurement_id?: string | null
+          default_template_id?: string | null
+          custom_fields?: Json
+          custom_fonts?: Json
+          block_publish_on_preflight_errors?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -64,12 +74,49 @@ export interface Database {
           license_number?: string
           logo_url?: string | null
           line_qr_url?: string | null
+          line_url?: string | null
           fee_ratio_landlord?: number | null
           fee_ratio_tenant?: number | null
           fee_distribution_motoduke?: number | null
           fee_distribution_kyakuzuke?: number | null
           slug?: string | null
           ga_measurement_id?: string | null
+          default_template_id?: string | null
+          custom_fields?: Json
+          custom_fonts?: Json
+          block_publish_on_preflight_errors?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      editor_drafts: {
+        Row: {
+          id: string
+          user_id: string
+          session_id: string | null
+          title: string
+          page_count: number
+          state: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          session_id?: string | null
+          title: string
+          page_count?: number
+          state?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          session_id?: string | null
+          title?: string
+          page_count?: number
+          state?: Json
           created_at?: string
           updated_at?: string
         }
@@ -80,6 +127,7 @@ export interface Database {
           user_id: string
           name: string
           blocks: Json
+          mask: Json | null
           created_at: string
           updated_at: string
         }
@@ -88,6 +136,7 @@ export interface Database {
           user_id: string
           name: string
           blocks: Json
+          mask?: Json | null
           created_at?: string
           updated_at?: string
         }
@@ -96,6 +145,7 @@ export interface Database {
           user_id?: string
           name?: string
           blocks?: Json
+          mask?: Json | null
           created_at?: string
           updated_at?: string
         }
@@ -205,6 +255,187 @@ export interface Database {
           created_at?: string
         }
       }
+      print_links: {
+        Row: {
+          id: string
+          code: string
+          user_id: string
+          listing_id: string
+          batch_id: string
+          channel: 'web' | 'print'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          code: string
+          user_id: string
+          listing_id: string
+          batch_id: string
+          channel?: 'web' | 'print'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          code?: string
+          user_id?: string
+          listing_id?: string
+          batch_id?: string
+          channel?: 'web' | 'print'
+          created_at?: string
+        }
+      }
+      print_scans: {
+        Row: {
+          id: string
+          link_id: string
+          listing_id: string | null
+          user_agent: string | null
+          ts: string
+        }
+        Insert: {
+          id?: string
+          link_id: string
+          listing_id?: string | null
+          user_agent?: string | null
+          ts?: string
+        }
+        Update: {
+          id?: string
+          link_id?: string
+          listing_id?: string | null
+          user_agent?: string | null
+          ts?: string
+        }
+      }
+      reins_fetch_jobs: {
+        Row: {
+          id: string
+          user_id: string
+          status: 'queued' | 'running' | 'done' | 'failed'
+          error: string | null
+          error_code: string | null
+          locked_until: string | null
+          force_refresh: boolean
+          created_at: string
+          updated_at: string
+          finished_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          status?: 'queued' | 'running' | 'done' | 'failed'
+          error?: string | null
+          error_code?: string | null
+          locked_until?: string | null
+          force_refresh?: boolean
+          created_at?: string
+          updated_at?: string
+          finished_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          status?: 'queued' | 'running' | 'done' | 'failed'
+          error?: string | null
+          error_code?: string | null
+          locked_until?: string | null
+          force_refresh?: boolean
+          created_at?: string
+          updated_at?: string
+          finished_at?: string | null
+        }
+      }
+      reins_fetch_items: {
+        Row: {
+          id: string
+          job_id: string
+          position: number
+          reins_id: string
+          status: 'pending' | 'running' | 'success' | 'not_found' | 'error'
+          attempts: number
+          source: 'upload' | 'url' | 'platform' | 'reins' | null
+          files: string[]
+          maisoku_url: string | null
+          platform_id: string | null
+          upload_path: string | null
+          error: string | null
+          error_code: string | null
+          cached_at: string | null
+          changed: boolean
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          position: number
+          reins_id: string
+          status?: 'pending' | 'running' | 'success' | 'not_found' | 'error'
+          attempts?: number
+          source?: 'upload' | 'url' | 'platform' | 'reins' | null
+          files?: string[]
+          maisoku_url?: string | null
+          platform_id?: string | null
+          upload_path?: string | null
+          error?: string | null
+          error_code?: string | null
+          cached_at?: string | null
+          changed?: boolean
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          position?: number
+          reins_id?: string
+          status?: 'pending' | 'running' | 'success' | 'not_found' | 'error'
+          attempts?: number
+          source?: 'upload' | 'url' | 'platform' | 'reins' | null
+          files?: string[]
+          maisoku_url?: string | null
+          platform_id?: string | null
+          upload_path?: string | null
+          error?: string | null
+          error_code?: string | null
+          cached_at?: string | null
+          changed?: boolean
+          updated_at?: string
+        }
+      }
+      maisoku_cache: {
+        Row: {
+          source: 'url' | 'platform' | 'reins'
+          source_key: string
+          files: string[]
+          content_hash: string
+          previous_hash: string | null
+          fetched_at: string
+          changed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          source: 'url' | 'platform' | 'reins'
+          source_key: string
+          files?: string[]
+          content_hash: string
+          previous_hash?: string | null
+          fetched_at?: string
+          changed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          source?: 'url' | 'platform' | 'reins'
+          source_key?: string
+          files?: string[]
+          content_hash?: string
+          previous_hash?: string | null
+          fetched_at?: string
+          changed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
       swipe_results: {
         Row: {
           id: string
@@ -286,7 +517,14 @@ export interface Database {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      resolve_print_link: {
+        Args: { p_code: string; p_user_agent: string | null; p_record_scan: boolean }
+        Returns: { slug: string; batch_id: string; channel: 'web' | 'print' }[]
+      }
+      print_scan_stats: {
+        Args: { p_listing_ids: string[] }
+        Returns: { listing_id: string; total: number; print: number; last_scanned_at: string | null }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -299,35 +537,94 @@ export type CompanyProfile = Database['public']['Tables']['company_profiles']['R
 export type CompanyProfileInsert = Database['public']['Tables']['company_profiles']['Insert']
 export type CompanyProfileUpdate = Database['public']['Tables']['company_profiles']['Update']
 
+export type EditorDraft = Database['public']['Tables']['editor_drafts']['Row']
+export type EditorDraftInsert = Database['public']['Tables']['editor_drafts']['Insert']
+
 export type LayoutTemplate = Database['public']['Tables']['layout_templates']['Row']
 export type LayoutTemplateInsert = Database['public']['Tables']['layout_templates']['Insert']
 export type LayoutTemplateUpdate = Database['public']['Tables']['layout_templates']['Update']
 
 // ブロックの型定義
-export interface TextBlock {
+interface BlockGeometry {
   id: string
-  type: 'text'
-  field: 'company_name' | 'address' | 'phone' | 'fax' | 'email' | 'contact_person' | 'license_number' | 'fee_ratio_landlord' | 'fee_ratio_tenant' | 'fee_distribution_motoduke' | 'fee_distribution_kyakuzuke'
   x: number
   y: number
   width: number
   height: number
+}
+
+interface BlockTextStyle {
   fontSize: number
   fontWeight: 'normal' | 'bold'
   textAlign: 'left' | 'center' | 'right'
+  wrap?: boolean  // ブロック幅で折り返す（未設定 = 1行）
+  autoFit?: boolean  // はみ出す場合にフォントを縮小
+  lineHeight?: number  // 行間（フォントサイズに対する倍率、既定 1.2）
+  writingMode?: 'horizontal' | 'vertical'  // 縦書きは右の列から左へ
+  textColor?: string  // #rrggbb（未設定 = 黒）
+  backgroundColor?: string | null  // null / 未設定 = 背景なし
+  borderColor?: string
+  borderWidth?: number  // 0 / 未設定 = 枠線なし
+  fontFamily?: string  // CompanyFont.id（未設定・削除済み = Noto Sans JP）
 }
 
-export interface ImageBlock {
-  id: string
+export interface TextBlock extends BlockGeometry, BlockTextStyle {
+  type: 'text'
+  field: 'company_name' | 'address' | 'phone' | 'fax' | 'email' | 'contact_person' | 'license_number' | 'fee_ratio_landlord' | 'fee_ratio_tenant' | 'fee_distribution_motoduke' | 'fee_distribution_kyakuzuke'
+}
+
+export interface ImageBlock extends BlockGeometry {
   type: 'image'
   field: 'logo' | 'line_qr'
-  x: number
-  y: number
-  width: number
-  height: number
 }
 
-export type Block = TextBlock | ImageBlock
+// 自由入力テキスト（キャンペーン文言など）
+export interface FreeTextBlock extends BlockGeometry, BlockTextStyle {
+  type: 'free_text'
+  field: 'free_text'
+  text: string
+}
+
+// ユーザー定義のカスタム項目（field = CustomProfileField.key）
+export interface CustomFieldBlock extends BlockGeometry, BlockTextStyle {
+  type: 'custom_field'
+  field: string
+}
+
+// 線・枠
+export interface ShapeBlock extends BlockGeometry {
+  type: 'shape'
+  field: 'line' | 'box'
+  strokeColor: string  // #rrggbb
+  strokeWidth: number
+  fillColor: string | null  // 枠の塗り（null = 塗りなし）
+}
+
+// QRコード（ベクターで描画）
+// line = 会社情報の LINE 友だち追加URL、listing = 公開した物件ページ、proposal = 提案ページ、url = 任意のURL
+export interface QrBlock extends BlockGeometry {
+  type: 'qr'
+  field: 'line' | 'listing' | 'proposal' | 'url'
+  url?: string  // field = 'url' のときのURL
+  color?: string  // #rrggbb（未設定 = 黒）
+}
+
+export type Block = TextBlock | ImageBlock | FreeTextBlock | CustomFieldBlock | ShapeBlock | QrBlock
+
+// company_profiles.custom_fields の要素
+export interface CustomProfileField {
+  key: string
+  label: string
+  value: string
+}
+
+// company_profiles.custom_fonts の要素（path は非公開の fonts バケット内のパス。url は読み込み時に発行する署名付きURLで保存しない）
+export interface CompanyFont {
+  id: string
+  name: string
+  path: string
+  url: string
+}
 
 export type PublishedListing = Database['public']['Tables']['published_listings']['Row']
 export type PublishedListingInsert = Database['public']['Tables']['published_listings']['Insert']
@@ -336,6 +633,15 @@ export type PublishedPageInsert = Database['public']['Tables']['published_pages'
 
 export type ProposalSet = Database['public']['Tables']['proposal_sets']['Row']
 export type ProposalSetInsert = Database['public']['Tables']['proposal_sets']['Insert']
+
+export type PrintLink = Database['public']['Tables']['print_links']['Row']
+export type PrintLinkInsert = Database['public']['Tables']['print_links']['Insert']
+export type PrintScan = Database['public']['Tables']['print_scans']['Row']
+
+export type ReinsFetchJob = Database['public']['Tables']['reins_fetch_jobs']['Row']
+export type ReinsFetchItem = Database['public']['Tables']['reins_fetch_items']['Row']
+export type MaisokuCacheEntry = Database['public']['Tables']['maisoku_cache']['Row']
+
 export type SwipeResult = Database['public']['Tables']['swipe_results']['Row']
 export type SwipeResultInsert = Database['public']['Tables']['swipe_results']['Insert']
 export type SwipeEvent = Database['public']['Tables']['swipe_events']['Row']
@@ -0,0 +1,99 @@
+/**
+ * Undo / redo for the preview editor. Every edit is recorded as a command
+ * holding the affected pages' blocks and masks before and after the change;
+ * undo re-applies `before`, redo re-applies `after`.
+ *
+ * Rapid edits with the same merge key (a drag emitting one change per
+ * mousemove, typing into a property field) collapse into a single command.
+ */
+
+import type { Block } from '@/lib/database.types'
+import type { MaskSettings } from '@/types/editor'
+
+export type PageBlocks = { [pageId: string]: Block[] }
+export type PageMasks = { [pageId: string]: MaskSettings }
+
+export interface EditSnapshot {
+  blocks?: PageBlocks
+  masks?: PageMasks
+}
+
+export interface EditCommand {
+  label: string
+  before: EditSnapshot
+  after: EditSnapshot
+  mergeKey?: string
+  /** ms timestamp of the latest change folded into this command */
+  at: number
+}
+
+export interface EditHistory {
+  undo: EditCommand[]
+  redo: EditCommand[]
+}
+
+export const EMPTY_HISTORY: EditHistory = { undo: [], redo: [] }
+
+const MAX_HISTORY = 100
+const MERGE_WINDOW_MS = 1000
+
+// Earlier `before` wins (it is the state prior to the whole merged run)
+function mergeBefore(first: EditSnapshot, second: EditSnapshot): EditSnapshot {
+  return {
+    blocks: first.blocks || second.blocks ? { ...second.blocks, ...first.blocks } : undefined,
+    masks: first.masks || second.masks ? { ...second.masks, ...first.masks } : undefined,
+  }
+}
+
+// Later `after` wins
+function mergeAfter(first: EditSnapshot, second: EditSnapshot): EditSnapshot {
+  return {
+    blocks: first.blocks || second.blocks ? { ...first.blocks, ...second.blocks } : undefined,
+    masks: first.masks || second.masks ? { ...first.masks, ...second.masks } : undefined,
+  }
+}
+
+/** Push a command, folding it into the previous one when the merge keys match. Clears redo. */
+export function recordCommand(history: EditHistory, command: EditCommand): EditHistory {
+  const last = history.undo[history.undo.length - 1]
+  if (
+    last &&
+    command.mergeKey &&
+    last.mergeKey === command.mergeKey &&
+    command.at - last.at <= MERGE_WINDOW_MS
+  ) {
+    const merged: EditCommand = {
+      ...last,
+      before: mergeBefore(last.before, command.before),
+      after: mergeAfter(last.after, command.after),
+      at: command.at,
+    }
+    return { undo: [...history.undo.slice(0, -1), merged], redo: [] }
+  }
+
+  return { undo: [...history.undo, command].slice(-MAX_HISTORY), redo: [] }
+}
+
+// After undo / redo the next edit must start a fresh command, never merge into an older one
+function sealLast(commands: EditCommand[]): EditCommand[] {
+  const last = commands[commands.length - 1]
+  return last?.mergeKey ? [...commands.slice(0, -1), { ...last, mergeKey: undefined }] : commands
+}
+
+export function undoCommand(history: EditHistory): { history: EditHistory; command: EditCommand } | null {
+  const command = history.undo[history.undo.length - 1]
+  if (!command) return null
+  return {
+    history: { undo: sealLast(history.undo.slice(0, -1)), redo: [...history.redo, command] },
+    command,
+  }
+}
+
+export function redoCommand(history: EditHistory): { history: EditHistory; command: EditCommand } | null {
+  const command = history.redo[history.redo.length - 1]
+  if (!command) return null
+  return {
+    history: { undo: sealLast([...history.undo, command]), redo: history.redo.slice(0, -1) },
+    command,
+  }
+}
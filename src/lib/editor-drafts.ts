@@ -0,0 +1,229 @@
+/**
+ * Editor drafts — autosaved editor state that survives a closed tab.
+ *
+ * The state (pages, masks, block placement) goes to the `editor_drafts` table;
+ * the PDF bytes are too large for a row and stay in IndexedDB via pdf-store
+ * under `draft:<id>`. A draft therefore lists everywhere but only resumes in
+ * the browser that wrote it.
+ *
+ * Block coordinates are preview pixels against `pageDimensions`; the preview
+ * rescales them on load when the window (and so the page scale) differs.
+ *
+ * A draft is deleted once its work is exported or published. Otherwise only
+ * the newest MAX_DRAFTS drafts, none older than DRAFT_RETENTION_DAYS, are kept;
+ * `pruneDrafts` runs with the first autosave of a page load and also drops
+ * this browser's PDF bytes whose draft no longer exists.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type { EditorDraft, Json } from '@/lib/database.types'
+import type { PageBlocks } from '@/lib/edit-history'
+import type { PageSize } from '@/lib/layout-templates'
+import { clearPdfs, getPdfs, hasPdfs, listPdfKeys, putPdfs } from '@/lib/pdf-store'
+import type { PageInfo, PageMaskDetections, PageMaskSettings } from '@/types/editor'
+
+export type DraftStep = 'edit' | 'preview'
+
+/** Everything needed to put the editor back where it was. */
+export interface EditorDraftSnapshot {
+  step: DraftStep
+  selectedPageId: string | null
+  pages: PageInfo[]
+  maskSettings: PageMaskSettings
+  maskDetections: PageMaskDetections
+  /** Pages whose mask was adjusted by hand (auto-detection must not overwrite them) */
+  editedMaskPageIds: string[]
+  blocks: PageBlocks
+  pageDimensions: { [pageId: string]: PageSize }
+  pendingBlocks: PageBlocks
+}
+
+/** Stored form: pages without bytes, plus the file order of the IndexedDB entry. */
+interface StoredDraftState extends Omit<EditorDraftSnapshot, 'pages'> {
+  fileIds: string[]
+  pages: Omit<PageInfo, 'pdfData'>[]
+}
+
+export interface DraftSummary {
+  id: string
+  title: string
+  pageCount: number
+  sessionId: string | null
+  updatedAt: string
+  /** PDF bytes are present in this browser */
+  resumable: boolean
+}
+
+const PDF_KEY_PREFIX = 'draft:'
+const pdfKey = (id: string) => `${PDF_KEY_PREFIX}${id}`
+
+export const MAX_DRAFTS = 10
+export const DRAFT_RETENTION_DAYS = 30
+
+let pruned = false
+
+// Files already written per draft, so autosave only rewrites the bytes when pages were added
+const savedFileSets = new Map<string, string>()
+
+function draftTitle(pages: PageInfo[]): string {
+  const names = Array.from(new Set(pages.map((p) => p.fileName)))
+  if (names.length === 0) return '無題の下書き'
+  return names.length === 1 ? names[0] : `${names[0]} 他${names.length - 1}件`
+}
+
+export async function saveDraft(
+  id: string,
+  snapshot: EditorDraftSnapshot,
+  options: { sessionId?: string | null; title?: string } = {}
+): Promise<void> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('ログインが必要です')
+
+  const files = new Map<string, Uint8Array>()
+  for (const page of snapshot.pages) {
+    if (!files.has(page.fileId)) files.set(page.fileId, page.pdfData)
+  }
+  const fileIds = Array.from(files.keys())
+  const fileSet = fileIds.join('\n')
+  if (savedFileSets.get(id) !== fileSet) {
+    await putPdfs(pdfKey(id), Array.from(files.values()))
+    savedFileSets.set(id, fileSet)
+  }
+
+  const state: StoredDraftState = {
+    ...snapshot,
+    fileIds,
+    pages: snapshot.pages.map((page) => {
+      const { pdfData, ...rest } = page
+      void pdfData
+      return rest
+    }),
+  }
+
+  const { error } = await supabase.from('editor_drafts').upsert({
+    id,
+    user_id: user.id,
+    session_id: options.sessionId ?? null,
+    title: options.title ?? draftTitle(snapshot.pages),
+    page_count: snapshot.pages.length,
+    state: state as unknown as Json,
+  })
+  if (error) throw new Error(error.message)
+
+  if (!pruned) {
+    pruned = true
+    await pruneDrafts(user.id).catch((err) => console.error('[editor-drafts] prune failed:', err))
+  }
+}
+
+/**
+ * Delete the user's drafts beyond the newest MAX_DRAFTS or older than
+ * DRAFT_RETENTION_DAYS, and the IndexedDB bytes of drafts that are gone.
+ */
+export async function pruneDrafts(userId: string): Promise<void> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('editor_drafts')
+    .select('id, updated_at')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+  if (error) throw new Error(error.message)
+
+  const cutoff = Date.now() - DRAFT_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  const rows = (data ?? []) as Pick<EditorDraft, 'id' | 'updated_at'>[]
+  const expired = rows.filter((row, i) => i >= MAX_DRAFTS || new Date(row.updated_at).getTime() < cutoff)
+  if (expired.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('editor_drafts')
+      .delete()
+      .in('id', expired.map((row) => row.id))
+    if (deleteError) throw new Error(deleteError.message)
+  }
+
+  const kept = new Set(rows.filter((row) => !expired.includes(row)).map((row) => pdfKey(row.id)))
+  for (const key of await listPdfKeys(PDF_KEY_PREFIX)) {
+    if (!kept.has(key)) await clearPdfs(key)
+  }
+}
+
+export async function loadDraft(id: string): Promise<EditorDraftSnapshot> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('editor_drafts')
+    .select('state')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw new Error(error.message)
+  if (!data) throw new Error('下書きが見つかりません')
+
+  const state = data.state as unknown as StoredDraftState
+  const bytes = await getPdfs(pdfKey(id))
+  if (!bytes || bytes.length !== state.fileIds.length) {
+    throw new Error('このブラウザにはこの下書きのPDFデータがありません')
+  }
+
+  const byFile = new Map(state.fileIds.map((fileId, i) => [fileId, bytes[i]]))
+  savedFileSets.set(id, state.fileIds.join('\n'))
+
+  return {
+    ...state,
+    pages: state.pages.map((page) => ({ ...page, pdfData: byFile.get(page.fileId)! })),
+  }
+}
+
+export async function listDrafts(limit = 10): Promise<DraftSummary[]> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return []
+
+  const { data, error } = await supabase
+    .from('editor_drafts')
+    .select('id, title, page_count, session_id, updated_at')
+    .eq('user_id', user.id)
+    .order('updated_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw new Error(error.message)
+
+  const rows = (data ?? []) as Pick<EditorDraft, 'id' | 'title' | 'page_count' | 'session_id' | 'updated_at'>[]
+  return Promise.all(
+    rows.map(async (row) => ({
+      id: row.id,
+      title: row.title,
+      pageCount: row.page_count,
+      sessionId: row.session_id,
+      updatedAt: row.updated_at,
+      resumable: await hasPdfs(pdfKey(row.id)).catch(() => false),
+    }))
+  )
+}
+
+/**
+ * The draft tied to an obikae popup session. `resumable` is false when it was
+ * saved in another browser; the caller still reuses the id (one draft per session).
+ */
+export async function findSessionDraft(
+  sessionId: string
+): Promise<Pick<DraftSummary, 'id' | 'resumable'> | null> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('editor_drafts')
+    .select('id')
+    .eq('session_id', sessionId)
+    .maybeSingle()
+
+  if (error) throw new Error(error.message)
+  if (!data) return null
+  return { id: data.id, resumable: await hasPdfs(pdfKey(data.id)) }
+}
+
+export async function deleteDraft(id: string): Promise<void> {
+  const supabase = createClient()
+  const { error } = await supabase.from('editor_drafts').delete().eq('id', id)
+  if (error) throw new Error(error.message)
+
+  savedFileSets.delete(id)
+  await clearPdfs(pdfKey(id))
+}
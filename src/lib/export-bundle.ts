@@ -0,0 +1,114 @@
+/**
+ * Export bundles besides the merged PDF: per-page images and one PDF per
+ * property, each packed into a ZIP.
+ *
+ * Input is the generator's output, which holds one page per masked page in
+ * editor order, so `outputPages` (the masked pages) maps 1:1 onto it.
+ * Properties follow the listing breaks of the page list (`groupIntoListings`)
+ * and are named after their source file: the property name / REINS ID for
+ * maisoku fetched from REINS, the upload's name otherwise.
+ */
+
+import { PDFDocument } from 'pdf-lib'
+import { groupIntoListings } from '@/lib/page-groups'
+import type { ImageFormat, RenderImageOptions } from '@/lib/pdf-to-images'
+import { renderPdfToImagesInWorker, type PdfJobOptions } from '@/lib/pdf-worker'
+import { createZip, uniqueEntryNames, type ZipEntry } from '@/lib/zip'
+import type { PageInfo } from '@/types/editor'
+
+export type ExportKind = 'pdf' | 'images' | 'line' | 'property_pdfs'
+
+export interface ExportRequest {
+  kind: ExportKind
+  /** Resolution of `images` exports */
+  dpi: number
+  format: ImageFormat
+}
+
+export const DEFAULT_EXPORT_REQUEST: ExportRequest = { kind: 'pdf', dpi: 150, format: 'image/png' }
+
+export const EXPORT_DPI_OPTIONS = [72, 150, 200, 300]
+
+/**
+ * Sized for sending in a LINE chat: LINE re-compresses larger photos, and a
+ * 1,600px JPEG keeps small print legible on a phone at a few hundred KB.
+ */
+export const LINE_IMAGE_PRESET: RenderImageOptions & { dpi: number } = {
+  dpi: 200,
+  format: 'image/jpeg',
+  quality: 0.85,
+  maxLongSide: 1600,
+}
+
+const IMAGE_EXTENSIONS: Record<ImageFormat, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+}
+
+const POINTS_PER_INCH = 72
+
+/** File-system safe property name from the group's first page. */
+export function propertyFileName(pages: PageInfo[]): string {
+  const base = (pages[0]?.fileName ?? '').replace(/\.[a-z0-9]+$/i, '')
+  return base.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').trim() || '物件'
+}
+
+/** Output page indexes per property, in output order. */
+function propertyGroups(outputPages: PageInfo[]): { name: string; indexes: number[] }[] {
+  const indexById = new Map(outputPages.map((p, i) => [p.id, i]))
+  return groupIntoListings(outputPages).map((group) => ({
+    name: propertyFileName(group),
+    indexes: group.map((p) => indexById.get(p.id)!),
+  }))
+}
+
+export async function exportImagesZip(
+  pdfBytes: Uint8Array,
+  outputPages: PageInfo[],
+  options: RenderImageOptions & { dpi: number },
+  job: PdfJobOptions = {}
+): Promise<Uint8Array> {
+  const { dpi, ...renderOptions } = options
+  const images = await renderPdfToImagesInWorker(pdfBytes, dpi / POINTS_PER_INCH, renderOptions, job)
+  const ext = IMAGE_EXTENSIONS[renderOptions.format ?? 'image/png']
+
+  const files: { name: string; blob: Blob }[] = []
+  for (const { name, indexes } of propertyGroups(outputPages)) {
+    indexes.forEach((index, k) => {
+      files.push({
+        name: indexes.length > 1 ? `${name}_${k + 1}.${ext}` : `${name}.${ext}`,
+        blob: images[index].blob,
+      })
+    })
+  }
+
+  const names = uniqueEntryNames(files.map((f) => f.name))
+  const entries: ZipEntry[] = await Promise.all(
+    files.map(async (file, i) => ({ name: names[i], data: new Uint8Array(await file.blob.arrayBuffer()) }))
+  )
+  return createZip(entries)
+}
+
+/**
+ * One PDF per property. `finish` runs on each split PDF (paper layout), the
+ * same way the merged export is finished.
+ */
+export async function exportPropertyPdfsZip(
+  pdfBytes: Uint8Array,
+  outputPages: PageInfo[],
+  finish: (bytes: Uint8Array) => Promise<Uint8Array> = async (bytes) => bytes
+): Promise<Uint8Array> {
+  const source = await PDFDocument.load(pdfBytes)
+  const groups = propertyGroups(outputPages)
+  const names = uniqueEntryNames(groups.map((g) => `${g.name}.pdf`))
+
+  const entries: ZipEntry[] = []
+  for (let i = 0; i < groups.length; i++) {
+    const doc = await PDFDocument.create()
+    const copied = await doc.copyPages(source, groups[i].indexes)
+    copied.forEach((page) => doc.addPage(page))
+    entries.push({ name: names[i], data: await finish(await doc.save()) })
+  }
+  return createZip(entries)
+}
@@ -0,0 +1,105 @@
+/**
+ * Turn photos / screenshots of a maisoku into single-page PDFs so the editor
+ * can treat them like any uploaded PDF.
+ *
+ * Decoding goes through the browser (`createImageBitmap`), which applies the
+ * EXIF orientation, so a portrait phone photo stays portrait. HEIC/HEIF only
+ * decodes where the browser supports it (Safari); elsewhere the conversion
+ * fails with a message asking for a JPEG.
+ *
+ * The page is sized to A4 on its long side regardless of pixel count, so
+ * masks and block defaults (in PDF points) land the same as for a scanned PDF.
+ */
+
+import { PDFDocument } from 'pdf-lib'
+
+const A4_LONG_SIDE_PT = 842
+const POINTS_PER_INCH = 72
+const JPEG_QUALITY = 0.92
+
+/**
+ * Below this resolution the published image (rendered at 2x) looks soft.
+ * 150dpi on A4 is roughly 1750px on the long side.
+ */
+export const MIN_IMAGE_DPI = 150
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp|heic|heif)$/i
+const HEIC_PATTERN = /\.(heic|heif)$|^image\/hei[cf]$/i
+
+export const UPLOAD_ACCEPT = 'application/pdf,.pdf,image/jpeg,image/png,image/webp,image/heic,image/heif,.heic,.heif'
+
+export function isPdfFile(file: File): boolean {
+  return file.type === 'application/pdf' || /\.pdf$/i.test(file.name)
+}
+
+// HEIC often arrives with an empty MIME type, so fall back to the extension
+export function isImageFile(file: File): boolean {
+  return /^image\/(jpeg|png|webp|heic|heif)$/.test(file.type) || IMAGE_EXTENSIONS.test(file.name)
+}
+
+export interface ImagePdf {
+  pdfData: Uint8Array
+  /** Effective resolution of the image on the generated page */
+  dpi: number
+  lowResolution: boolean
+}
+
+async function decodeImage(file: File): Promise<ImageBitmap> {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' })
+  } catch {
+    if (HEIC_PATTERN.test(file.name) || HEIC_PATTERN.test(file.type)) {
+      throw new Error('このブラウザはHEIC画像に対応していません。JPEGに変換してからアップロードしてください')
+    }
+    throw new Error('画像を読み込めませんでした')
+  }
+}
+
+function canvasToBytes(canvas: HTMLCanvasElement, type: 'image/png' | 'image/jpeg'): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) return reject(new Error('画像の変換に失敗しました'))
+        blob.arrayBuffer().then((buf) => resolve(new Uint8Array(buf)), reject)
+      },
+      type,
+      JPEG_QUALITY
+    )
+  })
+}
+
+export async function imageFileToPdf(file: File): Promise<ImagePdf> {
+  const bitmap = await decodeImage(file)
+  const { width, height } = bitmap
+
+  // Redraw so the EXIF rotation is baked into the pixels (pdf-lib ignores EXIF)
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('画像の変換に失敗しました')
+  const keepPng = file.type === 'image/png' || /\.png$/i.test(file.name)
+  if (!keepPng) {
+    ctx.fillStyle = '#fff'
+    ctx.fillRect(0, 0, width, height)
+  }
+  ctx.drawImage(bitmap, 0, 0)
+  bitmap.close()
+
+  const bytes = await canvasToBytes(canvas, keepPng ? 'image/png' : 'image/jpeg')
+
+  const pdfDoc = await PDFDocument.create()
+  const image = keepPng ? await pdfDoc.embedPng(bytes) : await pdfDoc.embedJpg(bytes)
+  const ptPerPx = A4_LONG_SIDE_PT / Math.max(width, height)
+  const pageWidth = width * ptPerPx
+  const pageHeight = height * ptPerPx
+  const page = pdfDoc.addPage([pageWidth, pageHeight])
+  page.drawImage(image, { x: 0, y: 0, width: pageWidth, height: pageHeight })
+
+  const dpi = POINTS_PER_INCH / ptPerPx
+  return {
+    pdfData: await pdfDoc.save(),
+    dpi,
+    lowResolution: dpi < MIN_IMAGE_DPI,
+  }
+}
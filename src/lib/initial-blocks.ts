@@ -0,0 +1,221 @@
+import type { CompanyProfile, Block } from '@/lib/database.types'
+
+// 初期ブロック生成（白塗り範囲内に適切なマージンで配置）
+// 3分割レイアウト: [ロゴ（左端）] [テキスト情報（中央）] [QR（右端）]
+export function createInitialBlocks(
+  canvasWidth: number,
+  canvasHeight: number,
+  maskBottomHeight: number,
+  maskLeftWidth: number,
+  enableLShape: boolean,
+  companyProfile: CompanyProfile | null
+): Block[] {
+  // マージン設定
+  const marginTop = 8
+  const marginBottom = 8
+  const marginX = 10
+  const gapBetweenSections = 10
+
+  // 白塗り範囲の計算
+  const maskStartX = enableLShape ? maskLeftWidth : 0
+  const maskStartY = canvasHeight - maskBottomHeight
+  const totalAvailableWidth = (enableLShape ? canvasWidth - maskLeftWidth : canvasWidth) - (marginX * 2)
+  const availableHeight = maskBottomHeight - marginTop - marginBottom
+
+  // フォントサイズ設定（白塗り高さに応じてスケール）
+  const baseScale = Math.min(1, maskBottomHeight / 100)
+  const companyNameFontSize = Math.max(11, Math.round(16 * baseScale))
+  const smallFontSize = Math.max(8, Math.round(10 * baseScale))
+
+  // 行高さ（フォントサイズに基づく）
+  const companyNameHeight = companyNameFontSize + 6
+  const smallLineHeight = smallFontSize + 6
+
+  const blocks: Block[] = []
+  const timestamp = Date.now()
+
+  // 画像サイズの計算
+  const hasLogo = !!companyProfile?.logo_url
+  // LINEのURLがあればベクターQR、なければアップロード画像
+  const hasLineUrl = !!companyProfile?.line_url
+  const hasQr = hasLineUrl || !!companyProfile?.line_qr_url
+  const imageSize = Math.min(availableHeight, availableHeight * 0.9) // 高さに合わせた正方形
+
+  // ロゴブロック（左端）
+  let logoWidth = 0
+  if (hasLogo) {
+    logoWidth = imageSize
+    blocks.push({
+      id: `block-logo-${timestamp}`,
+      type: 'image',
+      field: 'logo',
+      x: maskStartX + marginX,
+      y: maskStartY + marginTop + (availableHeight - imageSize) / 2,
+      width: imageSize,
+      height: imageSize,
+    })
+  }
+
+  // QRブロック（右端）
+  let qrWidth = 0
+  if (hasQr) {
+    qrWidth = imageSize
+    const qrPosition = {
+      x: maskStartX + marginX + totalAvailableWidth - imageSize,
+      y: maskStartY + marginTop + (availableHeight - imageSize) / 2,
+      width: imageSize,
+      height: imageSize,
+    }
+    blocks.push(
+      hasLineUrl
+        ? { id: `block-qr_line-${timestamp + 1}`, type: 'qr', field: 'line', ...qrPosition }
+        : { id: `block-line_qr-${timestamp + 1}`, type: 'image', field: 'line_qr', ...qrPosition }
+    )
+  }
+
+  // テキスト領域の計算
+  const textStartX = maskStartX + marginX + (hasLogo ? logoWidth + gapBetweenSections : 0)
+  const textAreaWidth = totalAvailableWidth
+    - (hasLogo ? logoWidth + gapBetweenSections : 0)
+    - (hasQr ? qrWidth + gapBetweenSections : 0)
+
+  // テキストブロック用の2列レイアウト
+  const columnWidth = textAreaWidth / 2
+  const startY = maskStartY + marginTop
+
+  // 左列: 会社名（大きめ）、免許番号、手数料情報
+  let leftY = startY
+
+  blocks.push({
+    id: `block-company_name-${timestamp + 2}`,
+    type: 'text',
+    field: 'company_name',
+    x: textStartX,
+    y: leftY,
+    width: columnWidth - 5,
+    height: companyNameHeight,
+    fontSize: companyNameFontSize,
+    fontWeight: 'bold',
+    textAlign: 'left',
+  })
+  leftY += companyNameHeight + 2
+
+  blocks.push({
+    id: `block-license_number-${timestamp + 3}`,
+    type: 'text',
+    field: 'license_number',
+    x: textStartX,
+    y: leftY,
+    width: columnWidth - 5,
+    height: smallLineHeight,
+    fontSize: smallFontSize,
+    fontWeight: 'normal',
+    textAlign: 'left',
+  })
+  leftY += smallLineHeight + 2
+
+  // 手数料情報（設定されている場合のみ）
+  if (companyProfile?.fee_ratio_landlord !== null && companyProfile?.fee_ratio_landlord !== undefined) {
+    blocks.push({
+      id: `block-fee_ratio_landlord-${timestamp + 4}`,
+      type: 'text',
+      field: 'fee_ratio_landlord',
+      x: textStartX,
+      y: leftY,
+      width: (columnWidth - 5) / 2 - 2,
+      height: smallLineHeight,
+      fontSize: smallFontSize,
+      fontWeight: 'normal',
+      textAlign: 'left',
+    })
+
+    blocks.push({
+      id: `block-fee_ratio_tenant-${timestamp + 5}`,
+      type: 'text',
+      field: 'fee_ratio_tenant',
+      x: textStartX + (columnWidth - 5) / 2,
+      y: leftY,
+      width: (columnWidth - 5) / 2 - 2,
+      height: smallLineHeight,
+      fontSize: smallFontSize,
+      fontWeight: 'normal',
+      textAlign: 'left',
+    })
+    leftY += smallLineHeight + 2
+  }
+
+  if (companyProfile?.fee_distribution_motoduke !== null && companyProfile?.fee_distribution_motoduke !== undefined) {
+    blocks.push({
+      id: `block-fee_distribution_motoduke-${timestamp + 6}`,
+      type: 'text',
+      field: 'fee_distribution_motoduke',
+      x: textStartX,
+      y: leftY,
+      width: (columnWidth - 5) / 2 - 2,
+      height: smallLineHeight,
+      fontSize: smallFontSize,
+      fontWeight: 'normal',
+      textAlign: 'left',
+    })
+
+    blocks.push({
+      id: `block-fee_distribution_kyakuzuke-${timestamp + 7}`,
+      type: 'text',
+      field: 'fee_distribution_kyakuzuke',
+      x: textStartX + (columnWidth - 5) / 2,
+      y: leftY,
+      width: (columnWidth - 5) / 2 - 2,
+      height: smallLineHeight,
+      fontSize: smallFontSize,
+      fontWeight: 'normal',
+      textAlign: 'left',
+    })
+  }
+
+  // 右列: 住所、電話、メール（全て小さめ）
+  const rightX = textStartX + columnWidth
+  let rightY = startY
+
+  blocks.push({
+    id: `block-address-${timestamp + 8}`,
+    type: 'text',
+    field: 'address',
+    x: rightX,
+    y: rightY,
+    width: columnWidth - 5,
+    height: smallLineHeight,
+    fontSize: smallFontSize,
+    fontWeight: 'normal',
+    textAlign: 'left',
+  })
+  rightY += smallLineHeight + 2
+
+  blocks.push({
+    id: `block-phone-${timestamp + 9}`,
+    type: 'text',
+    field: 'phone',
+    x: rightX,
+    y: rightY,
+    width: columnWidth - 5,
+    height: smallLineHeight,
+    fontSize: smallFontSize,
+    fontWeight: 'normal',
+    textAlign: 'left',
+  })
+  rightY += smallLineHeight + 2
+
+  blocks.push({
+    id: `block-email-${timestamp + 10}`,
+    type: 'text',
+    field: 'email',
+    x: rightX,
+    y: rightY,
+    width: columnWidth - 5,
+    height: smallLineHeight,
+    fontSize: smallFontSize,
+    fontWeight: 'normal',
+    textAlign: 'left',
+  })
+
+  return blocks
+}
@@ -0,0 +1,260 @@
+/**
+ * Layout templates — saved block placement + white-out mask, reusable across
+ * pages and sessions (`layout_templates` table).
+ *
+ * Geometry is stored page-relative so a template designed on an A4 portrait
+ * sheet still lands in the band of a B4 or landscape page:
+ *   - block x / width, mask leftWidth → fraction of the page's displayed width
+ *   - block y / height, mask bottomHeight → fraction of the displayed height
+ *   - free-form mask shapes → x against width, y against height
+ *   - fontSize, stroke / border widths → fraction of the displayed width (keeps
+ *     text fitting its box)
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type { Block, Json, LayoutTemplate } from '@/lib/database.types'
+import type { MaskSettings } from '@/types/editor'
+import { isTextualBlock } from '@/lib/blocks'
+import { parseMaskShapes, scaleMaskShapes } from '@/lib/mask-geometry'
+
+export interface PageSize {
+  width: number
+  height: number
+}
+
+/** A template row with `blocks` / `mask` decoded (still page-relative). */
+export interface ResolvedTemplate {
+  id: string
+  name: string
+  blocks: Block[]
+  mask: MaskSettings | null
+  updatedAt: string
+}
+
+// ---------------------------------------------------------------------------
+// Unit conversion
+// ---------------------------------------------------------------------------
+
+export function toRelativeBlocks(blocks: Block[], size: PageSize): Block[] {
+  return blocks.map((block) => {
+    const rel = {
+      ...block,
+      x: block.x / size.width,
+      y: block.y / size.height,
+      width: block.width / size.width,
+      height: block.height / size.height,
+    }
+    if (isTextualBlock(rel)) {
+      rel.fontSize = rel.fontSize / size.width
+      if (rel.borderWidth) rel.borderWidth = rel.borderWidth / size.width
+    }
+    if (rel.type === 'shape') rel.strokeWidth = rel.strokeWidth / size.width
+    return rel
+  })
+}
+
+/** Scale relative blocks onto a page. Ids are regenerated so pages never share them. */
+export function fromRelativeBlocks(blocks: Block[], size: PageSize): Block[] {
+  const timestamp = Date.now()
+  return blocks.map((block, i) => {
+    const abs = {
+      ...block,
+      id: `block-${block.field}-${timestamp}-${i}-${Math.random().toString(36).slice(2, 6)}`,
+      x: block.x * size.width,
+      y: block.y * size.height,
+      width: block.width * size.width,
+      height: block.height * size.height,
+    }
+    if (isTextualBlock(abs)) {
+      abs.fontSize = Math.max(6, Math.round(abs.fontSize * size.width))
+      if (abs.borderWidth) abs.borderWidth = Math.round(abs.borderWidth * size.width * 10) / 10
+    }
+    if (abs.type === 'shape') abs.strokeWidth = Math.round(abs.strokeWidth * size.width * 10) / 10
+    return abs
+  })
+}
+
+/**
+ * Rescale blocks laid out on a page of size `from` to the same page shown at
+ * size `to` (e.g. after a window resize). Ids and unrounded values are kept, so
+ * selection and undo history survive and repeated resizes don't drift.
+ */
+export function scaleBlocks(blocks: Block[], from: PageSize, to: PageSize): Block[] {
+  const sx = to.width / from.width
+  const sy = to.height / from.height
+  return blocks.map((block) => {
+    const scaled = {
+      ...block,
+      x: block.x * sx,
+      y: block.y * sy,
+      width: block.width * sx,
+      height: block.height * sy,
+    }
+    if (isTextualBlock(scaled)) {
+      scaled.fontSize = scaled.fontSize * sx
+      if (scaled.borderWidth) scaled.borderWidth = scaled.borderWidth * sx
+    }
+    if (scaled.type === 'shape') scaled.strokeWidth = scaled.strokeWidth * sx
+    return scaled
+  })
+}
+
+export function toRelativeMask(mask: MaskSettings, size: PageSize): MaskSettings {
+  return {
+    ...mask,
+    bottomHeight: mask.bottomHeight / size.height,
+    leftWidth: mask.leftWidth / size.width,
+    shapes: scaleMaskShapes(mask.shapes ?? [], 1 / size.width, 1 / size.height),
+  }
+}
+
+export function fromRelativeMask(mask: MaskSettings, size: PageSize): MaskSettings {
+  return {
+    ...mask,
+    bottomHeight: Math.round(mask.bottomHeight * size.height),
+    leftWidth: Math.round(mask.leftWidth * size.width),
+    shapes: scaleMaskShapes(mask.shapes ?? [], size.width, size.height),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Row decoding
+// ---------------------------------------------------------------------------
+
+const BLOCK_TYPES: Block['type'][] = ['text', 'image', 'free_text', 'custom_field', 'shape', 'qr']
+
+const FONT_WEIGHTS = ['normal', 'bold']
+const TEXT_ALIGNS = ['left', 'center', 'right']
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v)
+
+/** Geometry plus the style fields the renderer needs for the block's type. */
+export function isBlock(value: unknown): value is Block {
+  if (!value || typeof value !== 'object') return false
+  const b = value as Record<string, unknown>
+  if (
+    !BLOCK_TYPES.includes(b.type as Block['type']) ||
+    typeof b.field !== 'string' ||
+    !['x', 'y', 'width', 'height'].every((k) => isFiniteNumber(b[k]))
+  ) {
+    return false
+  }
+  switch (b.type) {
+    case 'text':
+    case 'free_text':
+    case 'custom_field':
+      return (
+        isFiniteNumber(b.fontSize) && b.fontSize > 0 &&
+        FONT_WEIGHTS.includes(b.fontWeight as string) &&
+        TEXT_ALIGNS.includes(b.textAlign as string) &&
+        (b.type !== 'free_text' || typeof b.text === 'string')
+      )
+    case 'shape':
+      return (
+        typeof b.strokeColor === 'string' &&
+        isFiniteNumber(b.strokeWidth) && b.strokeWidth >= 0 &&
+        (b.fillColor === null || typeof b.fillColor === 'string')
+      )
+    default:
+      return true
+  }
+}
+
+function isMask(value: unknown): value is MaskSettings {
+  if (!value || typeof value !== 'object') return false
+  const m = value as Record<string, unknown>
+  return typeof m.bottomHeight === 'number' && typeof m.leftWidth === 'number'
+}
+
+export function resolveTemplate(row: Pick<LayoutTemplate, 'id' | 'name' | 'blocks' | 'mask' | 'updated_at'>): ResolvedTemplate {
+  const mask: unknown = row.mask
+  return {
+    id: row.id,
+    name: row.name,
+    blocks: Array.isArray(row.blocks) ? (row.blocks as unknown[]).filter(isBlock) : [],
+    mask: isMask(mask)
+      ? { ...mask, enableLShape: mask.enableLShape === true, shapes: parseMaskShapes(mask.shapes) }
+      : null,
+    updatedAt: row.updated_at,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Persistence (browser client, RLS-scoped to the signed-in user)
+// ---------------------------------------------------------------------------
+
+export interface TemplateLibrary {
+  templates: ResolvedTemplate[]
+  defaultTemplateId: string | null
+}
+
+export async function loadTemplateLibrary(): Promise<TemplateLibrary> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { templates: [], defaultTemplateId: null }
+
+  const [{ data: rows, error }, { data: profile }] = await Promise.all([
+    supabase
+      .from('layout_templates')
+      .select('id, name, blocks, mask, updated_at')
+      .eq('user_id', user.id)
+      .order('updated_at', { ascending: false }),
+    supabase
+      .from('company_profiles')
+      .select('default_template_id')
+      .eq('user_id', user.id)
+      .maybeSingle(),
+  ])
+
+  if (error) throw new Error(error.message)
+
+  return {
+    templates: (rows ?? []).map(resolveTemplate),
+    defaultTemplateId: profile?.default_template_id ?? null,
+  }
+}
+
+export async function saveTemplate(
+  name: string,
+  blocks: Block[],
+  mask: MaskSettings | null,
+  size: PageSize,
+  maskPageSize: PageSize = size
+): Promise<ResolvedTemplate> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('ログインが必要です')
+
+  const { data, error } = await supabase
+    .from('layout_templates')
+    .insert({
+      user_id: user.id,
+      name,
+      blocks: toRelativeBlocks(blocks, size) as unknown as Json,
+      mask: mask ? (toRelativeMask(mask, maskPageSize) as unknown as Json) : null,
+    })
+    .select('id, name, blocks, mask, updated_at')
+    .single()
+
+  if (error || !data) throw new Error(error?.message ?? 'テンプレートの保存に失敗しました')
+  return resolveTemplate(data)
+}
+
+export async function deleteTemplate(id: string): Promise<void> {
+  const supabase = createClient()
+  const { error } = await supabase.from('layout_templates').delete().eq('id', id)
+  if (error) throw new Error(error.message)
+}
+
+/** Pass `null` to clear the default. */
+export async function setDefaultTemplate(id: string | null): Promise<void> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('ログインが必要です')
+
+  const { error } = await supabase
+    .from('company_profiles')
+    .update({ default_template_id: id })
+    .eq('user_id', user.id)
+  if (error) throw new Error(error.message)
+}
@@ -0,0 +1,286 @@
+/**
+ * Maisoku cache — the last fetched files per source, shared by every user
+ * (`maisoku_cache` table + `maisoku-cache` bucket). A vacancy is served from
+ * here when one of its sources has an entry younger than
+ * MAISOKU_CACHE_MAX_AGE_HOURS (default 24) and fetched otherwise, unless the
+ * caller forces a refresh.
+ *
+ * An entry is keyed by what its source fetched (`maisokuCacheKeys`): the
+ * REINS ID for REINS, the platform listing for a platform, the URL itself for
+ * a secured URL. Files fetched from a URL are therefore only served for that
+ * URL, never under the REINS ID a caller sent along with it. Uploads are not
+ * cached, and only the server writes the cache (service-role client).
+ *
+ * Each entry carries a SHA-256 of its files. When a re-fetch from the same
+ * source hashes differently the entry is marked changed, and the result says
+ * so (`changed`), so a maisoku updated on REINS does not go unnoticed.
+ *
+ * The cache is best-effort: failing to read or write it is logged and the
+ * fetch goes ahead as if there were no cache.
+ */
+
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { MaisokuCacheEntry } from '@/lib/database.types'
+import { parsePlatformId } from './sources/platform'
+import { parseAssetUrl } from './sources/url'
+import type { MaisokuFetchHooks, MaisokuFile, MaisokuResult, MaisokuVacancy } from './types'
+
+export const MAISOKU_CACHE_BUCKET = 'maisoku-cache'
+
+const DEFAULT_MAX_AGE_HOURS = 24
+
+export type MaisokuCacheSource = MaisokuCacheEntry['source']
+
+export interface MaisokuCacheKey {
+  source: MaisokuCacheSource
+  sourceKey: string
+}
+
+export interface MaisokuCacheOptions {
+  /** Fetch every vacancy even when a fresh entry exists (the entries are then updated) */
+  forceRefresh?: boolean
+  maxAgeMs?: number
+}
+
+export function maisokuCacheMaxAgeMs(): number {
+  const hours = Number(process.env.MAISOKU_CACHE_MAX_AGE_HOURS)
+  return (Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_MAX_AGE_HOURS) * 3600_000
+}
+
+/**
+ * The entries that may hold a vacancy's maisoku, in the order its sources are
+ * tried. None for a vacancy with an upload: the user's own file comes first.
+ */
+export function maisokuCacheKeys(vacancy: MaisokuVacancy): MaisokuCacheKey[] {
+  if (vacancy.uploadPath) return []
+  const keys: MaisokuCacheKey[] = []
+  const url = vacancy.maisokuUrl ? parseAssetUrl(vacancy.maisokuUrl) : null
+  if (url) keys.push({ source: 'url', sourceKey: url.toString() })
+  const platform = vacancy.platformId ? parsePlatformId(vacancy.platformId) : null
+  if (platform) keys.push({ source: 'platform', sourceKey: `${platform.platform}:${platform.id}` })
+  if (vacancy.reinsId) keys.push({ source: 'reins', sourceKey: vacancy.reinsId })
+  return keys
+}
+
+/** The key a result is stored under: the one for the source that produced it. */
+function resultKey(vacancy: MaisokuVacancy, result: MaisokuResult): MaisokuCacheKey | null {
+  return maisokuCacheKeys(vacancy).find((key) => key.source === result.source) ?? null
+}
+
+/** SHA-256 over the files' kinds and bytes, in order. */
+export function maisokuContentHash(files: MaisokuFile[]): string {
+  const hash = createHash('sha256')
+  for (const file of files) {
+    hash.update(`${file.kind}:`)
+    hash.update(Buffer.from(file.data, 'base64'))
+    hash.update('\n')
+  }
+  return hash.digest('hex')
+}
+
+// Storage folder of an entry; source keys (URLs) are hashed into a safe name
+function entryFolder(key: MaisokuCacheKey): string {
+  return `${key.source}/${createHash('sha256').update(key.sourceKey).digest('hex').slice(0, 32)}`
+}
+
+async function loadEntry(cache: SupabaseClient, entry: MaisokuCacheEntry): Promise<MaisokuFile[] | null> {
+  const files: MaisokuFile[] = []
+  for (const path of entry.files) {
+    const { data, error } = await cache.storage.from(MAISOKU_CACHE_BUCKET).download(path)
+    if (error || !data) return null
+    files.push({
+      kind: path.endsWith('.pdf') ? 'pdf' : 'image',
+      data: Buffer.from(await data.arrayBuffer()).toString('base64'),
+    })
+  }
+  return files
+}
+
+/**
+ * Fresh entries for the vacancies, by index into `vacancies`: for each, the
+ * first of its keys with an entry. An entry whose files fail to load counts
+ * as a miss.
+ */
+export async function readMaisokuCache(
+  cache: SupabaseClient,
+  vacancies: MaisokuVacancy[],
+  maxAgeMs = maisokuCacheMaxAgeMs()
+): Promise<Map<number, MaisokuResult>> {
+  const hits = new Map<number, MaisokuResult>()
+  const keys = vacancies.map(maisokuCacheKeys)
+  const bySource = new Map<MaisokuCacheSource, Set<string>>()
+  for (const key of keys.flat()) {
+    bySource.set(key.source, (bySource.get(key.source) ?? new Set()).add(key.sourceKey))
+  }
+
+  const entries = new Map<string, MaisokuCacheEntry>()
+  const since = new Date(Date.now() - maxAgeMs).toISOString()
+  for (const [source, sourceKeys] of bySource) {
+    const { data, error } = await cache
+      .from('maisoku_cache')
+      .select('*')
+      .eq('source', source)
+      .in('source_key', [...sourceKeys])
+      .gte('fetched_at', since)
+    if (error) {
+      console.warn('[maisoku/cache] read failed:', error.message)
+      return hits
+    }
+    for (const entry of (data ?? []) as MaisokuCacheEntry[]) {
+      entries.set(`${entry.source}|${entry.source_key}`, entry)
+    }
+  }
+
+  for (let i = 0; i < vacancies.length; i++) {
+    for (const key of keys[i]) {
+      const entry = entries.get(`${key.source}|${key.sourceKey}`)
+      if (!entry) continue
+      const files = await loadEntry(cache, entry)
+      if (!files) {
+        console.warn(`[maisoku/cache] ${key.source} ${key.sourceKey}: cached files missing`)
+        continue
+      }
+      hits.set(i, {
+        reinsId: vacancies[i].reinsId,
+        status: 'success',
+        files,
+        source: entry.source,
+        cachedAt: entry.fetched_at,
+        changed: false,
+      })
+      break
+    }
+  }
+  return hits
+}
+
+/**
+ * Store a successful result for the vacancy and return it with `cachedAt`
+ * and `changed`. Results that failed, came from an upload or could not be
+ * stored are returned unchanged.
+ */
+export async function writeMaisokuCache(
+  cache: SupabaseClient,
+  vacancy: MaisokuVacancy,
+  result: MaisokuResult
+): Promise<MaisokuResult> {
+  const key = result.status === 'success' ? resultKey(vacancy, result) : null
+  if (!key) return result
+
+  const { data: existing, error: readError } = await cache
+    .from('maisoku_cache')
+    .select('*')
+    .eq('source', key.source)
+    .eq('source_key', key.sourceKey)
+    .maybeSingle()
+  if (readError) {
+    console.warn('[maisoku/cache] read failed:', readError.message)
+    return result
+  }
+  const previous = existing as MaisokuCacheEntry | null
+
+  const hash = maisokuContentHash(result.files)
+  const fetchedAt = new Date().toISOString()
+
+  // Same files as cached: only the fetch time moves
+  if (previous && previous.content_hash === hash) {
+    const { error } = await cache
+      .from('maisoku_cache')
+      .update({ fetched_at: fetchedAt })
+      .eq('source', key.source)
+      .eq('source_key', key.sourceKey)
+    if (error) console.warn('[maisoku/cache] update failed:', error.message)
+    return { ...result, cachedAt: fetchedAt, changed: false }
+  }
+
+  const files: string[] = []
+  for (let k = 0; k < result.files.length; k++) {
+    const file = result.files[k]
+    const path = `${entryFolder(key)}/${hash.slice(0, 16)}-${k}.${file.kind === 'pdf' ? 'pdf' : 'jpg'}`
+    const { error } = await cache.storage
+      .from(MAISOKU_CACHE_BUCKET)
+      .upload(path, Buffer.from(file.data, 'base64'), {
+        contentType: file.kind === 'pdf' ? 'application/pdf' : 'image/jpeg',
+        upsert: true,
+      })
+    if (error) {
+      console.warn(`[maisoku/cache] ${result.reinsId}: upload failed:`, error.message)
+      if (files.length > 0) await cache.storage.from(MAISOKU_CACHE_BUCKET).remove(files)
+      return result
+    }
+    files.push(path)
+  }
+
+  const changed = !!previous
+  const { error } = await cache.from('maisoku_cache').upsert({
+    source: key.source,
+    source_key: key.sourceKey,
+    files,
+    content_hash: hash,
+    previous_hash: changed ? previous.content_hash : null,
+    fetched_at: fetchedAt,
+    changed_at: changed ? fetchedAt : null,
+  })
+  if (error) {
+    console.warn(`[maisoku/cache] ${result.reinsId}: write failed:`, error.message)
+    await cache.storage.from(MAISOKU_CACHE_BUCKET).remove(files)
+    return result
+  }
+
+  if (previous?.files.length) {
+    const stale = previous.files.filter((path) => !files.includes(path))
+    if (stale.length > 0) await cache.storage.from(MAISOKU_CACHE_BUCKET).remove(stale)
+  }
+  if (changed) console.log(`[maisoku/cache] ${result.reinsId}: maisoku changed since ${previous.fetched_at}`)
+
+  return { ...result, cachedAt: fetchedAt, changed }
+}
+
+/**
+ * Serve the vacancies with a fresh entry from the cache and `fetch` the rest,
+ * caching what it returns. Hooks see every vacancy, hits included, with
+ * indexes into `vacancies`; results are in `vacancies` order. Without a
+ * cache client (no service role configured) this is just `fetch`.
+ */
+export async function withMaisokuCache(
+  cache: SupabaseClient | null,
+  vacancies: MaisokuVacancy[],
+  fetch: (vacancies: MaisokuVacancy[], hooks: MaisokuFetchHooks) => Promise<MaisokuResult[]>,
+  options: MaisokuCacheOptions = {},
+  hooks: MaisokuFetchHooks = {}
+): Promise<MaisokuResult[]> {
+  if (!cache) return fetch(vacancies, hooks)
+
+  const results = new Map<number, MaisokuResult>()
+  const hits = options.forceRefresh
+    ? new Map<number, MaisokuResult>()
+    : await readMaisokuCache(cache, vacancies, options.maxAgeMs)
+  for (const [i, hit] of hits) {
+    if (hooks.shouldStop?.()) break
+    await hooks.onStart?.(vacancies[i], i)
+    results.set(i, hit)
+    await hooks.onResult?.(hit, i)
+  }
+
+  const misses = vacancies.map((_, i) => i).filter((i) => !hits.has(i))
+  if (misses.length > 0 && !hooks.shouldStop?.()) {
+    const store = async (result: MaisokuResult, k: number) => {
+      const stored = await writeMaisokuCache(cache, vacancies[misses[k]], result)
+      results.set(misses[k], stored)
+      return stored
+    }
+    const fetched = await fetch(misses.map((i) => vacancies[i]), {
+      shouldStop: hooks.shouldStop,
+      onStart: (_vacancy, k) => hooks.onStart?.(vacancies[misses[k]], misses[k]),
+      onResult: async (result, k) => hooks.onResult?.(await store(result, k), misses[k]),
+    })
+    // Fetchers that report no hooks: match their results back by REINS ID
+    for (const result of fetched) {
+      const k = misses.findIndex((i) => !results.has(i) && vacancies[i].reinsId === result.reinsId)
+      if (k >= 0) await store(result, k)
+    }
+  }
+
+  return vacancies.flatMap((_, i) => results.get(i) ?? [])
+}
@@ -0,0 +1,30 @@
+import type { MaisokuFetchHooks, MaisokuResult, MaisokuVacancy } from './types'
+
+/**
+ * The batch loop for sources that fetch one vacancy at a time: honours
+ * `shouldStop`, reports each vacancy through the hooks, and turns a thrown
+ * error into an 'error' result for that vacancy.
+ */
+export async function fetchEach(
+  vacancies: MaisokuVacancy[],
+  hooks: MaisokuFetchHooks,
+  source: MaisokuResult['source'],
+  fetchOne: (vacancy: MaisokuVacancy) => Promise<MaisokuResult>
+): Promise<MaisokuResult[]> {
+  const results: MaisokuResult[] = []
+  for (let i = 0; i < vacancies.length; i++) {
+    if (hooks.shouldStop?.()) break
+    const vacancy = vacancies[i]
+    await hooks.onStart?.(vacancy, i)
+
+    let result: MaisokuResult
+    try {
+      result = await fetchOne(vacancy)
+    } catch (err) {
+      result = { reinsId: vacancy.reinsId, status: 'error', files: [], source, error: (err as Error).message }
+    }
+    results.push(result)
+    await hooks.onResult?.(result, i)
+  }
+  return results
+}
@@ -0,0 +1,82 @@
+/**
+ * Maisoku sources — fetching a vacancy's maisoku from wherever it can be
+ * found. Each source is an adapter (`MaisokuSource`); a vacancy is tried
+ * with every source that accepts it, in the order below, until one succeeds:
+ *
+ *   upload   — a file the user uploaded for it
+ *   url      — a PDF / image URL the bukkaku pipeline secured
+ *   platform — its listing page on ITANDI BB / いい生活スクエア
+ *   reins    — REINS by its REINS ID (slowest, so last)
+ */
+
+import type {
+  MaisokuFetchHooks,
+  MaisokuResult,
+  MaisokuSource,
+  MaisokuSourceContext,
+  MaisokuVacancy,
+} from './types'
+import { uploadSource } from './sources/upload'
+import { urlSource } from './sources/url'
+import { platformSource } from './sources/platform'
+import { reinsSource } from './sources/reins'
+
+export type {
+  MaisokuFetchHooks,
+  MaisokuFile,
+  MaisokuResult,
+  MaisokuSource,
+  MaisokuSourceContext,
+  MaisokuSourceId,
+  MaisokuVacancy,
+} from './types'
+
+export const MAISOKU_SOURCES: MaisokuSource[] = [uploadSource, urlSource, platformSource, reinsSource]
+
+export function sourcesFor(vacancy: MaisokuVacancy): MaisokuSource[] {
+  return MAISOKU_SOURCES.filter((source) => source.accepts(vacancy))
+}
+
+/**
+ * Fetch each vacancy from its sources in turn. Hooks see each vacancy once:
+ * `onStart` when its first source starts, `onResult` with the first success
+ * or, when every source failed, the last source's result.
+ */
+export async function fetchMaisoku(
+  vacancies: MaisokuVacancy[],
+  context: MaisokuSourceContext = {},
+  hooks: MaisokuFetchHooks = {}
+): Promise<MaisokuResult[]> {
+  const candidates = vacancies.map(sourcesFor)
+  const results = new Map<number, MaisokuResult>()
+  const started = new Set<number>()
+
+  for (const source of MAISOKU_SOURCES) {
+    if (hooks.shouldStop?.()) break
+    const indexes = vacancies
+      .map((_, i) => i)
+      .filter((i) => results.get(i)?.status !== 'success' && candidates[i].includes(source))
+    if (indexes.length === 0) continue
+
+    await source.fetch(indexes.map((i) => vacancies[i]), context, {
+      shouldStop: hooks.shouldStop,
+      onStart: async (_vacancy, k) => {
+        const i = indexes[k]
+        if (started.has(i)) return
+        started.add(i)
+        await hooks.onStart?.(vacancies[i], i)
+      },
+      onResult: async (result, k) => {
+        const i = indexes[k]
+        results.set(i, result)
+        if (result.status !== 'success') {
+          console.log(`[maisoku] ${result.reinsId}: ${source.id} → ${result.status}`, result.error ?? '')
+        }
+        const isLast = candidates[i][candidates[i].length - 1] === source
+        if (result.status === 'success' || isLast) await hooks.onResult?.(result, i)
+      },
+    })
+  }
+
+  return vacancies.flatMap((_, i) => results.get(i) ?? [])
+}
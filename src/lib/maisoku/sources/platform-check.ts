@@ -0,0 +1,58 @@
+/**
+ * Dev check of `extractMaisokuLinks` against platform pages kept in
+ * `fixtures/`, with the maisoku URLs each page should give. The platforms need
+ * a logged-in session, so this is how a change to their markup is caught:
+ * save the new page over the fixture and run
+ *
+ *   npx tsx src/lib/maisoku/sources/platform-check.ts
+ *
+ * It prints each page's links and exits non-zero when any differ. Not part of
+ * the app build.
+ */
+
+import { readFile } from 'fs/promises'
+import { fileURLToPath } from 'url'
+import { extractMaisokuLinks } from './platform'
+
+const FIXTURES_DIR = new URL('./fixtures/', import.meta.url)
+
+const FIXTURES: { file: string; pageUrl: string; expected: string[] }[] = [
+  {
+    file: 'itandi-bb-room.html',
+    pageUrl: 'https://itandibb.com/rent_rooms/8812345',
+    expected: [
+      'https://itandibb.com/rent_rooms/8812345/documents/zumen.pdf?token=a1b2c3&download=1',
+      'https://img.itandibb.com/rooms/8812345/photos/03_madori.jpg?w=640',
+    ],
+  },
+  {
+    file: 'es-square-detail.html',
+    pageUrl: 'https://rent.es-square.net/bukken/chintai/search/detail/55667788',
+    expected: [
+      'https://rent.es-square.net/bukken/image/55667788/zumen_1.png',
+      'https://rent.es-square.net/bukken/image/55667788/zumen_2.png',
+      'https://cdn.es-square.net/bukken/55667788/image/madori.gif',
+    ],
+  },
+]
+
+async function main() {
+  let failed = 0
+  for (const { file, pageUrl, expected } of FIXTURES) {
+    const html = await readFile(fileURLToPath(new URL(file, FIXTURES_DIR)), 'utf8')
+    const actual = extractMaisokuLinks(html, pageUrl)
+    const ok = actual.length === expected.length && actual.every((url, i) => url === expected[i])
+    console.log(`${ok ? 'ok  ' : 'FAIL'} ${file}`)
+    if (!ok) {
+      failed++
+      console.log('  expected:', expected)
+      console.log('  actual:  ', actual)
+    }
+  }
+  if (failed > 0) process.exitCode = 1
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exitCode = 1
+})
@@ -0,0 +1,140 @@
+/**
+ * Platform source — listing pages on the rental platforms (ITANDI BB,
+ * いい生活スクエア), identified by the vacancy's `platformId` as
+ * "<platform>:<id>".
+ *
+ * The platforms only show the maisoku to logged-in agents, so the page is
+ * requested with the session cookie from the platform's environment variable;
+ * without one the platform is skipped. Finding the maisoku on the page is a
+ * pure function of the HTML (`extractMaisokuLinks`), so it is checked
+ * against saved pages without a session (`platform-check.ts`).
+ */
+
+import { fetchEach } from '../fetch-each'
+import type { MaisokuFile, MaisokuResult, MaisokuSource, MaisokuVacancy } from '../types'
+import { fetchUrlAsset, parseAssetUrl } from './url'
+
+interface PlatformConfig {
+  label: string
+  pageUrl: (id: string) => string
+  /** Environment variable holding the logged-in session's Cookie header */
+  cookieEnv: string
+}
+
+const PLATFORMS = {
+  itandi: {
+    label: 'ITANDI BB',
+    pageUrl: (id) => `https://itandibb.com/rent_rooms/${encodeURIComponent(id)}`,
+    cookieEnv: 'ITANDI_BB_COOKIE',
+  },
+  essquare: {
+    label: 'いい生活スクエア',
+    pageUrl: (id) => `https://rent.es-square.net/bukken/chintai/search/detail/${encodeURIComponent(id)}`,
+    cookieEnv: 'ES_SQUARE_COOKIE',
+  },
+} satisfies Record<string, PlatformConfig>
+
+export type PlatformName = keyof typeof PLATFORMS
+
+// Link text / alt text / file names that mark a maisoku rather than a photo
+const MAISOKU_HINT = /図面|マイソク|募集図面|間取|floor_?plan|madori|maisoku|zumen/i
+const PDF_URL = /\.pdf(\?|#|$)/i
+const MAX_FILES = 5
+
+export function parsePlatformId(platformId: string): { platform: PlatformName; id: string } | null {
+  const match = /^([a-z]+):(.+)$/.exec(platformId.trim())
+  if (!match || !(match[1] in PLATFORMS)) return null
+  return { platform: match[1] as PlatformName, id: match[2] }
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+}
+
+function attribute(tag: string, name: string): string {
+  const match = new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i').exec(tag)
+  return match ? decodeEntities(match[2] ?? match[3] ?? '') : ''
+}
+
+/**
+ * Maisoku URLs on a listing page, absolute and in page order: links and
+ * images whose text, alt or file name says 図面 / 間取り, PDFs first. Other
+ * PDFs (help pages, application forms) and in-page anchors are left out.
+ */
+export function extractMaisokuLinks(html: string, pageUrl: string): string[] {
+  const pdfs: string[] = []
+  const images: string[] = []
+
+  for (const match of html.matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)) {
+    const href = attribute(match[1], 'href')
+    if (!href || href.startsWith('#')) continue
+    const text = match[2].replace(/<[^>]*>/g, '')
+    if (!MAISOKU_HINT.test(text) && !MAISOKU_HINT.test(href)) continue
+    if (PDF_URL.test(href)) pdfs.push(href)
+    else images.push(href)
+  }
+  for (const match of html.matchAll(/<img\b[^>]*>/gi)) {
+    const src = attribute(match[0], 'src')
+    if (src && (MAISOKU_HINT.test(attribute(match[0], 'alt')) || MAISOKU_HINT.test(src))) images.push(src)
+  }
+
+  const urls: string[] = []
+  for (const link of [...pdfs, ...images]) {
+    let absolute: string
+    try {
+      absolute = new URL(link, pageUrl).toString()
+    } catch {
+      continue
+    }
+    if (parseAssetUrl(absolute) && !urls.includes(absolute)) urls.push(absolute)
+  }
+  return urls
+}
+
+async function fetchFromPlatform(vacancy: MaisokuVacancy): Promise<MaisokuResult> {
+  const parsed = parsePlatformId(vacancy.platformId ?? '')!
+  const config: PlatformConfig = PLATFORMS[parsed.platform]
+  const headers = { Cookie: process.env[config.cookieEnv] ?? '' }
+  const pageUrl = config.pageUrl(parsed.id)
+
+  const res = await fetch(pageUrl, { headers, cache: 'no-store' })
+  if (res.status === 404) {
+    return { reinsId: vacancy.reinsId, status: 'not_found', files: [], source: 'platform' }
+  }
+  if (!res.ok) throw new Error(`${config.label}: HTTP ${res.status}`)
+
+  const links = extractMaisokuLinks(await res.text(), pageUrl)
+  // A PDF is the maisoku itself; otherwise take every floor-plan image
+  const targets = PDF_URL.test(links[0] ?? '') ? links.slice(0, 1) : links.slice(0, MAX_FILES)
+  const files: MaisokuFile[] = []
+  for (const link of targets) {
+    // The session cookie only goes back to the platform, not to its file CDN
+    const url = new URL(link)
+    const asset = await fetchUrlAsset(url, url.origin === new URL(pageUrl).origin ? headers : {})
+    if (asset.ok) files.push(asset.file)
+  }
+
+  return files.length > 0
+    ? { reinsId: vacancy.reinsId, status: 'success', files, source: 'platform' }
+    : {
+        reinsId: vacancy.reinsId,
+        status: 'not_found',
+        files: [],
+        source: 'platform',
+        error: `${config.label}に図面が見つかりませんでした`,
+      }
+}
+
+export const platformSource: MaisokuSource = {
+  id: 'platform',
+  accepts: (vacancy) => {
+    const parsed = vacancy.platformId ? parsePlatformId(vacancy.platformId) : null
+    return !!parsed && !!process.env[PLATFORMS[parsed.platform].cookieEnv]
+  },
+  fetch: (vacancies, _context, hooks = {}) => fetchEach(vacancies, hooks, 'platform', fetchFromPlatform),
+}
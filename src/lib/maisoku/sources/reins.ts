@@ -0,0 +1,49 @@
+/**
+ * REINS source — every vacancy has a REINS ID, so this is the last resort.
+ *
+ * With REINS_BACKEND_URL set the fetch goes to the Playwright-capable backend
+ * one property per request (so progress stays per property); otherwise
+ * Playwright runs here with a single login for the batch.
+ */
+
+import { fetchEach } from '../fetch-each'
+import type { MaisokuResult, MaisokuSource } from '../types'
+
+export const reinsSource: MaisokuSource = {
+  id: 'reins',
+  accepts: (vacancy) => !!vacancy.reinsId,
+  fetch: async (vacancies, _context, hooks = {}) => {
+    const backendUrl = process.env.REINS_BACKEND_URL
+    if (backendUrl) {
+      return fetchEach(vacancies, hooks, 'reins', async (vacancy) => {
+        const res = await fetch(`${backendUrl}/api/reins/fetch-maisoku`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ reinsIds: [vacancy.reinsId] }),
+        })
+        const data = await res.json()
+        const result: MaisokuResult | undefined = data?.results?.[0]
+        return result ?? {
+          reinsId: vacancy.reinsId,
+          status: 'error',
+          files: [],
+          source: 'reins',
+          error: data?.error ?? `HTTP ${res.status}`,
+          errorCode: data?.code,
+        }
+      })
+    }
+
+    const { chromium } = await import('playwright')
+    const { fetchMaisokuPdfs } = await import('@/lib/reins/runner')
+    return fetchMaisokuPdfs(
+      vacancies.map((vacancy) => vacancy.reinsId),
+      chromium,
+      {
+        shouldStop: hooks.shouldStop,
+        onStart: (_vacancy, index) => hooks.onStart?.(vacancies[index], index),
+        onResult: hooks.onResult,
+      }
+    )
+  },
+}
@@ -0,0 +1,35 @@
+/**
+ * Upload source — a maisoku the user uploaded for the vacancy, stored in the
+ * `reins-maisoku` bucket under their own folder. Read with the caller's
+ * Supabase client, so storage RLS keeps users to their own files.
+ */
+
+import { REINS_MAISOKU_BUCKET } from '@/lib/reins/job-status'
+import { fetchEach } from '../fetch-each'
+import type { MaisokuSource } from '../types'
+
+const IMAGE_PATH = /\.(jpe?g|png)$/i
+
+export const uploadSource: MaisokuSource = {
+  id: 'upload',
+  accepts: (vacancy) => !!vacancy.uploadPath,
+  fetch: (vacancies, context, hooks = {}) =>
+    fetchEach(vacancies, hooks, 'upload', async (vacancy) => {
+      if (!context.supabase) throw new Error('アップロードされたファイルを読み込めません')
+      const { data, error } = await context.supabase.storage
+        .from(REINS_MAISOKU_BUCKET)
+        .download(vacancy.uploadPath!)
+      if (error || !data) {
+        return { reinsId: vacancy.reinsId, status: 'not_found', files: [], source: 'upload', error: error?.message }
+      }
+      return {
+        reinsId: vacancy.reinsId,
+        status: 'success',
+        files: [{
+          kind: IMAGE_PATH.test(vacancy.uploadPath!) ? 'image' : 'pdf',
+          data: Buffer.from(await data.arrayBuffer()).toString('base64'),
+        }],
+        source: 'upload',
+      }
+    }),
+}
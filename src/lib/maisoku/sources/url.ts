@@ -0,0 +1,84 @@
+/**
+ * Direct URL source — a maisoku the bukkaku pipeline already secured as a
+ * PDF or image URL. `fetchUrlAsset` is also what `/api/obikae/fetch-pdf`
+ * and the platform source download through.
+ */
+
+import { fetchEach } from '../fetch-each'
+import type { MaisokuFile, MaisokuSource } from '../types'
+
+const MAX_BYTES = 25 * 1024 * 1024 // 25MB
+
+export type UrlAssetResult =
+  | { ok: true; file: MaisokuFile; contentType: string; byteLength: number }
+  | { ok: false; status: number; error: string }
+
+/** Only http(s) URLs are fetched; anything else is null. */
+export function parseAssetUrl(url: string): URL | null {
+  try {
+    const parsed = new URL(url.trim())
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The body, or null once it passes `maxBytes` (the download is then
+ * cancelled rather than read to the end).
+ */
+async function readCapped(res: Response, maxBytes: number): Promise<Buffer | null> {
+  if (!res.body) return Buffer.alloc(0)
+  const reader = res.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+export async function fetchUrlAsset(url: URL, headers: Record<string, string> = {}): Promise<UrlAssetResult> {
+  const res = await fetch(url.toString(), { method: 'GET', headers, cache: 'no-store' })
+  if (!res.ok) return { ok: false, status: 502, error: `upstream ${res.status}` }
+
+  const tooLarge = { ok: false, status: 413, error: 'response too large' } as const
+  // Declared sizes are refused up front; the stream cap covers missing or wrong headers
+  if (Number(res.headers.get('content-length')) > MAX_BYTES) {
+    await res.body?.cancel()
+    return tooLarge
+  }
+
+  const contentType = res.headers.get('content-type') ?? 'application/octet-stream'
+  const buf = await readCapped(res, MAX_BYTES)
+  if (!buf) return tooLarge
+  if (buf.byteLength === 0) return { ok: false, status: 502, error: 'empty response' }
+
+  // Anything that is not an image is handed on as a PDF, as before
+  const kind = contentType.startsWith('image/') && !url.pathname.toLowerCase().endsWith('.pdf') ? 'image' : 'pdf'
+  return {
+    ok: true,
+    file: { kind, data: buf.toString('base64') },
+    contentType,
+    byteLength: buf.byteLength,
+  }
+}
+
+export const urlSource: MaisokuSource = {
+  id: 'url',
+  accepts: (vacancy) => !!vacancy.maisokuUrl && parseAssetUrl(vacancy.maisokuUrl) !== null,
+  fetch: (vacancies, _context, hooks = {}) =>
+    fetchEach(vacancies, hooks, 'url', async (vacancy) => {
+      const result = await fetchUrlAsset(parseAssetUrl(vacancy.maisokuUrl ?? '')!)
+      return result.ok
+        ? { reinsId: vacancy.reinsId, status: 'success', files: [result.file], source: 'url' }
+        : { reinsId: vacancy.reinsId, status: 'error', files: [], source: 'url', error: result.error }
+    }),
+}
@@ -0,0 +1,70 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Where a maisoku came from. One adapter per source; `fetchMaisoku` picks
+ * them per vacancy in the order of `MAISOKU_SOURCES`.
+ */
+export type MaisokuSourceId = 'upload' | 'url' | 'platform' | 'reins'
+
+/** What a vacancy tells us about where its maisoku can be found. */
+export interface MaisokuVacancy {
+  reinsId: string
+  /** A pre-secured PDF / image URL (from the bukkaku pipeline) */
+  maisokuUrl?: string | null
+  /** "<platform>:<id>" for a listing page on ITANDI BB / いい生活スクエア */
+  platformId?: string | null
+  /** A file the user uploaded to the `reins-maisoku` bucket */
+  uploadPath?: string | null
+}
+
+export interface MaisokuFile {
+  kind: 'pdf' | 'image'
+  /** Base64 file contents */
+  data: string
+}
+
+export interface MaisokuResult {
+  reinsId: string
+  status: 'success' | 'not_found' | 'error'
+  files: MaisokuFile[]
+  /** The source that produced the result (the last one tried when none succeeded) */
+  source: MaisokuSourceId
+  error?: string
+  /** Machine-readable reason, e.g. the REINS step that failed ("search/form_not_found") */
+  errorCode?: string
+  /** Server-local screenshot of the page when a browser-driven fetch failed */
+  failureScreenshot?: string
+  /** When the files were fetched, for results that went through the maisoku cache */
+  cachedAt?: string
+  /** A re-fetch returned different files than the cache held */
+  changed?: boolean
+}
+
+/** Server-side dependencies some sources need (storage access for uploads). */
+export interface MaisokuSourceContext {
+  supabase?: SupabaseClient
+}
+
+/** Progress hooks for callers that report per vacancy (the REINS fetch jobs). */
+export interface MaisokuFetchHooks {
+  /** Checked before each vacancy; the remaining ones are skipped once it returns true */
+  shouldStop?: () => boolean
+  onStart?: (vacancy: MaisokuVacancy, index: number) => Promise<void> | void
+  /** Called as each vacancy finishes; the results are also returned at the end */
+  onResult?: (result: MaisokuResult, index: number) => Promise<void> | void
+}
+
+export interface MaisokuSource {
+  id: MaisokuSourceId
+  /** Whether the vacancy carries what this source needs */
+  accepts(vacancy: MaisokuVacancy): boolean
+  /**
+   * Fetch a batch (REINS works through it on a shared session). Hook indexes refer to
+   * `vacancies`; vacancies skipped by `shouldStop` have no result.
+   */
+  fetch(
+    vacancies: MaisokuVacancy[],
+    context: MaisokuSourceContext,
+    hooks?: MaisokuFetchHooks
+  ): Promise<MaisokuResult[]>
+}
@@ -0,0 +1,217 @@
+/**
+ * White-out geometry shared by the editor overlays, layout templates and the
+ * PDF generator.
+ *
+ * Everything in `MaskSettings` lives in *display space*: PDF points, origin
+ * top-left, y down, as the page is shown after its /Rotate is applied. The
+ * generator draws onto the unrotated page, so each region is mapped back into
+ * PDF user space (origin bottom-left, y up) with `displayToPdfPoint`.
+ */
+
+import type { MaskPoint, MaskRectShape, MaskSettings, MaskShape } from '@/types/editor'
+
+export type PageRotation = 0 | 90 | 180 | 270
+
+interface Size {
+  width: number
+  height: number
+}
+
+export const DEFAULT_MASK_FILL = '#ffffff'
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+
+export function normalizeRotation(angle: number): PageRotation {
+  return ((((Math.round(angle / 90) * 90) % 360) + 360) % 360) as PageRotation
+}
+
+/** Display size of a page whose unrotated (MediaBox) size is `rawSize`. */
+export function displaySizeOf(rawSize: Size, rotation: PageRotation): Size {
+  return rotation === 90 || rotation === 270
+    ? { width: rawSize.height, height: rawSize.width }
+    : rawSize
+}
+
+/**
+ * react-pdf's `onLoadSuccess` reports the size in the page's own /Rotate even
+ * when the `rotate` prop overrides it; swap the sides for a quarter-turn override.
+ */
+export function renderedPageSize(page: Size & { rotate: number }, rotation: number | undefined): Size {
+  if (rotation === undefined) return { width: page.width, height: page.height }
+  const turn = normalizeRotation(rotation - page.rotate)
+  return turn === 90 || turn === 270
+    ? { width: page.height, height: page.width }
+    : { width: page.width, height: page.height }
+}
+
+/**
+ * Map a display-space point onto the unrotated page. /Rotate turns the page
+ * clockwise for display, so e.g. at 90° the raw page's left edge is shown on
+ * top and its bottom edge on the left.
+ */
+export function displayToPdfPoint(point: MaskPoint, rotation: PageRotation, rawSize: Size): MaskPoint {
+  switch (rotation) {
+    case 90:
+      return { x: point.y, y: point.x }
+    case 180:
+      return { x: rawSize.width - point.x, y: point.y }
+    case 270:
+      return { x: rawSize.width - point.y, y: rawSize.height - point.x }
+    default:
+      return { x: point.x, y: rawSize.height - point.y }
+  }
+}
+
+/** Axis-aligned display rect → axis-aligned PDF rect (x/y is the bottom-left corner). */
+export function displayRectToPdf(
+  rect: { x: number; y: number; width: number; height: number },
+  rotation: PageRotation,
+  rawSize: Size
+): { x: number; y: number; width: number; height: number } {
+  const a = displayToPdfPoint({ x: rect.x, y: rect.y }, rotation, rawSize)
+  const b = displayToPdfPoint({ x: rect.x + rect.width, y: rect.y + rect.height }, rotation, rawSize)
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  }
+}
+
+/**
+ * Every region a mask whites out, in display space: the bottom band, the
+ * L-shape strip (if enabled) and any free-form shapes, in drawing order.
+ */
+export function maskRegions(mask: MaskSettings, displaySize: Size): MaskShape[] {
+  const regions: MaskShape[] = []
+  if (mask.bottomHeight > 0) {
+    regions.push({
+      id: 'band-bottom',
+      type: 'rect',
+      x: 0,
+      y: displaySize.height - mask.bottomHeight,
+      width: displaySize.width,
+      height: mask.bottomHeight,
+      fill: DEFAULT_MASK_FILL,
+    })
+  }
+  if (mask.enableLShape && mask.leftWidth > 0) {
+    regions.push({
+      id: 'band-left',
+      type: 'rect',
+      x: 0,
+      y: 0,
+      width: mask.leftWidth,
+      height: Math.max(0, displaySize.height - mask.bottomHeight),
+      fill: DEFAULT_MASK_FILL,
+    })
+  }
+  return regions.concat(mask.shapes ?? [])
+}
+
+/** Outline of a region as a polygon (rects become their four corners). */
+export function regionPolygon(shape: MaskShape): MaskPoint[] {
+  if (shape.type === 'polygon') return shape.points
+  return [
+    { x: shape.x, y: shape.y },
+    { x: shape.x + shape.width, y: shape.y },
+    { x: shape.x + shape.width, y: shape.y + shape.height },
+    { x: shape.x, y: shape.y + shape.height },
+  ]
+}
+
+/** Even-odd point-in-polygon test (any consistent coordinate space). */
+export function pointInPolygon(p: MaskPoint, polygon: MaskPoint[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/** Scale shape geometry independently along x and y (used for page-relative templates). */
+export function scaleMaskShapes(shapes: MaskShape[], sx: number, sy: number): MaskShape[] {
+  return shapes.map((shape) =>
+    shape.type === 'rect'
+      ? { ...shape, x: shape.x * sx, y: shape.y * sy, width: shape.width * sx, height: shape.height * sy }
+      : { ...shape, points: shape.points.map((p) => ({ x: p.x * sx, y: p.y * sy })) }
+  )
+}
+
+/** Turn shapes with their page by 90° clockwise; `size` is the display size before the turn. */
+export function rotateMaskShapesClockwise(shapes: MaskShape[], size: Size): MaskShape[] {
+  return shapes.map((shape) =>
+    shape.type === 'rect'
+      ? { ...shape, x: size.height - shape.y - shape.height, y: shape.x, width: shape.height, height: shape.width }
+      : { ...shape, points: shape.points.map((p) => ({ x: size.height - p.y, y: p.x })) }
+  )
+}
+
+/**
+ * Turn a page's whole mask with it by 90° clockwise; `size` is the display
+ * size before the turn. The bottom band becomes a full-height left strip; the
+ * left strip ends up along the top, where no band goes, so it becomes a shape.
+ */
+export function rotateMaskClockwise(mask: MaskSettings, size: Size): MaskSettings {
+  const shapes = rotateMaskShapesClockwise(mask.shapes ?? [], size)
+  const left = maskRegions({ ...mask, shapes: [] }, size).find((region) => region.id === 'band-left')
+  if (left) shapes.push(...rotateMaskShapesClockwise([{ ...left, id: `mask-band-left-${Date.now()}` }], size))
+  return {
+    ...mask,
+    bottomHeight: 0,
+    leftWidth: mask.bottomHeight,
+    enableLShape: mask.bottomHeight > 0,
+    shapes,
+  }
+}
+
+/** SVG path for a polygon, for use with pdf-lib `drawSvgPath` at x = y = 0 (its y axis is flipped). */
+export function polygonToSvgPath(points: MaskPoint[]): string {
+  return points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${-p.y}`).join(' ') + ' Z'
+}
+
+export function parseHexColor(fill: string): { r: number; g: number; b: number } {
+  const hex = HEX_COLOR.test(fill) ? fill : DEFAULT_MASK_FILL
+  return {
+    r: parseInt(hex.slice(1, 3), 16) / 255,
+    g: parseInt(hex.slice(3, 5), 16) / 255,
+    b: parseInt(hex.slice(5, 7), 16) / 255,
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+/** Decode untrusted JSON (API bodies, template rows); invalid entries are dropped. */
+export function parseMaskShapes(raw: unknown): MaskShape[] {
+  if (!Array.isArray(raw)) return []
+  const shapes: MaskShape[] = []
+
+  raw.forEach((value, i) => {
+    if (!value || typeof value !== 'object') return
+    const s = value as Record<string, unknown>
+    const id = typeof s.id === 'string' && s.id ? s.id : `mask-${i}`
+    const fill = typeof s.fill === 'string' && HEX_COLOR.test(s.fill) ? s.fill : DEFAULT_MASK_FILL
+
+    if (s.type === 'rect') {
+      if (![s.x, s.y, s.width, s.height].every(isFiniteNumber)) return
+      const rect = s as unknown as MaskRectShape
+      if (rect.width <= 0 || rect.height <= 0) return
+      shapes.push({ id, type: 'rect', x: rect.x, y: rect.y, width: rect.width, height: rect.height, fill })
+    } else if (s.type === 'polygon' && Array.isArray(s.points)) {
+      const points = (s.points as unknown[]).filter(
+        (p): p is MaskPoint =>
+          !!p && typeof p === 'object' && isFiniteNumber((p as MaskPoint).x) && isFiniteNumber((p as MaskPoint).y)
+      )
+      if (points.length < 3) return
+      shapes.push({ id, type: 'polygon', points: points.map(({ x, y }) => ({ x, y })), fill })
+    }
+  })
+
+  return shapes
+}
@@ -0,0 +1,78 @@
+import type { PageInfo } from '@/types/editor'
+
+/** Which pages a batch apply targets (the source page itself is always excluded). */
+export type BatchScope = 'all' | 'checked' | 'same_size' | 'same_file'
+
+/** What a batch apply copies from the source page. */
+export type BatchContent = 'mask' | 'blocks' | 'both'
+
+// Sizes within this many points count as the same paper (rounding in producers)
+const SIZE_TOLERANCE = 2
+
+export function isSamePageSize(a: PageInfo, b: PageInfo): boolean {
+  if (!a.pageSize || !b.pageSize) return false
+  return (
+    Math.abs(a.pageSize.width - b.pageSize.width) <= SIZE_TOLERANCE &&
+    Math.abs(a.pageSize.height - b.pageSize.height) <= SIZE_TOLERANCE
+  )
+}
+
+export function batchTargetPages(
+  pages: PageInfo[],
+  source: PageInfo,
+  scope: BatchScope,
+  checkedPageIds: Set<string>
+): PageInfo[] {
+  return pages.filter((page) => {
+    if (page.id === source.id) return false
+    switch (scope) {
+      case 'all': return true
+      case 'checked': return checkedPageIds.has(page.id)
+      case 'same_size': return isSamePageSize(page, source)
+      case 'same_file': return page.fileId === source.fileId
+    }
+  })
+}
+
+/** Pages that publish as one listing share this key: the explicit group, else the source file. */
+export function listingKeyOf(page: PageInfo): string {
+  return page.listingGroup ?? page.fileId
+}
+
+/** Pages grouped into listings, in order of each listing's first page. */
+export function groupIntoListings(pages: PageInfo[]): PageInfo[][] {
+  const groups = new Map<string, PageInfo[]>()
+  for (const page of pages) {
+    const key = listingKeyOf(page)
+    groups.set(key, [...(groups.get(key) ?? []), page])
+  }
+  return Array.from(groups.values())
+}
+
+// The run of pages from `index` onwards that belong to the same listing as pages[index]
+function listingRunFrom(pages: PageInfo[], index: number): Set<string> {
+  const key = listingKeyOf(pages[index])
+  const ids = new Set<string>()
+  for (let i = index; i < pages.length && listingKeyOf(pages[i]) === key; i++) ids.add(pages[i].id)
+  return ids
+}
+
+/** Start a new listing at `pageId`; it and the following pages of its listing move to the new one. */
+export function splitListingAt(pages: PageInfo[], pageId: string): PageInfo[] {
+  const index = pages.findIndex((p) => p.id === pageId)
+  if (index <= 0) return pages
+  const run = listingRunFrom(pages, index)
+  const group = `listing-${Date.now().toString(36)}-${pageId}`
+  return pages.map((p) => (run.has(p.id) ? { ...p, listingGroup: group } : p))
+}
+
+/** Undo a split: `pageId` and the rest of its run join the listing of the page before it. */
+export function joinListingWithPrevious(pages: PageInfo[], pageId: string): PageInfo[] {
+  const index = pages.findIndex((p) => p.id === pageId)
+  if (index <= 0) return pages
+  const run = listingRunFrom(pages, index)
+  const previous = pages[index - 1]
+  return pages.map((p) =>
+    run.has(p.id) ? { ...p, listingGroup: listingKeyOf(previous) } : p
+  )
+}
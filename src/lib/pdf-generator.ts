@@ -1,16 +1,24 @@
-import { PDFDocument, rgb, degrees, PDFImage } from 'pdf-lib'
+import { PDFDocument, rgb, degrees, PDFFont, PDFImage } from 'pdf-lib'
 import fontkit from '@pdf-lib/fontkit'
-import type { CompanyProfile, Block, TextBlock, ImageBlock } from '@/lib/database.types'
+import type { CompanyProfile, Block, ImageBlock, ShapeBlock } from '@/lib/database.types'
+import { blockFont, blockTextContent, isTextualBlock, parseCustomFonts, qrBlockContent, type QrTargets } from '@/lib/blocks'
 import type { MaskSettings, PageInfo } from '@/types/editor'
-
-const FEE_LABELS: Record<string, string> = {
-  fee_ratio_landlord: '貸主負担',
-  fee_ratio_tenant: '借主負担',
-  fee_distribution_motoduke: '元付配分',
-  fee_distribution_kyakuzuke: '客付配分',
-}
-
-async function embedImage(pdfDoc: PDFDocument, imageUrl: string): Promise<PDFImage | null> {
+import {
+  displayRectToPdf,
+  displaySizeOf,
+  displayToPdfPoint,
+  maskRegions,
+  normalizeRotation,
+  parseHexColor,
+  polygonToSvgPath,
+  regionPolygon,
+} from '@/lib/mask-geometry'
+import { redactPage } from '@/lib/pdf-redaction'
+import { QR_QUIET_ZONE, encodeQr, qrRuns } from '@/lib/qr-code'
+import { layoutText, runOrigin } from '@/lib/text-layout'
+
+/** Null when the image can't be fetched or decoded; its blocks are then left out (see `runPreflight`). */
+export async function embedImage(pdfDoc: PDFDocument, imageUrl: string): Promise<PDFImage | null> {
   try {
     const response = await fetch(imageUrl)
     if (!response.ok) return null
@@ -37,6 +45,14 @@ async function embedImage(pdfDoc: PDFDocument, imageUrl: string): Promise<PDFIma
   }
 }
 
+/** Raw TTF bytes for the Japanese regular/bold faces embedded into the output. */
+export interface PdfFontBytes {
+  regular: ArrayBuffer | Uint8Array
+  bold: ArrayBuffer | Uint8Array
+  /** Company fonts by `CompanyFont.id`; any not given are fetched from their URL */
+  custom?: { [fontId: string]: ArrayBuffer | Uint8Array }
+}
+
 export interface GeneratePdfParams {
   pages: PageInfo[]
   maskSettings: { [pageId: string]: MaskSettings }
@@ -44,11 +60,23 @@ export interface GeneratePdfParams {
   companyProfile: CompanyProfile | null
   pageDimensions: { [pageId: string]: { width: number; height: number } }
   pageScales: { [pageId: string]: number }
+  /**
+   * Pre-loaded font bytes. Server-side callers (no relative fetch available)
+   * must pass these; in the browser they default to `/fonts/NotoSansJP-*.ttf`.
+   */
+  fonts?: PdfFontBytes
+  /**
+   * Remove the original text / images under the masks from the content
+   * stream instead of only painting over them (see `redactPage`).
+   */
+  redact?: boolean
+  /** Publish-time URLs for listing / proposal QR blocks; without them those blocks are skipped */
+  qrTargets?: QrTargets
+  /** Called after each output page (pages without a mask are not output) */
+  onProgress?: (done: number, total: number) => void
 }
 
-export async function generateModifiedPdf(params: GeneratePdfParams): Promise<Uint8Array> {
-  const { pages, maskSettings, blocks, companyProfile, pageDimensions, pageScales } = params
-
+async function fetchDefaultFonts(): Promise<PdfFontBytes> {
   const fontUrl = '/fonts/NotoSansJP-Regular.ttf'
   const fontBoldUrl = '/fonts/NotoSansJP-Bold.ttf'
 
@@ -61,14 +89,58 @@ export async function generateModifiedPdf(params: GeneratePdfParams): Promise<Ui
     throw new Error('フォントの読み込みに失敗しました')
   }
 
-  const fontBytes = await fontResponse.arrayBuffer()
-  const fontBoldBytes = await fontBoldResponse.arrayBuffer()
+  return {
+    regular: await fontResponse.arrayBuffer(),
+    bold: await fontBoldResponse.arrayBuffer(),
+  }
+}
+
+/**
+ * Embed the company fonts that some text block actually uses. A font that
+ * fails to load is skipped and its blocks fall back to Noto Sans JP.
+ */
+async function embedCompanyFonts(
+  pdfDoc: PDFDocument,
+  params: GeneratePdfParams
+): Promise<{ [fontId: string]: PDFFont }> {
+  const fonts = parseCustomFonts(params.companyProfile?.custom_fonts)
+  const used = new Set(
+    Object.values(params.blocks)
+      .flat()
+      .flatMap((block) => (isTextualBlock(block) ? [blockFont(block, fonts)?.id] : []))
+  )
+
+  const embedded: { [fontId: string]: PDFFont } = {}
+  for (const font of fonts) {
+    if (!used.has(font.id)) continue
+    try {
+      let bytes = params.fonts?.custom?.[font.id]
+      if (!bytes) {
+        if (!font.url) throw new Error('no signed URL')
+        const response = await fetch(font.url)
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        bytes = await response.arrayBuffer()
+      }
+      embedded[font.id] = await pdfDoc.embedFont(bytes, { subset: true })
+    } catch (err) {
+      console.warn('[pdf-generator] company font unavailable, using Noto Sans JP:', font.name, err)
+    }
+  }
+  return embedded
+}
+
+export async function generateModifiedPdf(params: GeneratePdfParams): Promise<Uint8Array> {
+  const { pages, maskSettings, blocks, companyProfile, pageDimensions } = params
+
+  const { regular: fontBytes, bold: fontBoldBytes } = params.fonts ?? await fetchDefaultFonts()
 
   const mergedPdf = await PDFDocument.create()
   mergedPdf.registerFontkit(fontkit)
 
-  const japaneseFont = await mergedPdf.embedFont(fontBytes)
-  const japaneseFontBold = await mergedPdf.embedFont(fontBoldBytes)
+  // Subset so the output carries only the glyphs used (the full CJK faces are several MB each)
+  const japaneseFont = await mergedPdf.embedFont(fontBytes, { subset: true })
+  const japaneseFontBold = await mergedPdf.embedFont(fontBoldBytes, { subset: true })
+  const companyFonts = await embedCompanyFonts(mergedPdf, params)
 
   const imageCache: { [url: string]: PDFImage } = {}
 
@@ -81,6 +153,9 @@ export async function generateModifiedPdf(params: GeneratePdfParams): Promise<Ui
     if (qrImage) imageCache[companyProfile.line_qr_url] = qrImage
   }
 
+  const total = pages.filter((page) => maskSettings[page.id]).length
+  let done = 0
+
   for (let i = 0; i < pages.length; i++) {
     const page = pages[i]
     const mask = maskSettings[page.id]
@@ -92,57 +167,95 @@ export async function generateModifiedPdf(params: GeneratePdfParams): Promise<Ui
     mergedPdf.addPage(copiedPage)
 
     const pdfPage = mergedPdf.getPage(mergedPdf.getPageCount() - 1)
-    const { width: rawWidth, height: rawHeight } = pdfPage.getSize()
-    const rotation = pdfPage.getRotation().angle
-
-    const isRotated = rotation === 90 || rotation === 270
-    const displayWidth = isRotated ? rawHeight : rawWidth
-    const displayHeight = isRotated ? rawWidth : rawHeight
+    // Rotation chosen in the page list replaces the source /Rotate; masks and blocks are already in that orientation
+    if (page.rotation !== undefined) pdfPage.setRotation(degrees(normalizeRotation(page.rotation)))
+    const rawSize = pdfPage.getSize()
+    const rotation = normalizeRotation(pdfPage.getRotation().angle)
+    const { width: displayWidth, height: displayHeight } = displaySizeOf(rawSize, rotation)
 
     const dims = pageDimensions[page.id] || { width: displayWidth, height: displayHeight }
     const scaleRatio = displayWidth / dims.width
 
-    // White-out (bottom)
-    const bottomMaskHeight = mask.bottomHeight
-
-    let maskX: number, maskY: number, maskW: number, maskH: number
-
-    switch (rotation) {
-      case 90:
-        maskX = 0; maskY = 0; maskW = bottomMaskHeight; maskH = rawHeight
-        break
-      case 180:
-        maskX = 0; maskY = rawHeight - bottomMaskHeight; maskW = rawWidth; maskH = bottomMaskHeight
-        break
-      case 270:
-        maskX = rawWidth - bottomMaskHeight; maskY = 0; maskW = bottomMaskHeight; maskH = rawHeight
-        break
-      default:
-        maskX = 0; maskY = 0; maskW = rawWidth; maskH = bottomMaskHeight
+    const regions = maskRegions(mask, { width: displayWidth, height: displayHeight })
+
+    if (params.redact) {
+      redactPage(
+        pdfPage,
+        regions.map((region) => regionPolygon(region).map((p) => displayToPdfPoint(p, rotation, rawSize)))
+      )
     }
 
-    pdfPage.drawRectangle({ x: maskX, y: maskY, width: maskW, height: maskH, color: rgb(1, 1, 1) })
-
-    // White-out (L-shape left)
-    if (mask.enableLShape && mask.leftWidth > 0) {
-      let leftX: number, leftY: number, leftW: number, leftH: number
-      const leftMaskWidth = mask.leftWidth
-
-      switch (rotation) {
-        case 90:
-          leftX = 0; leftY = 0; leftW = rawWidth - bottomMaskHeight; leftH = leftMaskWidth
-          break
-        case 180:
-          leftX = rawWidth - leftMaskWidth; leftY = 0; leftW = leftMaskWidth; leftH = rawHeight - bottomMaskHeight
-          break
-        case 270:
-          leftX = bottomMaskHeight; leftY = rawHeight - leftMaskWidth; leftW = rawWidth - bottomMaskHeight; leftH = leftMaskWidth
-          break
-        default:
-          leftX = 0; leftY = bottomMaskHeight; leftW = leftMaskWidth; leftH = rawHeight - bottomMaskHeight
+    // White-out (bottom band, L-shape strip, free-form shapes)
+    for (const region of regions) {
+      const { r, g, b } = parseHexColor(region.fill)
+      if (region.type === 'rect') {
+        const rect = displayRectToPdf(region, rotation, rawSize)
+        pdfPage.drawRectangle({ ...rect, color: rgb(r, g, b) })
+      } else {
+        const points = region.points.map((p) => displayToPdfPoint(p, rotation, rawSize))
+        pdfPage.drawSvgPath(polygonToSvgPath(points), { x: 0, y: 0, color: rgb(r, g, b) })
+      }
+    }
+
+    // Shape blocks (drawn first so text and images sit on top of box fills)
+    for (const block of pageBlocks) {
+      if (block.type !== 'shape') continue
+      const shape = block as ShapeBlock
+      const stroke = parseHexColor(shape.strokeColor)
+      const strokeWidth = shape.strokeWidth * scaleRatio
+      const rect = {
+        x: shape.x * scaleRatio,
+        y: shape.y * scaleRatio,
+        width: shape.width * scaleRatio,
+        height: shape.height * scaleRatio,
+      }
+
+      if (shape.field === 'line') {
+        // Horizontal or vertical rule through the middle of the block
+        const horizontal = rect.width >= rect.height
+        const start = horizontal
+          ? { x: rect.x, y: rect.y + rect.height / 2 }
+          : { x: rect.x + rect.width / 2, y: rect.y }
+        const end = horizontal
+          ? { x: rect.x + rect.width, y: rect.y + rect.height / 2 }
+          : { x: rect.x + rect.width / 2, y: rect.y + rect.height }
+        pdfPage.drawLine({
+          start: displayToPdfPoint(start, rotation, rawSize),
+          end: displayToPdfPoint(end, rotation, rawSize),
+          thickness: strokeWidth,
+          color: rgb(stroke.r, stroke.g, stroke.b),
+        })
+      } else {
+        const fill = shape.fillColor ? parseHexColor(shape.fillColor) : null
+        pdfPage.drawRectangle({
+          ...displayRectToPdf(rect, rotation, rawSize),
+          color: fill ? rgb(fill.r, fill.g, fill.b) : undefined,
+          borderColor: strokeWidth > 0 ? rgb(stroke.r, stroke.g, stroke.b) : undefined,
+          borderWidth: strokeWidth,
+        })
       }
+    }
 
-      pdfPage.drawRectangle({ x: leftX, y: leftY, width: leftW, height: leftH, color: rgb(1, 1, 1) })
+    // Text block backgrounds / borders (inset so the border stays inside the block, as in the preview)
+    for (const block of pageBlocks) {
+      if (!isTextualBlock(block)) continue
+      const borderWidth = (block.borderWidth ?? 0) * scaleRatio
+      if (!block.backgroundColor && borderWidth <= 0) continue
+
+      const fill = block.backgroundColor ? parseHexColor(block.backgroundColor) : null
+      const border = parseHexColor(block.borderColor ?? '#000000')
+      const rect = {
+        x: block.x * scaleRatio + borderWidth / 2,
+        y: block.y * scaleRatio + borderWidth / 2,
+        width: block.width * scaleRatio - borderWidth,
+        height: block.height * scaleRatio - borderWidth,
+      }
+      pdfPage.drawRectangle({
+        ...displayRectToPdf(rect, rotation, rawSize),
+        color: fill ? rgb(fill.r, fill.g, fill.b) : undefined,
+        borderColor: borderWidth > 0 ? rgb(border.r, border.g, border.b) : undefined,
+        borderWidth,
+      })
     }
 
     // Image blocks
@@ -160,92 +273,89 @@ export async function generateModifiedPdf(params: GeneratePdfParams): Promise<Ui
 
       const drawWidth = imageBlock.width * scaleRatio
       const drawHeight = imageBlock.height * scaleRatio
-      const blockX = imageBlock.x * scaleRatio
-      const blockY = imageBlock.y * scaleRatio
-
-      let pdfX: number, pdfY: number
-      let imageRotation = 0
-
-      switch (rotation) {
-        case 90:
-          pdfX = blockY; pdfY = rawHeight - blockX - drawWidth; imageRotation = -90
-          break
-        case 180:
-          pdfX = displayWidth - blockX - drawWidth; pdfY = blockY; imageRotation = 180
-          break
-        case 270:
-          pdfX = rawWidth - blockY - drawHeight; pdfY = blockX; imageRotation = 90
-          break
-        default:
-          pdfX = blockX; pdfY = displayHeight - blockY - drawHeight; imageRotation = 0
-      }
-
-      if (imageRotation !== 0) {
-        pdfPage.drawImage(embeddedImage, {
-          x: pdfX, y: pdfY,
-          width: imageRotation === 90 || imageRotation === -90 ? drawHeight : drawWidth,
-          height: imageRotation === 90 || imageRotation === -90 ? drawWidth : drawHeight,
-          rotate: degrees(imageRotation),
-        })
-      } else {
-        pdfPage.drawImage(embeddedImage, { x: pdfX, y: pdfY, width: drawWidth, height: drawHeight })
-      }
+      // drawImage rotates about the image's bottom-left corner
+      const anchor = displayToPdfPoint(
+        { x: imageBlock.x * scaleRatio, y: imageBlock.y * scaleRatio + drawHeight },
+        rotation,
+        rawSize
+      )
+
+      pdfPage.drawImage(embeddedImage, {
+        x: anchor.x, y: anchor.y,
+        width: drawWidth, height: drawHeight,
+        rotate: degrees(rotation),
+      })
     }
 
-    // Text blocks
+    // QR blocks, drawn as vector modules on a white square that includes the quiet zone
     for (const block of pageBlocks) {
-      if (block.type !== 'text' || !companyProfile) continue
-
-      const textBlock = block as TextBlock
-
-      let content: string
-      if (textBlock.field.startsWith('fee_')) {
-        const value = companyProfile[textBlock.field as keyof CompanyProfile] as number | null
-        if (value === null || value === undefined) continue
-        content = `${FEE_LABELS[textBlock.field] || textBlock.field}: ${value}%`
-      } else {
-        content = companyProfile[textBlock.field as keyof CompanyProfile] as string
-        if (!content) continue
-      }
-
-      const font = textBlock.fontWeight === 'bold' ? japaneseFontBold : japaneseFont
-      const fontSize = textBlock.fontSize * scaleRatio
+      if (block.type !== 'qr') continue
+      const content = qrBlockContent(block, companyProfile, page.id, params.qrTargets)
+      if (!content) continue
+
+      const qr = encodeQr(content)
+      const side = Math.min(block.width, block.height) * scaleRatio
+      const moduleSize = side / (qr.size + QR_QUIET_ZONE * 2)
+      const left = block.x * scaleRatio + (block.width * scaleRatio - side) / 2
+      const top = block.y * scaleRatio + (block.height * scaleRatio - side) / 2
+      pdfPage.drawRectangle({
+        ...displayRectToPdf({ x: left, y: top, width: side, height: side }, rotation, rawSize),
+        color: rgb(1, 1, 1),
+      })
 
-      const textWidthPx = font.widthOfTextAtSize(content, fontSize)
-      const blockWidthPdf = textBlock.width * scaleRatio
+      const path = qrRuns(qr)
+        .map((run) => {
+          const x = left + (run.x + QR_QUIET_ZONE) * moduleSize
+          const y = top + (run.y + QR_QUIET_ZONE) * moduleSize
+          const w = run.length * moduleSize
+          const corners = [
+            { x, y },
+            { x: x + w, y },
+            { x: x + w, y: y + moduleSize },
+            { x, y: y + moduleSize },
+          ]
+          return polygonToSvgPath(corners.map((p) => displayToPdfPoint(p, rotation, rawSize)))
+        })
+        .join(' ')
+      const color = parseHexColor(block.color ?? '#000000')
+      pdfPage.drawSvgPath(path, { x: 0, y: 0, color: rgb(color.r, color.g, color.b) })
+    }
 
-      let blockX = textBlock.x * scaleRatio
-      if (textBlock.textAlign === 'center') {
-        blockX += (blockWidthPdf - textWidthPx) / 2
-      } else if (textBlock.textAlign === 'right') {
-        blockX += blockWidthPdf - textWidthPx
-      }
-      const baselineY = (textBlock.y + textBlock.height - 2) * scaleRatio
-
-      let pdfTextX: number, pdfTextY: number
-      let textRotation = 0
-
-      switch (rotation) {
-        case 90:
-          pdfTextX = baselineY; pdfTextY = rawHeight - blockX - textWidthPx; textRotation = -90
-          break
-        case 180:
-          pdfTextX = displayWidth - blockX - textWidthPx; pdfTextY = baselineY; textRotation = 180
-          break
-        case 270:
-          pdfTextX = rawWidth - baselineY; pdfTextY = blockX; textRotation = -90
-          break
-        default:
-          pdfTextX = blockX; pdfTextY = displayHeight - baselineY; textRotation = 0
+    // Text blocks (company fields, free text, custom fields)
+    for (const block of pageBlocks) {
+      if (!isTextualBlock(block)) continue
+
+      const textBlock = block
+      const content = blockTextContent(textBlock, companyProfile)
+      if (!content) continue
+
+      // Company fonts have a single face, so bold only applies to Noto Sans JP
+      const font = (textBlock.fontFamily && companyFonts[textBlock.fontFamily])
+        || (textBlock.fontWeight === 'bold' ? japaneseFontBold : japaneseFont)
+      const color = parseHexColor(textBlock.textColor ?? '#000000')
+      // Lay out in preview pixels (same as the HTML preview), then scale
+      const layout = layoutText(content, textBlock, (text, size) => font.widthOfTextAtSize(text, size))
+
+      for (const run of layout.runs) {
+        if (!run.text) continue
+        const origin = runOrigin(run)
+        const anchor = displayToPdfPoint(
+          { x: (textBlock.x + origin.x) * scaleRatio, y: (textBlock.y + origin.y) * scaleRatio },
+          rotation,
+          rawSize
+        )
+
+        pdfPage.drawText(run.text, {
+          x: anchor.x, y: anchor.y,
+          size: layout.fontSize * scaleRatio, font,
+          color: rgb(color.r, color.g, color.b),
+          // Sideways glyphs in vertical text turn a further 90° clockwise
+          rotate: degrees(run.rotateAbout ? rotation - 90 : rotation),
+        })
       }
-
-      pdfPage.drawText(content, {
-        x: pdfTextX, y: pdfTextY,
-        size: fontSize, font,
-        color: rgb(0, 0, 0),
-        rotate: textRotation !== 0 ? degrees(textRotation) : undefined,
-      })
     }
+
+    params.onProgress?.(++done, total)
   }
 
   const pdfBytes = await mergedPdf.save()
@@ -0,0 +1,152 @@
+/**
+ * Print layout for exported PDFs: place every page of `generateModifiedPdf`'s
+ * output onto a fixed paper size (A4 / B4 / A3), optionally two per sheet for
+ * handing out at the counter.
+ *
+ * Pages are embedded as form XObjects, which ignore the source page's
+ * /Rotate, so the rotation is re-applied when drawing. Sheets never carry a
+ * /Rotate of their own.
+ */
+
+import {
+  PDFDocument,
+  clip,
+  degrees,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  type PDFEmbeddedPage,
+  type PDFPage,
+} from 'pdf-lib'
+import { displaySizeOf, normalizeRotation } from '@/lib/mask-geometry'
+
+export type PaperSize = 'original' | 'A4' | 'B4' | 'A3'
+
+/** fit: whole page visible (letterboxed); fill: cover the cell, cropping the overflow. */
+export type FitMode = 'fit' | 'fill'
+
+export interface ImpositionOptions {
+  paper: PaperSize
+  fit: FitMode
+  marginMm: number
+  /** 2 = two pages side by side on each sheet */
+  pagesPerSheet: 1 | 2
+}
+
+export const DEFAULT_IMPOSITION: ImpositionOptions = {
+  paper: 'original',
+  fit: 'fit',
+  marginMm: 0,
+  pagesPerSheet: 1,
+}
+
+export const PAPER_LABELS: Record<PaperSize, string> = {
+  original: '元のサイズ',
+  A4: 'A4',
+  B4: 'B4',
+  A3: 'A3',
+}
+
+const MM_TO_PT = 72 / 25.4
+
+// Portrait sizes in mm (B4 is JIS B4, the Japanese office size)
+const PAPER_MM: Record<Exclude<PaperSize, 'original'>, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  B4: { width: 257, height: 364 },
+  A3: { width: 297, height: 420 },
+}
+
+interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+interface SourcePage {
+  embedded: PDFEmbeddedPage
+  rotation: 0 | 90 | 180 | 270
+  /** Size as displayed (after /Rotate) */
+  width: number
+  height: number
+}
+
+/** Draw `source` centred in `cell`, rotated to its display orientation and clipped to the cell. */
+function drawInCell(sheet: PDFPage, source: SourcePage, cell: Box, fit: FitMode) {
+  const sx = cell.width / source.width
+  const sy = cell.height / source.height
+  const scale = fit === 'fit' ? Math.min(sx, sy) : Math.max(sx, sy)
+  const w = source.width * scale
+  const h = source.height * scale
+  const left = cell.x + (cell.width - w) / 2
+  const bottom = cell.y + (cell.height - h) / 2
+
+  // drawPage rotates counter-clockwise about the origin; /Rotate is clockwise.
+  // Shift the origin so the rotated content lands on [left, bottom, w, h].
+  const origin = {
+    0: { x: left, y: bottom },
+    90: { x: left, y: bottom + h },
+    180: { x: left + w, y: bottom + h },
+    270: { x: left + w, y: bottom },
+  }[source.rotation]
+
+  sheet.pushOperators(pushGraphicsState(), rectangle(cell.x, cell.y, cell.width, cell.height), clip(), endPath())
+  sheet.drawPage(source.embedded, {
+    x: origin.x,
+    y: origin.y,
+    xScale: scale,
+    yScale: scale,
+    rotate: degrees(-source.rotation),
+  })
+  sheet.pushOperators(popGraphicsState())
+}
+
+/** Re-lay `pdfBytes` onto the chosen paper. Returns the input unchanged for `original` size. */
+export async function imposePdf(pdfBytes: Uint8Array, options: ImpositionOptions): Promise<Uint8Array> {
+  if (options.paper === 'original') return pdfBytes
+
+  const src = await PDFDocument.load(pdfBytes)
+  const out = await PDFDocument.create()
+  const srcPages = src.getPages()
+  const embedded = await out.embedPages(srcPages)
+
+  const sources: SourcePage[] = srcPages.map((page, i) => {
+    const rotation = normalizeRotation(page.getRotation().angle)
+    return { embedded: embedded[i], rotation, ...displaySizeOf(page.getSize(), rotation) }
+  })
+
+  const paper = PAPER_MM[options.paper]
+  const short = paper.width * MM_TO_PT
+  const long = paper.height * MM_TO_PT
+  const margin = Math.max(0, options.marginMm) * MM_TO_PT
+
+  for (let i = 0; i < sources.length; i += options.pagesPerSheet) {
+    const group = sources.slice(i, i + options.pagesPerSheet)
+    const landscapeSource = group[0].width > group[0].height
+
+    if (options.pagesPerSheet === 1) {
+      // Sheet follows the page's orientation
+      const [width, height] = landscapeSource ? [long, short] : [short, long]
+      const sheet = out.addPage([width, height])
+      drawInCell(sheet, group[0], { x: margin, y: margin, width: width - margin * 2, height: height - margin * 2 }, options.fit)
+      continue
+    }
+
+    // 2-up: portrait pages side by side on a landscape sheet, landscape pages stacked on a portrait one
+    const [width, height] = landscapeSource ? [short, long] : [long, short]
+    const sheet = out.addPage([width, height])
+    const cells: Box[] = landscapeSource
+      ? [
+          { x: margin, y: height / 2 + margin / 2, width: width - margin * 2, height: height / 2 - margin * 1.5 },
+          { x: margin, y: margin, width: width - margin * 2, height: height / 2 - margin * 1.5 },
+        ]
+      : [
+          { x: margin, y: margin, width: width / 2 - margin * 1.5, height: height - margin * 2 },
+          { x: width / 2 + margin / 2, y: margin, width: width / 2 - margin * 1.5, height: height - margin * 2 },
+        ]
+    group.forEach((source, k) => drawInCell(sheet, source, cells[k], options.fit))
+  }
+
+  return out.save()
+}
@@ -0,0 +1,773 @@
+/**
+ * True redaction — removes text glyphs and images that fall inside mask
+ * regions from a page's content streams, so the original broker's name, phone
+ * and licence number are gone from the text layer instead of merely being
+ * painted over.
+ *
+ * The content stream is tokenised and the graphics / text state is tracked
+ * well enough to place every glyph. Removed glyphs are replaced with TJ
+ * kerning of the same advance, so surviving text in the same text object does
+ * not shift. Form XObjects are redacted into private copies (the original may
+ * be drawn elsewhere unredacted).
+ *
+ * Limits: pixels inside raster images cannot be removed this way — a scanned
+ * band stays in the image and is only covered by the white-out. Images are
+ * dropped only when they lie entirely within a region.
+ */
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+  type PDFContext,
+  type PDFObject,
+  type PDFPage,
+} from 'pdf-lib'
+import { pointInPolygon } from '@/lib/mask-geometry'
+import type { MaskPoint } from '@/types/editor'
+
+type Matrix = [number, number, number, number, number, number]
+
+type Operand =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; value: string }
+  | { kind: 'string'; bytes: Uint8Array }
+  | { kind: 'array'; items: Operand[] }
+  | { kind: 'dict'; keys: string[] }
+  | { kind: 'other' }
+
+interface Operation {
+  op: string
+  operands: Operand[]
+  start: number
+  end: number
+}
+
+interface FontInfo {
+  vertical: boolean
+  /** Returns [code, byteLength] of the code starting at `i`. */
+  readCode: (bytes: Uint8Array, i: number) => [number, number]
+  /** Advance of `code` per unit font size (horizontal w0, or vertical -w1y). */
+  advance: (code: number) => number
+}
+
+interface GraphicsState {
+  ctm: Matrix
+  font: FontInfo | null
+  fontSize: number
+  charSpacing: number
+  wordSpacing: number
+  hScale: number
+  leading: number
+  rise: number
+}
+
+export interface RedactionStats {
+  removedGlyphs: number
+  removedImages: number
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+const MAX_FORM_DEPTH = 8
+const encoder = new TextEncoder()
+
+// ---------------------------------------------------------------------------
+// Geometry
+// ---------------------------------------------------------------------------
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ]
+}
+
+function apply(m: Matrix, x: number, y: number): MaskPoint {
+  return { x: x * m[0] + y * m[2] + m[4], y: x * m[1] + y * m[3] + m[5] }
+}
+
+const insideAny = (p: MaskPoint, regions: MaskPoint[][]) => regions.some((r) => pointInPolygon(p, r))
+
+// The unit square an image (or a form's BBox) is painted into, in user space.
+function boxCorners(m: Matrix, box: [number, number, number, number] = [0, 0, 1, 1]): MaskPoint[] {
+  const [x0, y0, x1, y1] = box
+  return [apply(m, x0, y0), apply(m, x1, y0), apply(m, x1, y1), apply(m, x0, y1)]
+}
+
+// ---------------------------------------------------------------------------
+// Content stream tokeniser
+// ---------------------------------------------------------------------------
+
+const isWhite = (c: number) => c === 0 || c === 9 || c === 10 || c === 12 || c === 13 || c === 32
+const isDelimiter = (c: number) =>
+  c === 0x28 || c === 0x29 || c === 0x3c || c === 0x3e || c === 0x5b || c === 0x5d ||
+  c === 0x7b || c === 0x7d || c === 0x2f || c === 0x25
+const isRegular = (c: number) => !isWhite(c) && !isDelimiter(c)
+
+function parseOperations(data: Uint8Array): Operation[] {
+  let pos = 0
+  const ops: Operation[] = []
+
+  const skipSpace = () => {
+    while (pos < data.length) {
+      if (isWhite(data[pos])) {
+        pos++
+      } else if (data[pos] === 0x25) {
+        while (pos < data.length && data[pos] !== 10 && data[pos] !== 13) pos++
+      } else {
+        break
+      }
+    }
+  }
+
+  const readRegular = () => {
+    const start = pos
+    while (pos < data.length && isRegular(data[pos])) pos++
+    return String.fromCharCode(...data.subarray(start, pos))
+  }
+
+  const readLiteralString = (): Uint8Array => {
+    pos++ // (
+    const out: number[] = []
+    let depth = 1
+    while (pos < data.length) {
+      const c = data[pos++]
+      if (c === 0x5c) {
+        const e = data[pos++]
+        if (e === 0x6e) out.push(10)
+        else if (e === 0x72) out.push(13)
+        else if (e === 0x74) out.push(9)
+        else if (e === 0x62) out.push(8)
+        else if (e === 0x66) out.push(12)
+        else if (e === 13) { if (data[pos] === 10) pos++ }
+        else if (e === 10) { /* line continuation */ }
+        else if (e >= 0x30 && e <= 0x37) {
+          let n = e - 0x30
+          for (let k = 0; k < 2 && data[pos] >= 0x30 && data[pos] <= 0x37; k++) n = n * 8 + data[pos++] - 0x30
+          out.push(n & 0xff)
+        } else out.push(e)
+      } else if (c === 0x28) {
+        depth++
+        out.push(c)
+      } else if (c === 0x29) {
+        if (--depth === 0) break
+        out.push(c)
+      } else {
+        out.push(c)
+      }
+    }
+    return new Uint8Array(out)
+  }
+
+  const readHexString = (): Uint8Array => {
+    pos++ // <
+    let hex = ''
+    while (pos < data.length && data[pos] !== 0x3e) {
+      if (!isWhite(data[pos])) hex += String.fromCharCode(data[pos])
+      pos++
+    }
+    pos++ // >
+    if (hex.length % 2) hex += '0'
+    const out = new Uint8Array(hex.length / 2)
+    for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16) || 0
+    return out
+  }
+
+  // Returns an operand, an operator keyword, or null at end of data.
+  const readObject = (): Operand | { kind: 'op'; value: string } | null => {
+    skipSpace()
+    if (pos >= data.length) return null
+    const c = data[pos]
+
+    if (c === 0x28) return { kind: 'string', bytes: readLiteralString() }
+    if (c === 0x3c && data[pos + 1] === 0x3c) {
+      pos += 2
+      const keys: string[] = []
+      let expectKey = true
+      for (;;) {
+        skipSpace()
+        if (pos >= data.length) break
+        if (data[pos] === 0x3e && data[pos + 1] === 0x3e) {
+          pos += 2
+          break
+        }
+        const item = readObject()
+        if (!item) break
+        if (expectKey && item.kind === 'name') keys.push(item.value)
+        expectKey = !expectKey
+      }
+      return { kind: 'dict', keys }
+    }
+    if (c === 0x3c) return { kind: 'string', bytes: readHexString() }
+    if (c === 0x5b) {
+      pos++
+      const items: Operand[] = []
+      for (;;) {
+        skipSpace()
+        if (pos >= data.length) break
+        if (data[pos] === 0x5d) {
+          pos++
+          break
+        }
+        const item = readObject()
+        if (!item) break
+        if (item.kind !== 'op') items.push(item)
+      }
+      return { kind: 'array', items }
+    }
+    if (c === 0x2f) {
+      pos++
+      const raw = readRegular()
+      return { kind: 'name', value: raw.replace(/#([0-9a-fA-F]{2})/g, (_, h) => String.fromCharCode(parseInt(h, 16))) }
+    }
+    if (c === 0x5d || c === 0x3e || c === 0x29 || c === 0x7b || c === 0x7d) {
+      pos++ // stray delimiter
+      return { kind: 'other' }
+    }
+
+    const word = readRegular()
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return { kind: 'number', value: parseFloat(word) }
+    if (/^[+-.\d]+$/.test(word)) return { kind: 'number', value: parseFloat(word) || 0 }
+    if (word === 'true' || word === 'false' || word === 'null') return { kind: 'other' }
+    return { kind: 'op', value: word }
+  }
+
+  let operands: Operand[] = []
+  skipSpace()
+  let start = pos
+
+  while (pos < data.length) {
+    const obj = readObject()
+    if (!obj) break
+    if (obj.kind !== 'op') {
+      operands.push(obj)
+      continue
+    }
+
+    if (obj.value === 'BI') {
+      // Inline image: skip the dictionary, then the binary data up to EI
+      while (pos < data.length) {
+        const item = readObject()
+        if (!item || (item.kind === 'op' && item.value === 'ID')) break
+      }
+      pos++ // single whitespace after ID
+      while (
+        pos < data.length &&
+        !(isWhite(data[pos - 1]) && data[pos] === 0x45 && data[pos + 1] === 0x49 &&
+          (pos + 2 >= data.length || isWhite(data[pos + 2])))
+      ) pos++
+      pos = Math.min(data.length, pos + 2)
+    }
+
+    ops.push({ op: obj.value, operands, start, end: pos })
+    operands = []
+    skipSpace()
+    start = pos
+  }
+
+  return ops
+}
+
+// ---------------------------------------------------------------------------
+// Fonts
+// ---------------------------------------------------------------------------
+
+interface CodespaceRange {
+  low: number[]
+  high: number[]
+}
+
+function bytesRange(lowHex: string, highHex: string): CodespaceRange {
+  const toBytes = (hex: string) => hex.match(/../g)!.map((h) => parseInt(h, 16))
+  return { low: toBytes(lowHex), high: toBytes(highHex) }
+}
+
+const PREDEFINED_CODESPACES: [RegExp, CodespaceRange[]][] = [
+  [/RKSJ/, [bytesRange('00', '80'), bytesRange('8140', '9ffc'), bytesRange('a0', 'df'), bytesRange('e040', 'fcfc')]],
+  [/EUC/, [bytesRange('00', '80'), bytesRange('8ea0', '8edf'), bytesRange('a1a1', 'fefe')]],
+]
+const TWO_BYTE: CodespaceRange[] = [bytesRange('0000', 'ffff')]
+
+function codeReader(ranges: CodespaceRange[]): FontInfo['readCode'] {
+  return (bytes, i) => {
+    for (let len = 1; len <= 4; len++) {
+      if (i + len > bytes.length) break
+      const match = ranges.some(
+        (r) => r.low.length === len && r.low.every((lo, k) => bytes[i + k] >= lo && bytes[i + k] <= r.high[k])
+      )
+      if (match) {
+        let code = 0
+        for (let k = 0; k < len; k++) code = code * 256 + bytes[i + k]
+        return [code, len]
+      }
+    }
+    const len = Math.min(ranges[0]?.low.length ?? 1, bytes.length - i)
+    let code = 0
+    for (let k = 0; k < len; k++) code = code * 256 + bytes[i + k]
+    return [code, Math.max(1, len)]
+  }
+}
+
+const readSingleByte: FontInfo['readCode'] = (bytes, i) => [bytes[i], 1]
+
+function streamBytes(stream: PDFStream): Uint8Array {
+  if (stream instanceof PDFRawStream) return decodePDFRawStream(stream).decode()
+  const unencoded = (stream as unknown as { getUnencodedContents?: () => Uint8Array }).getUnencodedContents
+  return unencoded ? unencoded.call(stream) : stream.getContents()
+}
+
+function num(context: PDFContext, obj: PDFObject | undefined, fallback: number): number {
+  const value = obj instanceof PDFRef ? context.lookup(obj) : obj
+  return value instanceof PDFNumber ? value.asNumber() : fallback
+}
+
+function numberArray(context: PDFContext, obj: PDFObject | undefined): number[] {
+  const arr = obj instanceof PDFRef ? context.lookup(obj) : obj
+  if (!(arr instanceof PDFArray)) return []
+  return arr.asArray().map((v) => num(context, v, 0))
+}
+
+function buildFont(context: PDFContext, fontDict: PDFDict): FontInfo {
+  const subtype = fontDict.lookup(PDFName.of('Subtype'))
+
+  if (subtype === PDFName.of('Type0')) {
+    const encoding = fontDict.lookup(PDFName.of('Encoding'))
+    let ranges = TWO_BYTE
+    let vertical = false
+    let identity = false
+
+    if (encoding instanceof PDFName) {
+      const name = encoding.decodeText()
+      vertical = name.endsWith('-V')
+      identity = name.startsWith('Identity')
+      ranges = PREDEFINED_CODESPACES.find(([re]) => re.test(name))?.[1] ?? TWO_BYTE
+    } else if (encoding instanceof PDFStream) {
+      vertical = num(context, encoding.dict.get(PDFName.of('WMode')), 0) === 1
+      const text = new TextDecoder('latin1').decode(streamBytes(encoding))
+      const parsed: CodespaceRange[] = []
+      for (const block of text.matchAll(/begincodespacerange([\s\S]*?)endcodespacerange/g)) {
+        for (const [, lo, hi] of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g)) {
+          parsed.push(bytesRange(lo, hi))
+        }
+      }
+      if (parsed.length > 0) ranges = parsed
+    }
+
+    const descendants = fontDict.lookup(PDFName.of('DescendantFonts'))
+    const cidFont = descendants instanceof PDFArray ? descendants.lookup(0) : undefined
+    const widths = new Map<number, number>()
+    let defaultWidth = 1000
+    let verticalAdvance = 1000
+
+    if (cidFont instanceof PDFDict) {
+      defaultWidth = num(context, cidFont.get(PDFName.of('DW')), 1000)
+      const dw2 = numberArray(context, cidFont.get(PDFName.of('DW2')))
+      if (dw2.length === 2) verticalAdvance = -dw2[1]
+
+      // Per-CID widths only line up with codes under an Identity CMap
+      const w = cidFont.lookup(PDFName.of('W'))
+      if (identity && w instanceof PDFArray) {
+        const items = w.asArray()
+        for (let i = 0; i < items.length; ) {
+          const first = num(context, items[i], 0)
+          const next = context.lookup(items[i + 1])
+          if (next instanceof PDFArray) {
+            numberArray(context, next).forEach((width, k) => widths.set(first + k, width))
+            i += 2
+          } else {
+            const last = num(context, items[i + 1], first)
+            const width = num(context, items[i + 2], defaultWidth)
+            for (let cid = first; cid <= last && cid - first < 65536; cid++) widths.set(cid, width)
+            i += 3
+          }
+        }
+      }
+    }
+
+    return {
+      vertical,
+      readCode: codeReader(ranges),
+      advance: vertical
+        ? () => verticalAdvance / 1000
+        : (code) => (widths.get(code) ?? defaultWidth) / 1000,
+    }
+  }
+
+  // Simple fonts (Type1 / TrueType / Type3)
+  const firstChar = num(context, fontDict.get(PDFName.of('FirstChar')), 0)
+  const widths = numberArray(context, fontDict.get(PDFName.of('Widths')))
+  const descriptor = fontDict.lookup(PDFName.of('FontDescriptor'))
+  const missingWidth = descriptor instanceof PDFDict
+    ? num(context, descriptor.get(PDFName.of('MissingWidth')), 500)
+    : 500
+  const fontMatrix = numberArray(context, fontDict.get(PDFName.of('FontMatrix')))
+  const unit = subtype === PDFName.of('Type3') && fontMatrix.length === 6 ? fontMatrix[0] : 0.001
+
+  return {
+    vertical: false,
+    readCode: readSingleByte,
+    advance: (code) => (widths[code - firstChar] ?? missingWidth) * unit,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Redaction
+// ---------------------------------------------------------------------------
+
+const formatNumber = (n: number) => (Math.round(n * 1000) / 1000).toString()
+const toHex = (bytes: number[]) => bytes.map((b) => b.toString(16).padStart(2, '0')).join('')
+
+interface RedactContext {
+  context: PDFContext
+  regions: MaskPoint[][]
+  stats: RedactionStats
+  fontCache: Map<PDFDict, FontInfo>
+  formCounter: { value: number }
+}
+
+/** Returns rewritten content, or null when nothing inside a region was found. */
+function redactContent(
+  rc: RedactContext,
+  data: Uint8Array,
+  resources: PDFDict | undefined,
+  baseCtm: Matrix,
+  depth: number
+): Uint8Array | null {
+  const { context, regions } = rc
+  const ops = parseOperations(data)
+  const replacements = new Map<number, string>()
+
+  let gs: GraphicsState = {
+    ctm: baseCtm,
+    font: null,
+    fontSize: 1,
+    charSpacing: 0,
+    wordSpacing: 0,
+    hScale: 1,
+    leading: 0,
+    rise: 0,
+  }
+  const stack: GraphicsState[] = []
+  let tm: Matrix = IDENTITY
+  let tlm: Matrix = IDENTITY
+  // Marked-content sequences carrying /ActualText that lose glyphs must drop it too
+  const markedContent: { index: number; hasActualText: boolean; tainted: boolean }[] = []
+
+  const lookupResource = (category: string, name: string): PDFObject | undefined => {
+    const dict = resources?.lookup(PDFName.of(category))
+    return dict instanceof PDFDict ? dict.lookup(PDFName.of(name)) : undefined
+  }
+
+  const nextLine = (tx: number, ty: number) => {
+    tlm = multiply([1, 0, 0, 1, tx, ty], tlm)
+    tm = tlm
+  }
+
+  // Walk a text-showing operand, returning the TJ array to emit if any glyph was removed.
+  const showText = (items: Operand[]): string | null => {
+    const font = gs.font
+    const fs = gs.fontSize
+    const th = gs.hScale
+    const parts: string[] = []
+    let pendingAdjust = 0
+    let run: number[] = []
+    let removed = false
+
+    const flushRun = () => {
+      if (run.length > 0) {
+        if (pendingAdjust !== 0) parts.push(formatNumber(pendingAdjust))
+        pendingAdjust = 0
+        parts.push(`<${toHex(run)}>`)
+        run = []
+      }
+    }
+    const addAdjust = (n: number) => {
+      flushRun()
+      pendingAdjust += n
+    }
+
+    for (const item of items) {
+      if (item.kind === 'number') {
+        addAdjust(item.value)
+        const shift = (-item.value / 1000) * fs
+        tm = multiply(font?.vertical ? [1, 0, 0, 1, 0, shift] : [1, 0, 0, 1, shift * th, 0], tm)
+        continue
+      }
+      if (item.kind !== 'string') continue
+
+      const bytes = item.bytes
+      for (let i = 0; i < bytes.length; ) {
+        const [code, len] = font ? font.readCode(bytes, i) : [bytes[i], 1]
+        const glyphBytes = Array.from(bytes.subarray(i, i + len))
+        i += len
+
+        const w = font ? font.advance(code) : 0.5
+        const spacing = gs.charSpacing + (len === 1 && code === 32 ? gs.wordSpacing : 0)
+        const trm = multiply(tm, gs.ctm)
+        let center: MaskPoint
+        let step: Matrix
+        let adjust: number
+
+        if (font?.vertical) {
+          const ty = -w * fs + spacing
+          center = apply(trm, 0, ty / 2 + gs.rise)
+          step = [1, 0, 0, 1, 0, ty]
+          adjust = fs ? (-ty * 1000) / fs : 0
+        } else {
+          const tx = (w * fs + spacing) * th
+          center = apply(trm, tx / 2, gs.rise + fs * 0.35)
+          step = [1, 0, 0, 1, tx, 0]
+          adjust = fs * th ? (-tx * 1000) / (fs * th) : 0
+        }
+
+        if (insideAny(center, regions)) {
+          removed = true
+          rc.stats.removedGlyphs++
+          addAdjust(adjust)
+        } else {
+          run.push(...glyphBytes)
+        }
+        tm = multiply(step, tm)
+      }
+    }
+    flushRun()
+    if (!removed) return null
+    if (pendingAdjust !== 0) parts.push(formatNumber(pendingAdjust))
+    for (const mc of markedContent) mc.tainted = true
+    return parts.length > 0 ? `[${parts.join(' ')}] TJ` : ''
+  }
+
+  ops.forEach((operation, index) => {
+    const { op, operands } = operation
+    const n = (k: number) => {
+      const o = operands[k]
+      return o?.kind === 'number' ? o.value : 0
+    }
+
+    switch (op) {
+      case 'q':
+        stack.push({ ...gs })
+        break
+      case 'Q':
+        gs = stack.pop() ?? gs
+        break
+      case 'cm':
+        gs = { ...gs, ctm: multiply([n(0), n(1), n(2), n(3), n(4), n(5)], gs.ctm) }
+        break
+      case 'BT':
+        tm = IDENTITY
+        tlm = IDENTITY
+        break
+      case 'Tf': {
+        const nameOperand = operands[0]
+        const fontObj = nameOperand?.kind === 'name' ? lookupResource('Font', nameOperand.value) : undefined
+        let font: FontInfo | null = null
+        if (fontObj instanceof PDFDict) {
+          font = rc.fontCache.get(fontObj) ?? buildFont(context, fontObj)
+          rc.fontCache.set(fontObj, font)
+        }
+        gs = { ...gs, font, fontSize: n(1) }
+        break
+      }
+      case 'Tc':
+        gs = { ...gs, charSpacing: n(0) }
+        break
+      case 'Tw':
+        gs = { ...gs, wordSpacing: n(0) }
+        break
+      case 'Tz':
+        gs = { ...gs, hScale: n(0) / 100 }
+        break
+      case 'TL':
+        gs = { ...gs, leading: n(0) }
+        break
+      case 'Ts':
+        gs = { ...gs, rise: n(0) }
+        break
+      case 'Td':
+        nextLine(n(0), n(1))
+        break
+      case 'TD':
+        gs = { ...gs, leading: -n(1) }
+        nextLine(n(0), n(1))
+        break
+      case 'Tm':
+        tlm = [n(0), n(1), n(2), n(3), n(4), n(5)]
+        tm = tlm
+        break
+      case 'T*':
+        nextLine(0, -gs.leading)
+        break
+      case 'Tj':
+      case 'TJ': {
+        const arg = operands[0]
+        const items = arg?.kind === 'array' ? arg.items : arg ? [arg] : []
+        const replaced = showText(items)
+        if (replaced !== null) replacements.set(index, replaced)
+        break
+      }
+      case "'": {
+        nextLine(0, -gs.leading)
+        const replaced = showText(operands.slice(0, 1))
+        if (replaced !== null) replacements.set(index, `T* ${replaced}`)
+        break
+      }
+      case '"': {
+        gs = { ...gs, wordSpacing: n(0), charSpacing: n(1) }
+        nextLine(0, -gs.leading)
+        const replaced = showText(operands.slice(2, 3))
+        if (replaced !== null) {
+          replacements.set(index, `${formatNumber(n(0))} Tw ${formatNumber(n(1))} Tc T* ${replaced}`)
+        }
+        break
+      }
+      case 'BI':
+        if (boxCorners(gs.ctm).every((p) => insideAny(p, regions))) {
+          rc.stats.removedImages++
+          replacements.set(index, '')
+        }
+        break
+      case 'Do': {
+        const nameOperand = operands[0]
+        if (nameOperand?.kind !== 'name') break
+        const xobject = lookupResource('XObject', nameOperand.value)
+        if (!(xobject instanceof PDFStream)) break
+        const xsubtype = xobject.dict.lookup(PDFName.of('Subtype'))
+
+        if (xsubtype === PDFName.of('Image')) {
+          if (boxCorners(gs.ctm).every((p) => insideAny(p, regions))) {
+            rc.stats.removedImages++
+            replacements.set(index, '')
+          }
+        } else if (xsubtype === PDFName.of('Form') && depth < MAX_FORM_DEPTH) {
+          const matrix = numberArray(context, xobject.dict.get(PDFName.of('Matrix')))
+          const formCtm = multiply(matrix.length === 6 ? (matrix as Matrix) : IDENTITY, gs.ctm)
+          const bbox = numberArray(context, xobject.dict.get(PDFName.of('BBox')))
+          if (bbox.length === 4 && boxCorners(formCtm, bbox as [number, number, number, number]).every((p) => insideAny(p, regions))) {
+            rc.stats.removedImages++
+            replacements.set(index, '')
+            break
+          }
+
+          const formResources = xobject.dict.lookup(PDFName.of('Resources'))
+          const effectiveResources = formResources instanceof PDFDict ? formResources : resources
+          const redacted = redactContent(rc, streamBytes(xobject), effectiveResources, formCtm, depth + 1)
+          if (redacted && resources) {
+            // Private copy of the form, registered under a fresh name
+            const dict: Record<string, PDFObject> = {}
+            for (const [key, value] of xobject.dict.entries()) {
+              const k = key.decodeText()
+              if (k !== 'Length' && k !== 'Filter' && k !== 'DecodeParms') dict[k] = value
+            }
+            if (effectiveResources) dict.Resources = effectiveResources
+            const copyRef = context.register(context.flateStream(redacted, dict))
+            const newName = `RdX${++rc.formCounter.value}`
+            let xobjects = resources.lookup(PDFName.of('XObject'))
+            if (!(xobjects instanceof PDFDict)) {
+              xobjects = context.obj({})
+              resources.set(PDFName.of('XObject'), xobjects)
+            }
+            ;(xobjects as PDFDict).set(PDFName.of(newName), copyRef)
+            replacements.set(index, `/${newName} Do`)
+            for (const mc of markedContent) mc.tainted = true
+          }
+        }
+        break
+      }
+      case 'BDC':
+      case 'BMC': {
+        const props = operands[1]
+        markedContent.push({
+          index,
+          hasActualText: op === 'BDC' && props?.kind === 'dict' && props.keys.some((k) => k === 'ActualText' || k === 'Alt'),
+          tainted: false,
+        })
+        break
+      }
+      case 'EMC': {
+        const mc = markedContent.pop()
+        if (mc?.hasActualText && mc.tainted) {
+          const tag = ops[mc.index].operands[0]
+          replacements.set(mc.index, `/${tag?.kind === 'name' ? tag.value : 'Span'} BMC`)
+        }
+        break
+      }
+    }
+  })
+
+  if (replacements.size === 0) return null
+
+  const chunks: Uint8Array[] = []
+  ops.forEach((operation, index) => {
+    const replacement = replacements.get(index)
+    if (replacement === undefined) {
+      chunks.push(data.subarray(operation.start, operation.end))
+    } else if (replacement) {
+      chunks.push(encoder.encode(replacement))
+    }
+  })
+
+  const newline = encoder.encode('\n')
+  const total = chunks.reduce((sum, c) => sum + c.length + 1, 0)
+  const out = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    out.set(chunk, offset)
+    out.set(newline, offset + chunk.length)
+    offset += chunk.length + 1
+  }
+  return out
+}
+
+/**
+ * Remove text and images inside `regions` (polygons in PDF user space of the
+ * unrotated page) from `page`. Must run before anything is drawn on the page.
+ */
+export function redactPage(page: PDFPage, regions: MaskPoint[][]): RedactionStats {
+  const stats: RedactionStats = { removedGlyphs: 0, removedImages: 0 }
+  if (regions.length === 0) return stats
+
+  const context = page.doc.context
+  const contents = page.node.Contents()
+  const streams: PDFStream[] = []
+  if (contents instanceof PDFStream) {
+    streams.push(contents)
+  } else if (contents instanceof PDFArray) {
+    for (let i = 0; i < contents.size(); i++) {
+      const s = contents.lookup(i)
+      if (s instanceof PDFStream) streams.push(s)
+    }
+  }
+  if (streams.length === 0) return stats
+
+  // Operators may straddle stream boundaries, so redact the concatenation.
+  const parts = streams.map(streamBytes)
+  const joined = new Uint8Array(parts.reduce((sum, p) => sum + p.length + 1, 0))
+  let offset = 0
+  for (const part of parts) {
+    joined.set(part, offset)
+    joined[offset + part.length] = 10
+    offset += part.length + 1
+  }
+
+  const redacted = redactContent(
+    { context, regions, stats, fontCache: new Map(), formCounter: { value: 0 } },
+    joined,
+    page.node.Resources(),
+    IDENTITY,
+    0
+  )
+  if (redacted) {
+    page.node.set(PDFName.of('Contents'), context.register(context.flateStream(redacted)))
+  }
+  return stats
+}
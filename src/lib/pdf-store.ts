@@ -6,6 +6,9 @@
  * 10 property PDFs are base64-encoded. IndexedDB scales to the browser's
  * larger per-origin quota (typically hundreds of MB) and stores binary
  * Uint8Array directly without base64 overhead.
+ *
+ * Editor drafts (`editor-drafts.ts`) also keep their PDF bytes here under
+ * `draft:<id>` so an autosaved draft can be resumed after the tab is closed.
  */
 
 const DB_NAME = 'obikae-pdf-store'
@@ -63,6 +66,37 @@ export async function getPdfs(key: string): Promise<Uint8Array[] | null> {
   }
 }
 
+export async function hasPdfs(key: string): Promise<boolean> {
+  const db = await openDb()
+  try {
+    return await new Promise<boolean>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readonly')
+      const req = tx.objectStore(STORE_NAME).count(key)
+      req.onsuccess = () => resolve(req.result > 0)
+      req.onerror = () => reject(req.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/** Keys starting with `prefix` (e.g. every `draft:` entry). */
+export async function listPdfKeys(prefix: string): Promise<string[]> {
+  const db = await openDb()
+  try {
+    return await new Promise<string[]>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readonly')
+      const req = tx.objectStore(STORE_NAME).getAllKeys()
+      req.onsuccess = () => {
+        resolve(req.result.filter((key): key is string => typeof key === 'string' && key.startsWith(prefix)))
+      }
+      req.onerror = () => reject(req.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
 export async function clearPdfs(key: string): Promise<void> {
   const db = await openDb()
   try {
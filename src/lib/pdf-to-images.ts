@@ -1,3 +1,5 @@
+import { loadPdfjs } from '@/lib/pdfjs'
+
 export interface RenderedPage {
   pageNumber: number
   blob: Blob
@@ -5,39 +7,100 @@ export interface RenderedPage {
   height: number
 }
 
+export type ImageFormat = 'image/png' | 'image/jpeg' | 'image/webp'
+
+export interface RenderImageOptions {
+  format?: ImageFormat
+  /** 0–1, JPEG / WebP only */
+  quality?: number
+  /** Cap on the longer side in pixels; pages are scaled down to fit */
+  maxLongSide?: number
+  /** Called after each page */
+  onProgress?: (done: number, total: number) => void
+}
+
+type AnyCanvas = HTMLCanvasElement | OffscreenCanvas
+
+// Inside a Web Worker there is no document: render onto OffscreenCanvas and
+// keep pdfjs away from the DOM (its own scratch canvases, CSS font loading)
+const inWorker = typeof document === 'undefined'
+
+function createCanvas(width: number, height: number): AnyCanvas {
+  if (inWorker) return new OffscreenCanvas(width, height)
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
+function canvasToBlob(canvas: AnyCanvas, type: ImageFormat, quality?: number): Promise<Blob> {
+  if (inWorker) return (canvas as OffscreenCanvas).convertToBlob({ type, quality })
+  return new Promise<Blob>((resolve, reject) => {
+    (canvas as HTMLCanvasElement).toBlob(
+      (b) => (b ? resolve(b) : reject(new Error('Failed to create blob'))),
+      type,
+      quality
+    )
+  })
+}
+
+/** pdfjs `CanvasFactory` for workers (the default one calls `document.createElement`). */
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height)
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) }
+  }
+
+  reset(target: { canvas: OffscreenCanvas }, width: number, height: number) {
+    target.canvas.width = width
+    target.canvas.height = height
+  }
+
+  destroy(target: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (target.canvas) target.canvas.width = target.canvas.height = 0
+    target.canvas = null
+    target.context = null
+  }
+}
+
+/** `scale` is relative to PDF points (1 = 72dpi, so dpi / 72). */
 export async function renderPdfToImages(
   pdfBytes: Uint8Array,
-  scale: number = 2.0
+  scale: number = 2.0,
+  options: RenderImageOptions = {}
 ): Promise<RenderedPage[]> {
-  // Dynamic import to avoid SSR issues
-  const pdfjs = await import('pdfjs-dist')
+  const { format = 'image/png', quality, maxLongSide, onProgress } = options
 
-  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
-    const version = pdfjs.version
-    pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${version}/build/pdf.worker.min.mjs`
-  }
+  // Dynamic import to avoid SSR issues
+  const pdfjs = await loadPdfjs()
 
-  const pdf = await pdfjs.getDocument({ data: pdfBytes }).promise
+  const pdf = await pdfjs.getDocument({
+    data: pdfBytes,
+    // Glyphs are drawn as paths instead of loaded as CSS font faces (which needs a document)
+    ...(inWorker ? { CanvasFactory: OffscreenCanvasFactory, disableFontFace: true } : {}),
+  }).promise
   const results: RenderedPage[] = []
 
   for (let i = 1; i <= pdf.numPages; i++) {
     const page = await pdf.getPage(i)
-    const viewport = page.getViewport({ scale })
+    const natural = page.getViewport({ scale: 1 })
+    const pageScale = maxLongSide
+      ? Math.min(scale, maxLongSide / Math.max(natural.width, natural.height))
+      : scale
+    const viewport = page.getViewport({ scale: pageScale })
 
-    const canvas = document.createElement('canvas')
-    canvas.width = viewport.width
-    canvas.height = viewport.height
+    const canvas = createCanvas(viewport.width, viewport.height)
 
-    const ctx = canvas.getContext('2d')!
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D
+    if (format === 'image/jpeg') {
+      // JPEG has no alpha; keep transparent areas white instead of black
+      ctx.fillStyle = '#ffffff'
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+    }
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     await (page.render({ canvasContext: ctx, canvas, viewport } as any).promise)
 
-    const blob = await new Promise<Blob>((resolve, reject) => {
-      canvas.toBlob(
-        (b) => (b ? resolve(b) : reject(new Error('Failed to create blob'))),
-        'image/png'
-      )
-    })
+    const blob = await canvasToBlob(canvas, format, quality)
 
     results.push({
       pageNumber: i,
@@ -49,6 +112,7 @@ export async function renderPdfToImages(
     // Release canvas memory
     canvas.width = 0
     canvas.height = 0
+    onProgress?.(i, pdf.numPages)
   }
 
   pdf.destroy()
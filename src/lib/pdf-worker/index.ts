@@ -0,0 +1,131 @@
+/**
+ * PDF generation and rasterisation in a Web Worker, so the editor stays
+ * responsive while a batch of properties is generated and rendered.
+ *
+ * Each job gets its own worker: cancelling terminates it, which stops pdf-lib
+ * or pdfjs mid-page instead of waiting for the current step. Browsers without
+ * module workers (or, for rendering, OffscreenCanvas), and workers that fail
+ * before sending anything (the script can't load, say), run the job on the
+ * main thread as before.
+ */
+
+import { generateModifiedPdf, type GeneratePdfParams } from '@/lib/pdf-generator'
+import { renderPdfToImages, type RenderedPage, type RenderImageOptions } from '@/lib/pdf-to-images'
+import type { PdfWorkerMessage, PdfWorkerRequest } from './protocol'
+
+export interface PdfJobOptions {
+  /** Aborting terminates the worker; the job rejects with an `AbortError` */
+  signal?: AbortSignal
+  onProgress?: (done: number, total: number) => void
+}
+
+function abortError(): DOMException {
+  return new DOMException('中止しました', 'AbortError')
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+// The worker errored before its first message: it never ran, so the job can go to the main thread
+class WorkerStartError extends Error {}
+
+function runPdfJob(request: PdfWorkerRequest, { signal, onProgress }: PdfJobOptions): Promise<PdfWorkerMessage> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+
+    const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' })
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', handleAbort)
+    }
+    const handleAbort = () => {
+      finish()
+      reject(abortError())
+    }
+    signal?.addEventListener('abort', handleAbort)
+
+    let started = false
+    worker.addEventListener('message', (event: MessageEvent<PdfWorkerMessage>) => {
+      started = true
+      const message = event.data
+      if (message.type === 'progress') {
+        onProgress?.(message.done, message.total)
+        return
+      }
+      finish()
+      if (message.type === 'error') reject(new Error(message.message))
+      else resolve(message)
+    })
+    worker.addEventListener('error', (event) => {
+      finish()
+      if (!started) reject(new WorkerStartError(event.message))
+      else reject(new Error(event.message || 'PDF処理のワーカーが停止しました'))
+    })
+
+    // Source PDFs stay in use by the editor, so they are copied rather than transferred
+    worker.postMessage(request)
+  })
+}
+
+// Main-thread fallback: cannot be interrupted, only checked before and after
+async function runOnMainThread<T>(job: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (signal?.aborted) throw abortError()
+  const result = await job()
+  if (signal?.aborted) throw abortError()
+  return result
+}
+
+/** `runPdfJob`, or null when the worker failed to start and the caller should fall back. */
+async function tryPdfJob(request: PdfWorkerRequest, options: PdfJobOptions): Promise<PdfWorkerMessage | null> {
+  try {
+    return await runPdfJob(request, options)
+  } catch (error) {
+    if (!(error instanceof WorkerStartError)) throw error
+    console.warn('[pdf-worker] worker failed to start, running on the main thread:', error.message)
+    return null
+  }
+}
+
+export async function generateModifiedPdfInWorker(
+  params: GeneratePdfParams,
+  options: PdfJobOptions = {}
+): Promise<Uint8Array> {
+  const { onProgress = options.onProgress, ...workerParams } = params
+  if (typeof Worker === 'undefined') {
+    return runOnMainThread(() => generateModifiedPdf({ ...workerParams, onProgress }), options.signal)
+  }
+
+  const result = await tryPdfJob({ type: 'generate', params: workerParams }, { ...options, onProgress })
+  if (!result) {
+    return runOnMainThread(() => generateModifiedPdf({ ...workerParams, onProgress }), options.signal)
+  }
+  if (result.type !== 'generated') throw new Error('PDFの生成結果を受け取れませんでした')
+  return result.pdfBytes
+}
+
+/** Same arguments as `renderPdfToImages`. */
+export async function renderPdfToImagesInWorker(
+  pdfBytes: Uint8Array,
+  scale: number = 2.0,
+  renderOptions: RenderImageOptions = {},
+  options: PdfJobOptions = {}
+): Promise<RenderedPage[]> {
+  const { onProgress = options.onProgress, ...workerOptions } = renderOptions
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    return runOnMainThread(() => renderPdfToImages(pdfBytes, scale, { ...workerOptions, onProgress }), options.signal)
+  }
+
+  const result = await tryPdfJob(
+    { type: 'render', pdfBytes, scale, options: workerOptions },
+    { ...options, onProgress }
+  )
+  if (!result) {
+    return runOnMainThread(() => renderPdfToImages(pdfBytes, scale, { ...workerOptions, onProgress }), options.signal)
+  }
+  if (result.type !== 'rendered') throw new Error('画像の変換結果を受け取れませんでした')
+  return result.pages
+}
@@ -0,0 +1,22 @@
+/**
+ * Messages between the page and the PDF worker. Every worker runs exactly
+ * one job: it receives one request, posts progress, then one result or error.
+ */
+
+import type { GeneratePdfParams } from '@/lib/pdf-generator'
+import type { RenderedPage, RenderImageOptions } from '@/lib/pdf-to-images'
+
+export type PdfWorkerRequest =
+  | { type: 'generate'; params: Omit<GeneratePdfParams, 'onProgress'> }
+  | {
+      type: 'render'
+      pdfBytes: Uint8Array
+      scale: number
+      options: Omit<RenderImageOptions, 'onProgress'>
+    }
+
+export type PdfWorkerMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'generated'; pdfBytes: Uint8Array }
+  | { type: 'rendered'; pages: RenderedPage[] }
+  | { type: 'error'; message: string }
@@ -0,0 +1,27 @@
+/**
+ * Web Worker entry: PDF generation and rasterisation off the main thread.
+ * Loaded by `runPdfJob` through `new Worker(new URL(...))` so the bundler
+ * builds it as its own chunk.
+ */
+
+import { generateModifiedPdf } from '@/lib/pdf-generator'
+import { renderPdfToImages } from '@/lib/pdf-to-images'
+import type { PdfWorkerMessage, PdfWorkerRequest } from './protocol'
+
+const post = (message: PdfWorkerMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer })
+const onProgress = (done: number, total: number) => post({ type: 'progress', done, total })
+
+self.addEventListener('message', async (event: MessageEvent<PdfWorkerRequest>) => {
+  const request = event.data
+  try {
+    if (request.type === 'generate') {
+      const pdfBytes = await generateModifiedPdf({ ...request.params, onProgress })
+      post({ type: 'generated', pdfBytes }, [pdfBytes.buffer])
+    } else {
+      const pages = await renderPdfToImages(request.pdfBytes, request.scale, { ...request.options, onProgress })
+      post({ type: 'rendered', pages })
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+})
@@ -0,0 +1,31 @@
+/**
+ * pdfjs for the library code (rendering, text-layer checks, band detection),
+ * with its worker bundled from the installed pdfjs-dist rather than fetched
+ * from a CDN at a version that merely has to match.
+ *
+ * Also used inside our own Web Worker (`pdf-worker`), where pdfjs starts a
+ * nested worker from the same bundled URL.
+ *
+ * The react-pdf previews share it (`loadReactPdf`): pdfjs-dist is pinned to the
+ * exact release react-pdf depends on, so both resolve to one pdfjs and one
+ * worker. Bump the two together — pdfjs refuses a worker of another version.
+ */
+
+// Set on every load, not only when empty: importing react-pdf points the
+// shared workerSrc at its own relative 'pdf.worker.mjs'
+function setBundledWorker(pdfjs: typeof import('pdfjs-dist')) {
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString()
+}
+
+export async function loadPdfjs(): Promise<typeof import('pdfjs-dist')> {
+  const pdfjs = await import('pdfjs-dist')
+  setBundledWorker(pdfjs)
+  return pdfjs
+}
+
+/** react-pdf on the same pdfjs and worker. */
+export async function loadReactPdf(): Promise<typeof import('react-pdf')> {
+  const mod = await import('react-pdf')
+  setBundledWorker(mod.pdfjs)
+  return mod
+}
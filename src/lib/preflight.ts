@@ -0,0 +1,341 @@
+/**
+ * Checks run before export and publish.
+ *
+ * The generator quietly leaves out what it can't print (an empty profile
+ * field, a logo that fails to load, a font it can't read) and draws blocks
+ * wherever they were placed, so these mistakes otherwise surface only once
+ * the sheet is out. The report covers:
+ *
+ *   - blocks that are not fully inside a white-out region
+ *   - blocks whose profile field is empty, so nothing is printed
+ *   - logo / LINE QR images that can't be fetched or decoded
+ *   - company fonts that can't be read or lack glyphs for a block's text
+ *   - the original broker's phone numbers, e-mail addresses and license
+ *     numbers left outside the masks (from the source page's text layer);
+ *     license wording without a number is only a warning
+ *
+ * Errors mean the output misses something or still shows the original
+ * broker; warnings are worth a look but may be intended.
+ */
+
+import fontkit, { type Font } from '@pdf-lib/fontkit'
+import { PDFDocument } from 'pdf-lib'
+import type { Block, CompanyProfile } from '@/lib/database.types'
+import {
+  IMAGE_FIELD_LABELS,
+  QR_FIELD_LABELS,
+  TEXT_FIELD_LABELS,
+  blockFont,
+  blockTextContent,
+  isTextualBlock,
+  parseCustomFields,
+  parseCustomFonts,
+  qrBlockContent,
+} from '@/lib/blocks'
+import { embedImage, type GeneratePdfParams } from '@/lib/pdf-generator'
+import { maskRegions, pointInPolygon, regionPolygon } from '@/lib/mask-geometry'
+import { textItemCharPoints, textRunOf, type PdfTextItem } from '@/lib/redaction-verifier'
+import { loadPdfjs } from '@/lib/pdfjs'
+import type { PDFPageProxy } from 'pdfjs-dist'
+import type { MaskPoint, PageInfo } from '@/types/editor'
+
+export type PreflightSeverity = 'error' | 'warning'
+
+export type PreflightCheck =
+  | 'block_outside_mask'
+  | 'missing_field'
+  | 'image_failed'
+  | 'font_unreadable'
+  | 'contact_uncovered'
+
+export interface PreflightIssue {
+  check: PreflightCheck
+  severity: PreflightSeverity
+  /** Null for issues not tied to one page (a logo that doesn't load shows on every page) */
+  pageId: string | null
+  blockId?: string
+  message: string
+}
+
+export type PreflightParams = Pick<
+  GeneratePdfParams,
+  'pages' | 'maskSettings' | 'blocks' | 'companyProfile' | 'pageDimensions'
+>
+
+export interface PreflightOptions {
+  /** Publishing fills in the listing / proposal QR URLs; a plain export leaves those blocks out */
+  publishing?: boolean
+}
+
+// Contact details of the original broker: phone numbers, e-mail addresses and
+// license numbers (東京都知事(3)第12345号). Other text outside the masks is the listing itself.
+const CONTACT_PATTERN =
+  /(0\d{1,4}[-‐−ー(]\d{1,4}[-‐−ー)]\d{3,4}|(^|\D)0\d{9,10}(\D|$)|[\w.+-]+@[\w-]+(\.[\w-]+)+|(知事|大臣)\s*\(\d+\)\s*第?\s*\d+)/
+
+// License wording without a number: often the broker's, but also appears in the listing's own notes
+const LICENSE_KEYWORD_PATTERN = /免許|宅建業|宅地建物取引業/
+
+// Fractions of the block's width / height sampled for the inside-mask test (just inside the edges)
+const BLOCK_SAMPLES = [0.02, 0.5, 0.98]
+
+const digitsOf = (text: string) => text.normalize('NFKC').replace(/\D/g, '')
+
+export function hasPreflightErrors(issues: PreflightIssue[]): boolean {
+  return issues.some((issue) => issue.severity === 'error')
+}
+
+function blockLabel(block: Block, companyProfile: CompanyProfile | null): string {
+  switch (block.type) {
+    case 'text':
+      return TEXT_FIELD_LABELS[block.field]
+    case 'free_text':
+      return `テキスト「${block.text.slice(0, 12)}」`
+    case 'custom_field':
+      return parseCustomFields(companyProfile?.custom_fields).find((f) => f.key === block.field)?.label
+        || block.field
+    case 'image':
+      return IMAGE_FIELD_LABELS[block.field]
+    case 'qr':
+      return `${QR_FIELD_LABELS[block.field]}のQR`
+    case 'shape':
+      return block.field === 'line' ? '線' : '枠'
+  }
+}
+
+/**
+ * Why a block would print nothing, or null when it prints. An empty field is
+ * a gap on the sheet; a listing / proposal QR only waits for the publish-time PDF.
+ */
+function missingContent(
+  block: Block,
+  companyProfile: CompanyProfile | null,
+  publishing: boolean
+): { severity: PreflightSeverity; reason: string } | null {
+  if (isTextualBlock(block)) {
+    if (blockTextContent(block, companyProfile) !== null) return null
+    return {
+      severity: 'error',
+      reason: block.type === 'free_text' ? '文字が空です' : '会社情報が未設定のため印刷されません',
+    }
+  }
+  if (block.type === 'image') {
+    const url = block.field === 'logo' ? companyProfile?.logo_url : companyProfile?.line_qr_url
+    return url ? null : { severity: 'error', reason: '画像が未登録のため印刷されません' }
+  }
+  if (block.type === 'qr') {
+    if (block.field === 'listing' || block.field === 'proposal') {
+      return publishing
+        ? null
+        : { severity: 'warning', reason: 'URLは公開時に決まるため、このPDFには印刷されません' }
+    }
+    return qrBlockContent(block, companyProfile, '')
+      ? null
+      : { severity: 'error', reason: 'URLが未設定のため印刷されません' }
+  }
+  return null
+}
+
+function blockInsideMasks(block: Block, ratio: number, regions: MaskPoint[][]): boolean {
+  return BLOCK_SAMPLES.every((fy) =>
+    BLOCK_SAMPLES.every((fx) => {
+      const p = { x: (block.x + block.width * fx) * ratio, y: (block.y + block.height * fy) * ratio }
+      return regions.some((r) => pointInPolygon(p, r))
+    })
+  )
+}
+
+async function checkImages(params: PreflightParams): Promise<PreflightIssue[]> {
+  const { companyProfile } = params
+  const used = new Set(
+    Object.values(params.blocks)
+      .flat()
+      .flatMap((block) => (block.type === 'image' ? [block.field] : []))
+  )
+
+  const issues: PreflightIssue[] = []
+  const scratch = await PDFDocument.create()
+  for (const field of used) {
+    const url = field === 'logo' ? companyProfile?.logo_url : companyProfile?.line_qr_url
+    if (!url) continue
+    if (await embedImage(scratch, url)) continue
+    issues.push({
+      check: 'image_failed',
+      severity: 'error',
+      pageId: null,
+      message: `${IMAGE_FIELD_LABELS[field]}の画像を読み込めません。設定画面で登録し直してください`,
+    })
+  }
+  return issues
+}
+
+async function checkFonts(params: PreflightParams): Promise<PreflightIssue[]> {
+  const { pages, blocks, companyProfile } = params
+  const fonts = parseCustomFonts(companyProfile?.custom_fonts)
+  const loaded = new Map<string, Font | null>()
+  const issues: PreflightIssue[] = []
+
+  for (const page of pages) {
+    if (!params.maskSettings[page.id]) continue
+    for (const block of blocks[page.id] ?? []) {
+      if (!isTextualBlock(block) || !block.fontFamily) continue
+
+      const font = blockFont(block, fonts)
+      if (!font) {
+        issues.push({
+          check: 'font_unreadable',
+          severity: 'warning',
+          pageId: page.id,
+          blockId: block.id,
+          message: `${blockLabel(block, companyProfile)}: フォントが削除されているため標準フォントで印刷されます`,
+        })
+        continue
+      }
+
+      if (!loaded.has(font.id)) {
+        try {
+          if (!font.url) throw new Error('no signed URL')
+          const response = await fetch(font.url)
+          if (!response.ok) throw new Error(`HTTP ${response.status}`)
+          loaded.set(font.id, fontkit.create(new Uint8Array(await response.arrayBuffer())))
+        } catch (err) {
+          console.warn('[preflight] font unreadable:', font.name, err)
+          loaded.set(font.id, null)
+        }
+      }
+      const face = loaded.get(font.id)
+      if (!face) {
+        issues.push({
+          check: 'font_unreadable',
+          severity: 'warning',
+          pageId: page.id,
+          blockId: block.id,
+          message: `${blockLabel(block, companyProfile)}: フォント「${font.name}」を読み込めないため標準フォントで印刷されます`,
+        })
+        continue
+      }
+
+      const text = blockTextContent(block, companyProfile) ?? ''
+      const missing = Array.from(new Set(Array.from(text.replace(/\s/g, ''))))
+        .filter((char) => !face.hasGlyphForCodePoint(char.codePointAt(0)!))
+      if (missing.length > 0) {
+        issues.push({
+          check: 'font_unreadable',
+          severity: 'error',
+          pageId: page.id,
+          blockId: block.id,
+          message: `${blockLabel(block, companyProfile)}: フォント「${font.name}」に「${missing.slice(0, 5).join('')}」の文字がありません`,
+        })
+      }
+    }
+  }
+  return issues
+}
+
+/** Contact details in the source page's text layer that no mask covers. */
+async function findUncoveredContacts(
+  pdfjs: typeof import('pdfjs-dist'),
+  pdfPage: PDFPageProxy,
+  page: PageInfo,
+  params: PreflightParams
+): Promise<PreflightIssue[]> {
+  const viewport = pdfPage.getViewport({ scale: 1, rotation: page.rotation })
+  const regions = maskRegions(params.maskSettings[page.id], { width: viewport.width, height: viewport.height })
+    .map(regionPolygon)
+  // The agent's own numbers may already be on the sheet (their own listing)
+  const own = [params.companyProfile?.phone, params.companyProfile?.fax]
+    .map((value) => digitsOf(value ?? ''))
+    .filter((digits) => digits.length >= 6)
+
+  const issues: PreflightIssue[] = []
+  const content = await pdfPage.getTextContent()
+  for (const item of content.items as PdfTextItem[]) {
+    const run = textRunOf(item, content.styles)
+    if (!run) continue
+    const text = run.str.normalize('NFKC')
+    const contact = CONTACT_PATTERN.test(text)
+    if (!contact && !LICENSE_KEYWORD_PATTERN.test(text)) continue
+    if (own.some((digits) => digitsOf(text).includes(digits))) continue
+
+    const points = textItemCharPoints(pdfjs, viewport.transform, run)
+    if (points.every((p) => regions.some((r) => pointInPolygon(p, r)))) continue
+
+    issues.push(contact
+      ? {
+          check: 'contact_uncovered',
+          severity: 'error',
+          pageId: page.id,
+          message: `元の連絡先が白塗りされていません:「${run.str.trim()}」`,
+        }
+      : {
+          check: 'contact_uncovered',
+          severity: 'warning',
+          pageId: page.id,
+          message: `元の業者の免許表記の可能性があります:「${run.str.trim()}」`,
+        })
+  }
+  return issues
+}
+
+export async function runPreflight(
+  params: PreflightParams,
+  options: PreflightOptions = {}
+): Promise<PreflightIssue[]> {
+  const { pages, maskSettings, blocks, companyProfile, pageDimensions } = params
+  const issues: PreflightIssue[] = []
+
+  const pdfjs = await loadPdfjs()
+  // Pages of one upload share their source bytes; open each source once
+  const documents = new Map<Uint8Array, Awaited<ReturnType<typeof pdfjs.getDocument>['promise']>>()
+
+  try {
+    for (const page of pages) {
+      const mask = maskSettings[page.id]
+      if (!mask) continue
+
+      let pdf = documents.get(page.pdfData)
+      if (!pdf) {
+        pdf = await pdfjs.getDocument({ data: page.pdfData.slice() }).promise
+        documents.set(page.pdfData, pdf)
+      }
+      const pdfPage = await pdf.getPage(page.pageNumber)
+      const viewport = pdfPage.getViewport({ scale: 1, rotation: page.rotation })
+      const regions = maskRegions(mask, { width: viewport.width, height: viewport.height }).map(regionPolygon)
+
+      const dims = pageDimensions[page.id]
+      for (const block of blocks[page.id] ?? []) {
+        const label = blockLabel(block, companyProfile)
+        const missing = missingContent(block, companyProfile, !!options.publishing)
+        if (missing) {
+          issues.push({
+            check: 'missing_field',
+            severity: missing.severity,
+            pageId: page.id,
+            blockId: block.id,
+            message: `${label}: ${missing.reason}`,
+          })
+        }
+        // Block coordinates are preview pixels; masks are display-space points
+        if (dims && dims.width > 0 && !blockInsideMasks(block, viewport.width / dims.width, regions)) {
+          issues.push({
+            check: 'block_outside_mask',
+            severity: 'warning',
+            pageId: page.id,
+            blockId: block.id,
+            message: `${label}が白塗りの範囲からはみ出しています`,
+          })
+        }
+      }
+
+      try {
+        issues.push(...await findUncoveredContacts(pdfjs, pdfPage, page, params))
+      } catch (err) {
+        console.warn('[preflight] text layer unavailable:', page.fileName, err)
+      }
+    }
+  } finally {
+    documents.forEach((pdf) => pdf.destroy())
+  }
+
+  issues.push(...await checkImages(params), ...await checkFonts(params))
+  return issues
+}
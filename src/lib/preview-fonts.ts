@@ -0,0 +1,113 @@
+'use client'
+
+/**
+ * Browser-side text measurement for the block preview. The PDF generator
+ * embeds `/fonts/NotoSansJP-*.ttf`; the preview loads the same files as a
+ * FontFace so canvas widths (and therefore line breaks) match the output.
+ * Company fonts (`custom_fonts`) are loaded the same way from their signed
+ * storage URL. They have a single face, so bold is not applied to them.
+ */
+
+import { useEffect, useState } from 'react'
+import type { CompanyFont } from '@/lib/database.types'
+import { blockFont, type TextualBlock } from '@/lib/blocks'
+import { layoutText, type MeasureText, type TextLayout } from '@/lib/text-layout'
+
+const PREVIEW_FONT_FAMILY = 'ObikaeNotoSansJP'
+export const PREVIEW_FONT_STACK = `${PREVIEW_FONT_FAMILY}, "Noto Sans JP", sans-serif`
+
+let fontsPromise: Promise<boolean> | null = null
+let fontsLoaded = false
+const customFontPromises = new Map<string, Promise<boolean>>()
+const customFontsLoaded = new Set<string>()
+
+const NO_FONTS: CompanyFont[] = []
+
+const customFamily = (font: CompanyFont) => `ObikaeCustom_${font.id}`
+
+/** CSS font-family for a block: the company font first, Noto Sans JP as fallback. */
+export function previewFontStack(font: CompanyFont | null): string {
+  return font ? `"${customFamily(font)}", ${PREVIEW_FONT_STACK}` : PREVIEW_FONT_STACK
+}
+
+function loadPreviewFonts(): Promise<boolean> {
+  if (!fontsPromise) {
+    const faces = [
+      new FontFace(PREVIEW_FONT_FAMILY, 'url(/fonts/NotoSansJP-Regular.ttf)', { weight: '400' }),
+      new FontFace(PREVIEW_FONT_FAMILY, 'url(/fonts/NotoSansJP-Bold.ttf)', { weight: '700' }),
+    ]
+    fontsPromise = Promise.all(faces.map((face) => face.load()))
+      .then((loaded) => {
+        loaded.forEach((face) => document.fonts.add(face))
+        fontsLoaded = true
+        return true
+      })
+      .catch((err) => {
+        console.error('[preview-fonts] failed to load:', err)
+        return false
+      })
+  }
+  return fontsPromise
+}
+
+function loadCustomFont(font: CompanyFont): Promise<boolean> {
+  const key = `${font.id}:${font.url}`
+  let promise = customFontPromises.get(key)
+  if (!promise && !font.url) return Promise.resolve(false)
+  if (!promise) {
+    promise = new FontFace(customFamily(font), `url(${JSON.stringify(font.url)})`)
+      .load()
+      .then((face) => {
+        document.fonts.add(face)
+        customFontsLoaded.add(key)
+        return true
+      })
+      .catch((err) => {
+        console.error('[preview-fonts] failed to load company font:', font.name, err)
+        return false
+      })
+    customFontPromises.set(key, promise)
+  }
+  return promise
+}
+
+/** Re-renders once the preview fonts (and the given company fonts) are available. */
+export function usePreviewFontsReady(customFonts: CompanyFont[] = NO_FONTS): boolean {
+  const key = customFonts.map((f) => `${f.id}:${f.url}`).join('|')
+  const [readyKey, setReadyKey] = useState<string | null>(() =>
+    fontsLoaded && customFonts.every((f) => customFontsLoaded.has(`${f.id}:${f.url}`)) ? key : null
+  )
+
+  useEffect(() => {
+    let cancelled = false
+    // A company font that fails to load falls back to Noto Sans JP; only the base fonts gate readiness
+    Promise.all([loadPreviewFonts(), ...customFonts.map(loadCustomFont)]).then(([ok]) => {
+      if (!cancelled && ok) setReadyKey(key)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [key, customFonts])
+
+  return readyKey === key
+}
+
+let measureContext: CanvasRenderingContext2D | null = null
+
+export function createPreviewMeasure(fontWeight: 'normal' | 'bold', font: CompanyFont | null = null): MeasureText {
+  const weight = fontWeight === 'bold' && !font ? 700 : 400
+  return (text, fontSize) => {
+    if (!measureContext) measureContext = document.createElement('canvas').getContext('2d')
+    if (!measureContext) return text.length * fontSize
+    measureContext.font = `${weight} ${fontSize}px ${previewFontStack(font)}`
+    return measureContext.measureText(text).width
+  }
+}
+
+export function layoutPreviewText(
+  content: string,
+  block: TextualBlock,
+  customFonts: CompanyFont[] = NO_FONTS
+): TextLayout {
+  return layoutText(content, block, createPreviewMeasure(block.fontWeight, blockFont(block, customFonts)))
+}
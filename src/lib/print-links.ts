@@ -0,0 +1,114 @@
+/**
+ * Tracked QR codes for listing QR blocks.
+ *
+ * Instead of `/p/<slug>`, a listing QR encodes a short `/q/<code>` URL. Each
+ * code belongs to one listing and one export batch: the web publish is the
+ * `web` batch and every print download starts a new `print` batch, so a scan
+ * tells which handout the customer picked up. The /q route resolves the code
+ * with `resolve_print_link`, which logs the scan to `print_scans`, and
+ * redirects to the listing's own page.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import { getPublicBaseUrl } from '@/lib/public-url'
+import type { Database } from '@/lib/database.types'
+
+export type PrintChannel = 'web' | 'print'
+
+// No 0/o/1/l so a code read off paper can be typed back in; 32 symbols keep `byte % length` uniform
+const CODE_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789'
+const CODE_LENGTH = 8
+
+export interface PrintBatch {
+  batchId: string
+  channel: PrintChannel
+}
+
+/** A listing to register in a batch, with the pages whose QR blocks point at it. */
+export interface PrintBatchListing {
+  listingId: string
+  pageIds: string[]
+}
+
+export interface ListingScanStats {
+  total: number
+  /** Scans of codes from print batches (the rest came off the published web images) */
+  print: number
+  lastScannedAt: string | null
+}
+
+export function newPrintBatch(channel: PrintChannel): PrintBatch {
+  return { batchId: `${channel}-${Date.now().toString(36)}`, channel }
+}
+
+export function newPrintCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH))
+  return Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('')
+}
+
+export function printLinkUrl(code: string): string {
+  return `${getPublicBaseUrl()}/q/${code}`
+}
+
+/** Register a batch's codes. Call before the codes are drawn into a PDF so every printed QR resolves. */
+export async function savePrintLinks(
+  batch: PrintBatch,
+  links: { code: string; listingId: string }[]
+): Promise<void> {
+  if (links.length === 0) return
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('ログインが必要です')
+
+  const { error } = await supabase.from('print_links').insert(
+    links.map((link) => ({
+      code: link.code,
+      user_id: user.id,
+      listing_id: link.listingId,
+      batch_id: batch.batchId,
+      channel: batch.channel,
+    }))
+  )
+  if (error) throw new Error(error.message)
+}
+
+/**
+ * Start a batch with a fresh code per listing. Returns the QR URL for each
+ * page, ready for `QrTargets.listingUrls`.
+ */
+export async function createPrintBatch(
+  listings: PrintBatchListing[],
+  channel: PrintChannel = 'print'
+): Promise<{ [pageId: string]: string }> {
+  const batch = newPrintBatch(channel)
+  const links = listings.map((listing) => ({
+    code: newPrintCode(),
+    listingId: listing.listingId,
+  }))
+  await savePrintLinks(batch, links)
+
+  return Object.fromEntries(
+    listings.flatMap((listing, i) => listing.pageIds.map((pageId) => [pageId, printLinkUrl(links[i].code)]))
+  )
+}
+
+/** Scan counts per listing, aggregated in the database (`print_scan_stats`). */
+export async function loadScanStats(listingIds: string[]): Promise<Map<string, ListingScanStats>> {
+  const stats = new Map<string, ListingScanStats>()
+  if (listingIds.length === 0) return stats
+
+  const supabase = createClient()
+  const { data, error } = await supabase.rpc('print_scan_stats', { p_listing_ids: listingIds })
+
+  if (error) throw new Error(error.message)
+
+  const rows = (data ?? []) as Database['public']['Functions']['print_scan_stats']['Returns']
+  for (const row of rows) {
+    stats.set(row.listing_id, {
+      total: Number(row.total),
+      print: Number(row.print),
+      lastScannedAt: row.last_scanned_at,
+    })
+  }
+  return stats
+}
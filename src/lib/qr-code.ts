@@ -0,0 +1,395 @@
+/**
+ * QR code encoder (ISO/IEC 18004) for QR blocks.
+ *
+ * Byte mode with UTF-8 text, the smallest version (1–40) that fits at the
+ * requested error-correction level, and the mask with the lowest penalty
+ * score. The result is the bare module matrix: the PDF generator draws it as
+ * vector rectangles and the preview as an SVG path, so the code stays sharp
+ * at any print size. Renderers add the 4-module quiet zone themselves.
+ */
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H'
+
+export interface QrMatrix {
+  /** Modules per side */
+  size: number
+  /** modules[y][x], true = dark */
+  modules: boolean[][]
+}
+
+/** A horizontal run of dark modules, in module units. */
+export interface QrRun {
+  x: number
+  y: number
+  length: number
+}
+
+/** Light modules required around the symbol (the spec's minimum). */
+export const QR_QUIET_ZONE = 4
+
+const ECC_ORDINAL: Record<QrErrorCorrection, number> = { L: 0, M: 1, Q: 2, H: 3 }
+const ECC_FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+// Indexed [ecc ordinal][version]; index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+]
+
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+]
+
+function getBit(value: number, i: number): boolean {
+  return ((value >>> i) & 1) !== 0
+}
+
+/** Modules available for data + ECC once the function patterns are placed. */
+function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2
+    result -= (25 * numAlign - 10) * numAlign - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+function numDataCodewords(version: number, ecc: QrErrorCorrection): number {
+  const e = ECC_ORDINAL[ecc]
+  return Math.floor(numRawDataModules(version) / 8)
+    - ECC_CODEWORDS_PER_BLOCK[e][version] * NUM_ERROR_CORRECTION_BLOCKS[e][version]
+}
+
+// ---------------------------------------------------------------------------
+// Reed–Solomon over GF(2^8), polynomial 0x11D
+// ---------------------------------------------------------------------------
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z & 0xff
+}
+
+function rsDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+/** ECC codewords for `data`: the remainder of data(x) * x^degree divided by the generator. */
+function rsRemainder(data: number[], degree: number): number[] {
+  const divisor = rsDivisor(degree)
+  const result = new Array<number>(degree).fill(0)
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor)
+    })
+  }
+  return result
+}
+
+/** Split into blocks, append each block's ECC, and interleave as the spec requires. */
+function addEccAndInterleave(data: number[], version: number, ecc: QrErrorCorrection): number[] {
+  const e = ECC_ORDINAL[ecc]
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[e][version]
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[e][version]
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks)
+
+  const blocks: number[][] = []
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1))
+    k += dat.length
+    const eccWords = rsRemainder(dat, blockEccLen)
+    if (i < numShortBlocks) dat.push(0)
+    blocks.push(dat.concat(eccWords))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte of short blocks
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i])
+    })
+  }
+  return result
+}
+
+// ---------------------------------------------------------------------------
+// Matrix construction
+// ---------------------------------------------------------------------------
+
+class QrBuilder {
+  readonly size: number
+  readonly modules: boolean[][]
+  private readonly isFunction: boolean[][]
+
+  constructor(private readonly version: number, private readonly ecc: QrErrorCorrection) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark
+    this.isFunction[y][x] = true
+  }
+
+  private alignmentPositions(): number[] {
+    if (this.version === 1) return []
+    const numAlign = Math.floor(this.version / 7) + 2
+    const step = Math.floor((this.version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2
+    const result = [6]
+    for (let pos = this.size - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos)
+    return result
+  }
+
+  drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0)
+      this.setFunction(i, 6, i % 2 === 0)
+    }
+
+    // Finder patterns with their separators
+    for (const [cx, cy] of [[3, 3], [this.size - 4, 3], [3, this.size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx
+          const y = cy + dy
+          if (x < 0 || x >= this.size || y < 0 || y >= this.size) continue
+          const dist = Math.max(Math.abs(dx), Math.abs(dy))
+          this.setFunction(x, y, dist !== 2 && dist !== 4)
+        }
+      }
+    }
+
+    // Alignment patterns, except where they would overlap a finder
+    const positions = this.alignmentPositions()
+    const last = positions.length - 1
+    positions.forEach((cx, i) => {
+      positions.forEach((cy, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+          }
+        }
+      })
+    })
+
+    // Reserve the format areas (overwritten once the mask is chosen)
+    this.drawFormatBits(0)
+    this.drawVersion()
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (ECC_FORMAT_BITS[this.ecc] << 3) | mask
+    let rem = data
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537)
+    const bits = ((data << 10) | rem) ^ 0x5412
+
+    // Around the top-left finder
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i))
+    this.setFunction(8, 7, getBit(bits, 6))
+    this.setFunction(8, 8, getBit(bits, 7))
+    this.setFunction(7, 8, getBit(bits, 8))
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i))
+
+    // Split between the other two finders
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, getBit(bits, i))
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, getBit(bits, i))
+    this.setFunction(8, this.size - 8, true)
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return
+    let rem = this.version
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25)
+    const bits = (this.version << 12) | rem
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      this.setFunction(a, b, getBit(bits, i))
+      this.setFunction(b, a, getBit(bits, i))
+    }
+  }
+
+  /** Zig-zag the codewords through the non-function modules, two columns at a time from the right. */
+  drawCodewords(data: number[]) {
+    let i = 0
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5 // skip the vertical timing column
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vert : vert
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7))
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  /** XOR the mask pattern into the data modules; applying it twice undoes it. */
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.isFunction[y][x]) continue
+        let invert: boolean
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break
+          case 1: invert = y % 2 === 0; break
+          case 2: invert = x % 3 === 0; break
+          case 3: invert = (x + y) % 3 === 0; break
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+        }
+        if (invert) this.modules[y][x] = !this.modules[y][x]
+      }
+    }
+  }
+
+  /** Penalty score (rules N1–N4); lower scans more reliably. */
+  penalty(): number {
+    const { size, modules } = this
+    let result = 0
+
+    const lines: string[] = []
+    for (let i = 0; i < size; i++) {
+      let row = ''
+      let col = ''
+      for (let j = 0; j < size; j++) {
+        row += modules[i][j] ? '1' : '0'
+        col += modules[j][i] ? '1' : '0'
+      }
+      lines.push(row, col)
+    }
+
+    for (const line of lines) {
+      // N1: runs of 5+ same-colour modules
+      for (const run of line.match(/0{5,}|1{5,}/g) ?? []) result += run.length - 2
+      // N3: finder-like 1:1:3:1:1 patterns with 4 light modules on one side
+      result += ((line.match(/(?=00001011101|10111010000)/g) ?? []).length) * 40
+    }
+
+    // N2: 2x2 blocks of one colour
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const c = modules[y][x]
+        if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) result += 3
+      }
+    }
+
+    // N4: dark/light balance, 10 points per 5% away from half
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0)
+    const total = size * size
+    result += Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10
+
+    return result
+  }
+}
+
+/** Data codewords for `bytes` in byte mode: header, payload, terminator and padding. */
+function encodeData(bytes: Uint8Array, version: number, capacity: number): number[] {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  append(0b0100, 4)
+  append(bytes.length, version <= 9 ? 8 : 16)
+  bytes.forEach((b) => append(b, 8))
+
+  const capacityBits = capacity * 8
+  append(0, Math.min(4, capacityBits - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+
+  const result: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    result.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0))
+  }
+  for (let pad = 0xec; result.length < capacity; pad ^= 0xec ^ 0x11) result.push(pad)
+  return result
+}
+
+export function encodeQr(text: string, ecc: QrErrorCorrection = 'M'): QrMatrix {
+  const bytes = new TextEncoder().encode(text)
+
+  let version = 1
+  for (; version <= 40; version++) {
+    const headerBits = 4 + (version <= 9 ? 8 : 16)
+    if (headerBits + bytes.length * 8 <= numDataCodewords(version, ecc) * 8) break
+  }
+  if (version > 40) throw new Error('QRコードに入りきらない長さです')
+
+  const data = encodeData(bytes, version, numDataCodewords(version, ecc))
+  const builder = new QrBuilder(version, ecc)
+  builder.drawFunctionPatterns()
+  builder.drawCodewords(addEccAndInterleave(data, version, ecc))
+
+  let bestMask = 0
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < 8; mask++) {
+    builder.applyMask(mask)
+    builder.drawFormatBits(mask)
+    const score = builder.penalty()
+    if (score < bestPenalty) {
+      bestMask = mask
+      bestPenalty = score
+    }
+    builder.applyMask(mask)
+  }
+  builder.applyMask(bestMask)
+  builder.drawFormatBits(bestMask)
+
+  return { size: builder.size, modules: builder.modules }
+}
+
+/** Dark modules merged into horizontal runs, so a code draws as a few hundred rectangles. */
+export function qrRuns(qr: QrMatrix): QrRun[] {
+  const runs: QrRun[] = []
+  qr.modules.forEach((row, y) => {
+    let start = -1
+    for (let x = 0; x <= qr.size; x++) {
+      const dark = x < qr.size && row[x]
+      if (dark && start < 0) start = x
+      if (!dark && start >= 0) {
+        runs.push({ x: start, y, length: x - start })
+        start = -1
+      }
+    }
+  })
+  return runs
+}
+
+/** SVG path of the dark modules in module units, offset by the quiet zone. */
+export function qrSvgPath(qr: QrMatrix): string {
+  return qrRuns(qr)
+    .map((run) => `M${run.x + QR_QUIET_ZONE} ${run.y + QR_QUIET_ZONE}h${run.length}v1h${-run.length}z`)
+    .join('')
+}
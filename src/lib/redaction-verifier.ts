@@ -0,0 +1,125 @@
+/**
+ * Post-export redaction check. The generated PDF is re-read with pdfjs — a
+ * different parser from the one that redacted it — and any text still
+ * extractable inside a mask region is reported.
+ *
+ * Text the generator itself placed in the band (the company blocks) is
+ * expected there and passed in as `ownText` so it is not flagged.
+ */
+
+import { maskRegions, pointInPolygon, regionPolygon } from '@/lib/mask-geometry'
+import { loadPdfjs } from '@/lib/pdfjs'
+import type { MaskPoint, MaskSettings } from '@/types/editor'
+
+export interface RedactionLeak {
+  /** 0-based page index in the generated PDF */
+  pageIndex: number
+  text: string
+}
+
+export interface VerifyPageInput {
+  mask: MaskSettings
+  ownText: string[]
+}
+
+/** The parts of a pdfjs `TextItem` the position checks use. */
+export interface PdfTextItem {
+  str?: string
+  transform?: number[]
+  width?: number
+  height?: number
+  fontName?: string
+}
+
+/** A text item's sample input; `vertical` comes from its style (`TextContent.styles`). */
+export interface PdfTextRun {
+  str: string
+  transform: number[]
+  width: number
+  height: number
+  vertical: boolean
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, '')
+
+/**
+ * Display-space sample point for each character of a text item: its centre
+ * along the baseline direction, a little above the baseline. Vertical runs
+ * (`-V` / WMode 1 fonts) keep an unrotated transform and advance down the
+ * text space's y axis by `height`, centred on the origin's x.
+ */
+export function textItemCharPoints(
+  pdfjs: typeof import('pdfjs-dist'),
+  viewportTransform: number[],
+  item: PdfTextRun
+): MaskPoint[] {
+  const tx = pdfjs.Util.transform(viewportTransform, item.transform)
+  const count = Array.from(item.str).length
+  if (item.vertical) {
+    const size = Math.hypot(tx[2], tx[3]) || 1
+    const down = { x: -tx[2] / size, y: -tx[3] / size }
+    return Array.from({ length: count }, (_, k) => {
+      const along = (item.height * (k + 0.5)) / count
+      return { x: tx[4] + down.x * along, y: tx[5] + down.y * along }
+    })
+  }
+  const advance = Math.hypot(tx[0], tx[1]) || 1
+  const dir = { x: tx[0] / advance, y: tx[1] / advance }
+  const up = { x: tx[2] * 0.35, y: tx[3] * 0.35 }
+  return Array.from({ length: count }, (_, k) => {
+    const along = (item.width * (k + 0.5)) / count
+    return { x: tx[4] + dir.x * along + up.x, y: tx[5] + dir.y * along + up.y }
+  })
+}
+
+/** The sample input for a pdfjs text item, or null when it has no text. */
+export function textRunOf(item: PdfTextItem, styles: Record<string, { vertical?: boolean }>): PdfTextRun | null {
+  if (!item.str?.trim() || !item.transform) return null
+  return {
+    str: item.str,
+    transform: item.transform,
+    width: item.width ?? 0,
+    height: item.height ?? 0,
+    vertical: !!(item.fontName && styles[item.fontName]?.vertical),
+  }
+}
+
+export async function findTextInsideMasks(
+  pdfBytes: Uint8Array,
+  pages: VerifyPageInput[]
+): Promise<RedactionLeak[]> {
+  const pdfjs = await loadPdfjs()
+
+  const pdf = await pdfjs.getDocument({ data: pdfBytes.slice() }).promise
+  const leaks: RedactionLeak[] = []
+
+  try {
+    for (let i = 0; i < Math.min(pdf.numPages, pages.length); i++) {
+      const { mask, ownText } = pages[i]
+      const page = await pdf.getPage(i + 1)
+      const viewport = page.getViewport({ scale: 1 })
+      const regions = maskRegions(mask, { width: viewport.width, height: viewport.height }).map(regionPolygon)
+      if (regions.length === 0) continue
+
+      // Company blocks are drawn one line per text run, so match runs as substrings
+      const own = ownText.map(normalize)
+      const content = await page.getTextContent()
+
+      for (const item of content.items as PdfTextItem[]) {
+        const run = textRunOf(item, content.styles)
+        if (!run || own.some((t) => t.includes(normalize(run.str)))) continue
+
+        const chars = Array.from(run.str)
+        const points = textItemCharPoints(pdfjs, viewport.transform, run)
+        const inside = chars.filter((_, k) => regions.some((r) => pointInPolygon(points[k], r)))
+
+        const text = inside.join('').trim()
+        if (text) leaks.push({ pageIndex: i, text })
+      }
+    }
+  } finally {
+    pdf.destroy()
+  }
+
+  return leaks
+}
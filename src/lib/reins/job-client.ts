@@ -0,0 +1,121 @@
+/**
+ * Browser side of the REINS fetch jobs: start a job, poll it until it
+ * finishes, download each property's files as PDFs, then delete the job.
+ *
+ * Polling also keeps the job going: when a run has ended without finishing
+ * (time budget spent, or the run died and its lease expired) the next poll
+ * asks the server to continue it.
+ */
+
+import { PDFDocument } from 'pdf-lib'
+import { createClient } from '@/lib/supabase/client'
+import type { ReinsFetchItem } from '@/lib/database.types'
+import type { MaisokuVacancy } from '@/lib/maisoku/types'
+import { REINS_MAISOKU_BUCKET, isItemSettled, isJobFinished, type ReinsJobStatus } from '@/lib/reins/job-status'
+
+const POLL_INTERVAL_MS = 2000
+
+export interface ReinsJobOptions {
+  /** Fetch every property even when the maisoku cache has a fresh copy */
+  forceRefresh?: boolean
+  onProgress?: (status: ReinsJobStatus) => void
+  /** Stops polling; the job itself keeps running on the server */
+  signal?: AbortSignal
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new DOMException('中止しました', 'AbortError'))
+    }, { once: true })
+  })
+}
+
+async function errorMessage(res: Response, fallback: string): Promise<string> {
+  const body = await res.json().catch(() => ({}))
+  return body?.error ?? `${fallback} (${res.status})`
+}
+
+export async function startReinsJob(vacancies: MaisokuVacancy[], forceRefresh = false): Promise<string> {
+  const res = await fetch('/api/reins/jobs', {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ vacancies, forceRefresh }),
+  })
+  if (!res.ok) throw new Error(await errorMessage(res, 'REINS取得ジョブの作成に失敗しました'))
+  const data = (await res.json()) as { jobId: string }
+  return data.jobId
+}
+
+export async function getReinsJobStatus(jobId: string): Promise<ReinsJobStatus> {
+  const res = await fetch(`/api/reins/jobs/${jobId}`, { credentials: 'include', cache: 'no-store' })
+  if (!res.ok) throw new Error(await errorMessage(res, 'REINS取得ジョブの確認に失敗しました'))
+  return res.json()
+}
+
+/** Poll until the job is done or failed; resolves with the final state. */
+export async function waitForReinsJob(jobId: string, options: ReinsJobOptions = {}): Promise<ReinsJobStatus> {
+  const { onProgress, signal } = options
+  for (;;) {
+    signal?.throwIfAborted()
+    const status = await getReinsJobStatus(jobId)
+    onProgress?.(status)
+    if (isJobFinished(status.job)) return status
+
+    const { job } = status
+    const leaseExpired = !job.locked_until || new Date(job.locked_until).getTime() < Date.now()
+    if (job.status === 'queued' || leaseExpired) {
+      // A no-op on the server while another run still holds the job
+      await fetch(`/api/reins/jobs/${jobId}/run`, { method: 'POST', credentials: 'include' })
+        .catch((err) => console.warn('[reins/jobs] continue request failed:', err))
+    }
+    await sleep(POLL_INTERVAL_MS, signal)
+  }
+}
+
+export async function runReinsFetchJob(
+  vacancies: MaisokuVacancy[],
+  options: ReinsJobOptions = {}
+): Promise<ReinsJobStatus> {
+  const jobId = await startReinsJob(vacancies, options.forceRefresh)
+  return waitForReinsJob(jobId, options)
+}
+
+/** Delete a finished job and its stored files. Best-effort: the server prunes old jobs anyway. */
+export async function deleteReinsJob(jobId: string): Promise<void> {
+  const res = await fetch(`/api/reins/jobs/${jobId}`, { method: 'DELETE', credentials: 'include' })
+    .catch((err) => { console.warn('[reins/jobs] delete request failed:', err); return null })
+  if (res && !res.ok) console.warn('[reins/jobs] delete failed:', await errorMessage(res, 'ジョブの削除に失敗しました'))
+}
+
+/** One PDF per stored file; images are wrapped in a single-page PDF. */
+export async function downloadReinsItemPdfs(item: ReinsFetchItem): Promise<Uint8Array[]> {
+  const supabase = createClient()
+  const pdfs: Uint8Array[] = []
+  for (const path of item.files) {
+    const { data, error } = await supabase.storage.from(REINS_MAISOKU_BUCKET).download(path)
+    if (error || !data) throw new Error(`${item.reins_id}: ${error?.message ?? 'ファイルを取得できませんでした'}`)
+    const bytes = new Uint8Array(await data.arrayBuffer())
+    if (!path.endsWith('.jpg')) {
+      pdfs.push(bytes)
+      continue
+    }
+    const pdfDoc = await PDFDocument.create()
+    // Screenshots are JPEG; uploads may be PNG under the same extension
+    const image = await pdfDoc.embedJpg(bytes).catch(() => pdfDoc.embedPng(bytes))
+    const page = pdfDoc.addPage([image.width, image.height])
+    page.drawImage(image, { x: 0, y: 0, width: image.width, height: image.height })
+    pdfs.push(await pdfDoc.save())
+  }
+  return pdfs
+}
+
+/** "3/10件 取得中: 12345678" style summary for progress labels. */
+export function formatReinsJobProgress({ items }: ReinsJobStatus): string {
+  const finished = items.filter(isItemSettled).length
+  const running = items.find((item) => item.status === 'running')
+  return `${finished}/${items.length}件${running ? ` 取得中: ${running.reins_id}` : ''}`
+}
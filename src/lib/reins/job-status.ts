@@ -0,0 +1,31 @@
+/**
+ * REINS fetch job state shared by the server runner (`jobs.ts`) and the
+ * browser client (`job-client.ts`).
+ */
+
+import type { ReinsFetchItem, ReinsFetchJob } from '@/lib/database.types'
+
+export const REINS_MAISOKU_BUCKET = 'reins-maisoku'
+
+/** Fetch attempts per REINS ID before its error is final */
+export const MAX_ATTEMPTS = 3
+
+export interface ReinsJobStatus {
+  job: ReinsFetchJob
+  items: ReinsFetchItem[]
+}
+
+/** An item no run will pick up again. */
+export function isItemSettled(item: Pick<ReinsFetchItem, 'status' | 'attempts'>): boolean {
+  if (item.status === 'success' || item.status === 'not_found') return true
+  return item.status === 'error' && item.attempts >= MAX_ATTEMPTS
+}
+
+export function isJobFinished(job: Pick<ReinsFetchJob, 'status'>): boolean {
+  return job.status === 'done' || job.status === 'failed'
+}
+
+/** A successful item served from the maisoku cache: its files were fetched before the job was created. */
+export function isItemFromCache(job: Pick<ReinsFetchJob, 'created_at'>, item: Pick<ReinsFetchItem, 'status' | 'cached_at'>): boolean {
+  return item.status === 'success' && !!item.cached_at && new Date(item.cached_at) < new Date(job.created_at)
+}
@@ -0,0 +1,329 @@
+/**
+ * REINS fetch jobs — fetching maisoku for a list of vacancies as a persisted
+ * job instead of one long request. Each vacancy is served from the maisoku
+ * cache when fresh (unless the job forces a refresh) and otherwise goes
+ * through the maisoku sources (`@/lib/maisoku`), with REINS as the last resort.
+ *
+ * The API route creates the job (one item per vacancy), claims it and runs
+ * it after responding; the browser polls the job and downloads each item's
+ * files from the `reins-maisoku` bucket once it finishes. A run stops taking
+ * new items once its time budget is spent and leaves the job 'queued'; the
+ * next poll starts another run. Items that fail are retried up to MAX_ATTEMPTS.
+ *
+ * Jobs are temporary: the browser deletes a job with its files once it has
+ * downloaded them, and jobs left behind (the tab was closed mid-fetch) are
+ * pruned after JOB_RETENTION_HOURS whenever the user starts a new one.
+ *
+ * Users can only read and delete their jobs: every insert and update here,
+ * and the uploads of fetched files, go through the service-role client, so
+ * status, attempts, the lease and the stored file paths are only ever set by
+ * this module. The caller's own client is still used for reads and for the
+ * upload source, which must only see the user's files.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ReinsFetchItem } from '@/lib/database.types'
+import { fetchMaisoku, type MaisokuResult, type MaisokuVacancy } from '@/lib/maisoku'
+import { withMaisokuCache } from '@/lib/maisoku/cache'
+import { createServiceClient } from '@/lib/supabase/server'
+import { MAX_ATTEMPTS, REINS_MAISOKU_BUCKET, isItemSettled, type ReinsJobStatus } from '@/lib/reins/job-status'
+
+// The route's maxDuration is 300s: stop taking new items well before that,
+// and hold the lease just past it so a dead run is noticed on the next poll
+const RUN_BUDGET_MS = 240_000
+const LEASE_MS = 290_000
+
+const JOB_RETENTION_HOURS = 24
+
+// Job writes bypass RLS; without the service role there are no jobs
+function serviceClient(): SupabaseClient {
+  const service = createServiceClient()
+  if (!service) throw new Error('サーバーの設定が不足しています（SUPABASE_SERVICE_ROLE_KEY）')
+  return service
+}
+
+export interface ReinsJobOptions {
+  /** Fetch every vacancy even when the maisoku cache has a fresh entry */
+  forceRefresh?: boolean
+}
+
+export async function createReinsJob(
+  userId: string,
+  vacancies: MaisokuVacancy[],
+  options: ReinsJobOptions = {}
+): Promise<string> {
+  const service = serviceClient()
+  const { data: job, error } = await service
+    .from('reins_fetch_jobs')
+    .insert({ user_id: userId, force_refresh: options.forceRefresh ?? false })
+    .select('id')
+    .single()
+  if (error || !job) throw new Error(error?.message ?? 'ジョブを作成できませんでした')
+
+  const { error: itemsError } = await service
+    .from('reins_fetch_items')
+    .insert(vacancies.map((vacancy, position) => ({
+      job_id: job.id,
+      position,
+      reins_id: vacancy.reinsId,
+      maisoku_url: vacancy.maisokuUrl ?? null,
+      platform_id: vacancy.platformId ?? null,
+      upload_path: vacancy.uploadPath ?? null,
+    })))
+  if (itemsError) throw new Error(itemsError.message)
+
+  return job.id
+}
+
+export async function getReinsJob(supabase: SupabaseClient, jobId: string): Promise<ReinsJobStatus | null> {
+  const { data: job, error } = await supabase
+    .from('reins_fetch_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  if (!job) return null
+
+  const { data: items, error: itemsError } = await supabase
+    .from('reins_fetch_items')
+    .select('*')
+    .eq('job_id', jobId)
+    .order('position')
+  if (itemsError) throw new Error(itemsError.message)
+
+  return { job, items: items ?? [] }
+}
+
+/** Delete jobs with their items and stored files. */
+async function removeJobs(supabase: SupabaseClient, jobIds: string[]) {
+  if (jobIds.length === 0) return
+
+  const { data: items, error } = await supabase
+    .from('reins_fetch_items')
+    .select('files')
+    .in('job_id', jobIds)
+  if (error) throw new Error(error.message)
+
+  const files = ((items ?? []) as Pick<ReinsFetchItem, 'files'>[]).flatMap((item) => item.files)
+  if (files.length > 0) {
+    const { error: removeError } = await supabase.storage.from(REINS_MAISOKU_BUCKET).remove(files)
+    if (removeError) throw new Error(removeError.message)
+  }
+
+  const { error: deleteError } = await supabase.from('reins_fetch_jobs').delete().in('id', jobIds)
+  if (deleteError) throw new Error(deleteError.message)
+}
+
+/** Delete a finished job and its files. Returns false when the job is missing or still running. */
+export async function deleteReinsJob(supabase: SupabaseClient, jobId: string): Promise<boolean> {
+  const { data: job, error } = await supabase
+    .from('reins_fetch_jobs')
+    .select('id')
+    .eq('id', jobId)
+    .in('status', ['done', 'failed'])
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  if (!job) return false
+
+  await removeJobs(supabase, [jobId])
+  return true
+}
+
+/** Delete the user's jobs older than JOB_RETENTION_HOURS. Best-effort: failures are only logged. */
+export async function pruneReinsJobs(supabase: SupabaseClient, userId: string): Promise<void> {
+  const cutoff = new Date(Date.now() - JOB_RETENTION_HOURS * 3600_000).toISOString()
+  try {
+    const { data, error } = await supabase
+      .from('reins_fetch_jobs')
+      .select('id')
+      .eq('user_id', userId)
+      .lt('created_at', cutoff)
+    if (error) throw new Error(error.message)
+    await removeJobs(supabase, (data ?? []).map((job: { id: string }) => job.id))
+  } catch (error) {
+    console.warn('[reins/jobs] prune failed:', (error as Error).message)
+  }
+}
+
+/**
+ * Take the lease on one of the user's jobs that is not finished and not held
+ * by a live run. Returns false when another run holds it (or the job is done
+ * or not the user's), so two polls never fetch the same items.
+ */
+export async function claimReinsJob(userId: string, jobId: string): Promise<boolean> {
+  const now = new Date()
+  const { data, error } = await serviceClient()
+    .from('reins_fetch_jobs')
+    .update({
+      status: 'running',
+      error: null,
+      error_code: null,
+      locked_until: new Date(now.getTime() + LEASE_MS).toISOString(),
+    })
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .in('status', ['queued', 'running'])
+    .or(`locked_until.is.null,locked_until.lt."${now.toISOString()}"`)
+    .select('id')
+  if (error) throw new Error(error.message)
+  return (data ?? []).length > 0
+}
+
+/**
+ * Items a dead run left 'running'. The caller holds the lease, so no live run
+ * is fetching them: those out of attempts are failed, the rest are retried.
+ */
+async function settleAbandonedItems(service: SupabaseClient, jobId: string) {
+  const { error } = await service
+    .from('reins_fetch_items')
+    .update({ status: 'error', error: '取得処理が途中で停止しました' })
+    .eq('job_id', jobId)
+    .eq('status', 'running')
+    .gte('attempts', MAX_ATTEMPTS)
+  if (error) throw new Error(error.message)
+}
+
+async function pendingItems(supabase: SupabaseClient, jobId: string): Promise<ReinsFetchItem[]> {
+  const { data, error } = await supabase
+    .from('reins_fetch_items')
+    .select('*')
+    .eq('job_id', jobId)
+    .order('position')
+  if (error) throw new Error(error.message)
+  return ((data ?? []) as ReinsFetchItem[]).filter((item) => !isItemSettled(item))
+}
+
+async function updateItem(service: SupabaseClient, id: string, patch: Partial<ReinsFetchItem>) {
+  const { error } = await service.from('reins_fetch_items').update(patch).eq('id', id)
+  if (error) console.error('[reins/jobs] item update failed:', error.message)
+}
+
+async function markStarted(service: SupabaseClient, item: ReinsFetchItem) {
+  item.attempts += 1
+  await updateItem(service, item.id, { status: 'running', attempts: item.attempts, error: null, error_code: null })
+}
+
+async function storeResult(
+  service: SupabaseClient,
+  userId: string,
+  jobId: string,
+  item: ReinsFetchItem,
+  result: MaisokuResult
+) {
+  if (result.status !== 'success') {
+    await updateItem(service, item.id, {
+      status: result.status,
+      error: result.status === 'error' ? result.error ?? '取得に失敗しました' : null,
+      error_code: result.errorCode ?? null,
+    })
+    return
+  }
+
+  const files: string[] = []
+  for (let k = 0; k < result.files.length; k++) {
+    const file = result.files[k]
+    const path = `${userId}/${jobId}/${item.position}-${k}.${file.kind === 'pdf' ? 'pdf' : 'jpg'}`
+    const { error } = await service.storage
+      .from(REINS_MAISOKU_BUCKET)
+      .upload(path, Buffer.from(file.data, 'base64'), {
+        contentType: file.kind === 'pdf' ? 'application/pdf' : 'image/jpeg',
+        upsert: true,
+      })
+    if (error) {
+      await updateItem(service, item.id, { status: 'error', error: `保存に失敗しました: ${error.message}` })
+      return
+    }
+    files.push(path)
+  }
+
+  await updateItem(service, item.id, {
+    status: 'success',
+    source: result.source,
+    files,
+    error: null,
+    error_code: null,
+    cached_at: result.cachedAt ?? null,
+    changed: result.changed ?? false,
+  })
+}
+
+/** One pass over the given items; returns once they are done or the budget is spent. */
+async function fetchItems(
+  supabase: SupabaseClient,
+  service: SupabaseClient,
+  userId: string,
+  jobId: string,
+  items: ReinsFetchItem[],
+  deadline: number,
+  forceRefresh: boolean
+) {
+  const vacancies: MaisokuVacancy[] = items.map((item) => ({
+    reinsId: item.reins_id,
+    maisokuUrl: item.maisoku_url,
+    platformId: item.platform_id,
+    uploadPath: item.upload_path,
+  }))
+  await withMaisokuCache(
+    service,
+    vacancies,
+    (misses, hooks) => fetchMaisoku(misses, { supabase }, hooks),
+    { forceRefresh },
+    {
+      shouldStop: () => Date.now() > deadline,
+      onStart: (_vacancy, index) => markStarted(service, items[index]),
+      onResult: (result, index) => storeResult(service, userId, jobId, items[index], result),
+    }
+  )
+}
+
+/**
+ * Fetch the job's unsettled items, retrying failures while the budget lasts.
+ * The caller must have claimed the job. Never throws: a failure that stops
+ * the whole run is recorded on the job.
+ */
+export async function runReinsJob(supabase: SupabaseClient, jobId: string, userId: string): Promise<void> {
+  const deadline = Date.now() + RUN_BUDGET_MS
+  const service = createServiceClient()
+  if (!service) {
+    console.error('[reins/jobs] run failed: SUPABASE_SERVICE_ROLE_KEY is not set')
+    return
+  }
+
+  try {
+    const { data: job, error } = await supabase
+      .from('reins_fetch_jobs')
+      .select('force_refresh')
+      .eq('id', jobId)
+      .single()
+    if (error) throw new Error(error.message)
+
+    await settleAbandonedItems(service, jobId)
+    let items = await pendingItems(supabase, jobId)
+    while (items.length > 0 && Date.now() <= deadline) {
+      await fetchItems(supabase, service, userId, jobId, items, deadline, job.force_refresh)
+      items = await pendingItems(supabase, jobId)
+    }
+
+    await service
+      .from('reins_fetch_jobs')
+      .update(
+        items.length === 0
+          ? { status: 'done', locked_until: null, finished_at: new Date().toISOString() }
+          : { status: 'queued', locked_until: null }
+      )
+      .eq('id', jobId)
+  } catch (error) {
+    console.error('[reins/jobs] run failed:', error)
+    await service
+      .from('reins_fetch_jobs')
+      .update({
+        status: 'failed',
+        error: (error as Error).message || 'REINSの取得に失敗しました',
+        // e.g. "login/rejected" from the REINS runner
+        error_code: (error as { code?: string }).code ?? null,
+        locked_until: null,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', jobId)
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Mock REINS for the runner self-test. Serves the screens the runner walks
+ * through — login, dashboard, number search, results, detail with the
+ * 画像・図面 section and image popup — from the REINS pages in `fixtures/`,
+ * trimmed to the markup, class names and button labels around what the
+ * runner's selectors touch. The mock fills in the properties and paths.
+ *
+ * When REINS changes a screen, save the new page over its fixture (and update
+ * `SEL` in `runner.ts`); the self-test then shows whether the runner still
+ * gets through.
+ */
+
+import { readFile } from 'fs/promises'
+import { createServer, type IncomingMessage, type ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+import path from 'path'
+import { PDFDocument, StandardFonts } from 'pdf-lib'
+
+export interface MockProperty {
+  /** Has the 図面 button (the PDF comes as a download) */
+  zumen: boolean
+  /** Images in the 画像・図面 section */
+  images: number
+}
+
+/** The properties the mock REINS knows; any other number returns 検索結果が0件. */
+export const MOCK_PROPERTIES: Record<string, MockProperty> = {
+  '100000000001': { zumen: true, images: 1 },
+  '100000000002': { zumen: false, images: 2 },
+  '100000000003': { zumen: false, images: 0 },
+}
+
+export const MOCK_PATHS = {
+  login: '/login/main/KG/GKG001200',
+  dashboard: '/main/KG/GKG003100',
+  numberSearch: '/main/BK/GBK004100',
+  detail: '/main/BK/GBK003200',
+}
+
+// Set by the login page; the other screens send the browser back to login without it, like REINS
+const SESSION_COOKIE = 'mock_reins_session'
+
+// REINS screens with {{name}} slots for the mock's properties and paths
+const FIXTURES_DIR = path.join(process.cwd(), 'src/lib/reins/fixtures')
+
+async function fixture(name: string, values: Record<string, string | number> = {}): Promise<string> {
+  const template = await readFile(path.join(FIXTURES_DIR, `${name}.html`), 'utf8')
+  return template.replace(/\{\{(\w+)\}\}/g, (slot, key: string) => (key in values ? String(values[key]) : slot))
+}
+
+async function screen(title: string, name: string, values: Record<string, string | number> = {}): Promise<string> {
+  return fixture('layout', { title, body: await fixture(name, values) })
+}
+
+const loginPage = () => screen('ログイン', 'login', {
+  sessionCookie: SESSION_COOKIE,
+  dashboardPath: MOCK_PATHS.dashboard,
+})
+
+const dashboardPage = () => screen('メニュー', 'dashboard', { numberSearchPath: MOCK_PATHS.numberSearch })
+
+const numberSearchPage = () => screen('物件番号検索', 'number-search', {
+  properties: JSON.stringify(MOCK_PROPERTIES),
+  detailPath: MOCK_PATHS.detail,
+})
+
+async function detailPage(id: string, property: MockProperty): Promise<string> {
+  const cards = await Promise.all(
+    Array.from({ length: property.images }, (_, n) => fixture('image-card', { n, label: n + 1 }))
+  )
+  return screen('物件詳細', 'detail', { id, imageCards: cards.join('') })
+}
+
+function imageSvg(label: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="600">
+<rect width="800" height="600" fill="#fff" stroke="#333" stroke-width="8"/>
+<text x="400" y="300" font-size="48" text-anchor="middle">${label}</text></svg>`
+}
+
+async function zumenPdf(id: string): Promise<Uint8Array> {
+  const doc = await PDFDocument.create()
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  doc.addPage([595, 842]).drawText(`MOCK ZUMEN ${id}`, { x: 72, y: 760, size: 24, font })
+  return doc.save()
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url ?? '/', 'http://localhost')
+  const send = (status: number, type: string, body: string | Uint8Array, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': type, ...headers })
+    res.end(body)
+  }
+  const html = async (body: Promise<string>) => send(200, 'text/html; charset=utf-8', await body)
+
+  const file = /^\/files\/(zumen|image)\/(\d+)(?:-(\d+))?\.(pdf|svg)$/.exec(url.pathname)
+  if (file) {
+    const [, kind, id, n] = file
+    const property = MOCK_PROPERTIES[id]
+    if (kind === 'zumen' && property?.zumen) {
+      return send(200, 'application/pdf', await zumenPdf(id), { 'Content-Disposition': `attachment; filename="${id}.pdf"` })
+    }
+    if (kind === 'image' && property && Number(n) < property.images) {
+      return send(200, 'image/svg+xml', imageSvg(`${id} #${Number(n) + 1}`))
+    }
+    return send(404, 'text/plain', 'not found')
+  }
+
+  const loggedIn = (req.headers.cookie ?? '').split(/;\s*/).includes(`${SESSION_COOKIE}=1`)
+  if (url.pathname !== MOCK_PATHS.login && !loggedIn) {
+    return send(302, 'text/plain', '', { Location: MOCK_PATHS.login })
+  }
+
+  switch (url.pathname) {
+    case MOCK_PATHS.login:
+      return html(loginPage())
+    case MOCK_PATHS.dashboard:
+      return html(dashboardPage())
+    case MOCK_PATHS.numberSearch:
+      return html(numberSearchPage())
+    case MOCK_PATHS.detail: {
+      const id = url.searchParams.get('id') ?? ''
+      const property = MOCK_PROPERTIES[id]
+      return property ? html(detailPage(id, property)) : send(404, 'text/plain', 'not found')
+    }
+    default:
+      return send(404, 'text/plain', 'not found')
+  }
+}
+
+/** Start the mock on a free local port. */
+export async function startMockReinsServer(): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = createServer((req, res) => {
+    handle(req, res).catch((err) => {
+      console.error('[reins/mock] error:', err)
+      res.writeHead(500)
+      res.end()
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Shared REINS browser sessions for the runner.
+ *
+ * One headless browser and one logged-in context per REINS account stay open
+ * between fetches, so a job does not launch a browser and log in again for
+ * every batch. The session's cookies (`storageState`) are also written to disk
+ * and reused after a restart; the runner logs in again only when REINS sends
+ * a page back to the login screen. The browser closes after it has been idle
+ * for a while.
+ *
+ * Property fetches across all sessions and workers share one rate limiter,
+ * so parallel pages do not multiply the load on REINS.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import type { Browser, BrowserContext, BrowserContextOptions, BrowserType, Page } from 'playwright'
+
+const DEFAULT_IDLE_MS = 5 * 60_000
+const DEFAULT_MIN_INTERVAL_MS = 1000
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+/** Spaces out calls to `wait()` by at least `intervalMs`, across all callers. */
+class RateLimiter {
+  private nextAt = 0
+
+  constructor(private readonly intervalMs: number) {}
+
+  async wait(): Promise<void> {
+    const now = Date.now()
+    const at = Math.max(now, this.nextAt)
+    this.nextAt = at + this.intervalMs
+    if (at > now) await new Promise((resolve) => setTimeout(resolve, at - now))
+  }
+}
+
+/** One property fetch every REINS_MIN_INTERVAL_MS (default 1s), whatever the concurrency */
+export const reinsRateLimiter = new RateLimiter(envNumber('REINS_MIN_INTERVAL_MS', DEFAULT_MIN_INTERVAL_MS))
+
+/** Parallel pages per fetch (REINS_CONCURRENCY, default 2) */
+export function reinsConcurrency(): number {
+  return Math.max(1, Math.floor(envNumber('REINS_CONCURRENCY', 2)))
+}
+
+export interface ReinsSessionConfig {
+  chromium: BrowserType
+  headless: boolean
+  /** Where the logged-in storageState is kept; null keeps it in memory only */
+  storageStatePath: string | null
+  /** Close the browser once the last user releases it, instead of after the idle time */
+  closeWhenIdle: boolean
+  /** Logs in on the given page (of this session's context) */
+  login: (page: Page) => Promise<void>
+}
+
+export class ReinsSession {
+  private browser: Browser | null = null
+  private context: Promise<BrowserContext> | null = null
+  private loggingIn: Promise<void> | null = null
+  private users = 0
+  private idleTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(
+    private readonly key: string,
+    private readonly config: ReinsSessionConfig,
+  ) {}
+
+  /** The shared context; call `release()` when done with it. */
+  async acquire(): Promise<BrowserContext> {
+    this.users++
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+      this.idleTimer = null
+    }
+    if (!this.context) {
+      this.context = this.open().catch((err) => {
+        this.context = null
+        throw err
+      })
+    }
+    try {
+      return await this.context
+    } catch (err) {
+      this.release()
+      throw err
+    }
+  }
+
+  release(): void {
+    this.users = Math.max(0, this.users - 1)
+    if (this.users > 0) return
+    if (this.config.closeWhenIdle) {
+      void this.close()
+      return
+    }
+    this.idleTimer = setTimeout(() => void this.close(), envNumber('REINS_IDLE_MS', DEFAULT_IDLE_MS))
+  }
+
+  /**
+   * Log in again after the session expired. Concurrent callers share one
+   * login; the new cookies apply to every page of the context.
+   */
+  relogin(page: Page): Promise<void> {
+    if (!this.loggingIn) {
+      this.loggingIn = (async () => {
+        console.log(`[reins] Logging in (${this.key})...`)
+        await this.config.login(page)
+        await this.saveState()
+        console.log('[reins] Login OK')
+      })().finally(() => {
+        this.loggingIn = null
+      })
+    }
+    return this.loggingIn
+  }
+
+  async close(): Promise<void> {
+    const browser = this.browser
+    this.browser = null
+    this.context = null
+    sessions.delete(this.key)
+    if (browser) await browser.close().catch(() => {})
+  }
+
+  private async open(): Promise<BrowserContext> {
+    const browser = await this.config.chromium.launch({ headless: this.config.headless })
+    this.browser = browser
+    return browser.newContext({
+      viewport: { width: 1920, height: 1080 },
+      acceptDownloads: true,
+      storageState: await this.loadState(),
+    })
+  }
+
+  private async loadState(): Promise<BrowserContextOptions['storageState']> {
+    if (!this.config.storageStatePath) return undefined
+    try {
+      return JSON.parse(await readFile(this.config.storageStatePath, 'utf8'))
+    } catch {
+      return undefined
+    }
+  }
+
+  private async saveState(): Promise<void> {
+    const file = this.config.storageStatePath
+    if (!file || !this.context) return
+    try {
+      const state = await (await this.context).storageState()
+      await mkdir(path.dirname(file), { recursive: true })
+      await writeFile(file, JSON.stringify(state), { mode: 0o600 })
+    } catch (err) {
+      console.warn('[reins] could not save the session:', (err as Error).message)
+    }
+  }
+}
+
+const sessions = new Map<string, ReinsSession>()
+
+/** The session for a REINS site and account, created on first use. */
+export function getReinsSession(baseUrl: string, loginId: string, config: ReinsSessionConfig): ReinsSession {
+  const key = `${baseUrl}|${loginId}`
+  let session = sessions.get(key)
+  if (!session) {
+    session = new ReinsSession(key, config)
+    sessions.set(key, session)
+  }
+  return session
+}
+
+/** Default storageState file for an account: REINS_STORAGE_STATE_DIR or <tmp>/reins-sessions. */
+export function defaultStorageStatePath(loginId: string): string {
+  const dir = process.env.REINS_STORAGE_STATE_DIR ?? path.join(tmpdir(), 'reins-sessions')
+  return path.join(dir, `${loginId.replace(/[^\w-]/g, '_')}.json`)
+}
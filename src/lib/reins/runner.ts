@@ -2,16 +2,32 @@
  * REINS runner — downloads 図面 PDFs or falls back to image screenshots
  *
  * Flow per property:
- * 1. login → number search → check results
+ * 1. (log in again if the session expired) → number search → check results
  * 2. Try: click "図面" button → capture PDF download
  * 3. Fallback: click "詳細" → "画像・図面" → screenshot image cards
+ *
+ * Properties are fetched on the shared, logged-in browser session from
+ * `pool.ts`, several pages at a time.
+ *
+ * Every step waits for the element it needs rather than sleeping, so a
+ * changed REINS screen fails at that step with a `ReinsErrorCode` (and a
+ * screenshot of the page) instead of timing out somewhere later. The flow
+ * can be pointed at the mock REINS server (`mock-server.ts`) for a self-test.
  */
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
-const REINS_URLS = {
-  login: 'https://system.reins.jp/login/main/KG/GKG001200',
-  dashboard: 'https://system.reins.jp/main/KG/GKG003100',
+import { mkdir, readFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import type { MaisokuFetchHooks, MaisokuResult } from '@/lib/maisoku/types'
+import { defaultStorageStatePath, getReinsSession, reinsConcurrency, reinsRateLimiter } from './pool'
+
+export const REINS_BASE_URL = 'https://system.reins.jp'
+
+const REINS_PATHS = {
+  login: '/login/main/KG/GKG001200',
+  dashboard: '/main/KG/GKG003100',
 }
 
 const SEL = {
@@ -31,147 +47,273 @@ const SEL = {
   result: {
     zumenBtn: 'button:has-text("図面")',
     detailBtn: 'button:has-text("詳細")',
+    noResults: 'text=検索結果が0件',
   },
   detail: {
     imageSectionBtn: 'button:has-text("画像・図面")',
     imageCard: '.col-image',
   },
   imagePopup: {
+    image: '.modal.show .modal-content img',
+    closeBtn: '.modal.show button:has-text("閉じる")',
     clip: { x: 237, y: 141, width: 806, height: 634 },
   },
 }
 
-export interface FetchResult {
-  reinsId: string
-  status: 'success' | 'not_found' | 'error'
-  pdfs: string[] // base64 PDF or JPEG data
-  source: 'zumen' | 'screenshot' | ''
-  error?: string
+// Upper bounds for a screen to appear; REINS is usually well under these
+const PAGE_TIMEOUT = 20000
+const ELEMENT_TIMEOUT = 15000
+const SEARCH_TIMEOUT = 20000
+
+export type ReinsStep = 'login' | 'search' | 'zumen' | 'screenshot'
+
+/** `<step>/<what went wrong>`; a `*_not_found` code usually means REINS changed that screen. */
+export type ReinsErrorCode =
+  | 'login/credentials_missing'
+  | 'login/form_not_found'
+  | 'login/rejected'
+  | 'login/session_expired'
+  | 'search/form_not_found'
+  | 'search/no_response'
+  | 'zumen/download_failed'
+  | 'screenshot/section_not_found'
+  | 'screenshot/no_images'
+
+export class ReinsStepError extends Error {
+  constructor(
+    readonly code: ReinsErrorCode,
+    message: string,
+    /** The selector that never appeared, when that is what failed */
+    readonly selector?: string,
+    /** Server-local path of the page screenshot taken at the failure */
+    public screenshot?: string,
+  ) {
+    super(message)
+    this.name = 'ReinsStepError'
+  }
+
+  get step(): ReinsStep {
+    return this.code.split('/')[0] as ReinsStep
+  }
+}
+
+export interface ReinsRunnerOptions {
+  /** Defaults to the real REINS; the self-test passes the mock server's URL */
+  baseUrl?: string
+  /** Defaults to REINS_LOGIN_ID / REINS_LOGIN_PASS */
+  credentials?: { loginId: string; password: string }
+  /** Defaults to headless unless REINS_HEADFUL=1 */
+  headless?: boolean
+  /** False for a throwaway session (the self-test): no saved login, browser closed afterwards */
+  reuseSession?: boolean
+  /** Where failure screenshots go; defaults to REINS_FAILURE_DIR or <tmp>/reins-failures */
+  failureDir?: string
+}
+
+async function waitForElement(page: any, selector: string, code: ReinsErrorCode, timeout = ELEMENT_TIMEOUT) {
+  try {
+    return await page.waitForSelector(selector, { state: 'visible', timeout })
+  } catch {
+    throw new ReinsStepError(code, `${selector} が見つかりません`, selector)
+  }
+}
+
+async function captureFailure(page: any, dir: string, label: string): Promise<string | undefined> {
+  try {
+    await mkdir(dir, { recursive: true })
+    const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${label}.png`)
+    await page.screenshot({ path: file, fullPage: true })
+    return file
+  } catch (err: any) {
+    console.warn('[reins] failure screenshot failed:', err.message)
+    return undefined
+  }
+}
+
+async function login(page: any, baseUrl: string, loginId: string, loginPass: string) {
+  await page.goto(baseUrl + REINS_PATHS.login, { waitUntil: 'domcontentloaded', timeout: PAGE_TIMEOUT })
+  await (await waitForElement(page, SEL.login.idInput, 'login/form_not_found')).fill(loginId)
+  await (await waitForElement(page, SEL.login.passInput, 'login/form_not_found')).fill(loginPass)
+
+  const cbs = await page.$$(SEL.login.checkbox)
+  for (const cb of cbs) {
+    if (!(await cb.isChecked())) await cb.click({ force: true })
+  }
+  await (await waitForElement(page, SEL.login.submitBtn, 'login/form_not_found')).click()
+
+  try {
+    await page.waitForURL((url: URL) => url.pathname.includes('GKG003100'), { timeout: PAGE_TIMEOUT })
+  } catch {
+    throw new ReinsStepError('login/rejected', 'REINS login failed')
+  }
+}
+
+/** One property on an already logged-in page. Throws a ReinsStepError when a step fails. */
+async function fetchProperty(page: any, baseUrl: string, reinsId: string, tag: string): Promise<MaisokuResult> {
+  // Navigate to dashboard and open number search; an expired session lands on the login screen
+  await page.goto(baseUrl + REINS_PATHS.dashboard, { waitUntil: 'domcontentloaded', timeout: PAGE_TIMEOUT })
+  if (page.url().includes(REINS_PATHS.login)) {
+    throw new ReinsStepError('login/session_expired', 'REINSのログインが切れています')
+  }
+  await (await waitForElement(page, SEL.dashboard.numberSearchBtn, 'search/form_not_found')).click()
+
+  // Fill property number
+  await (await waitForElement(page, SEL.numberSearch.inputs, 'search/form_not_found')).fill(reinsId)
+  await (await waitForElement(page, SEL.numberSearch.searchBtn, 'search/form_not_found')).click()
+
+  // Wait for either a hit (its buttons) or the zero-results message
+  try {
+    await page.locator(SEL.result.detailBtn)
+      .or(page.locator(SEL.result.zumenBtn))
+      .or(page.locator(SEL.result.noResults))
+      .first()
+      .waitFor({ state: 'visible', timeout: SEARCH_TIMEOUT })
+  } catch {
+    throw new ReinsStepError('search/no_response', '検索結果が表示されません')
+  }
+  if (await page.locator(SEL.result.noResults).count()) {
+    console.log(`${tag} ${reinsId} → not found`)
+    return { reinsId, status: 'not_found', files: [], source: 'reins' }
+  }
+
+  // --- Strategy 1: Try 図面 button (direct PDF download) ---
+  const zumenBtn = await page.$(SEL.result.zumenBtn)
+  if (zumenBtn) {
+    const pdfData = await tryZumenDownload(page, zumenBtn, tag, reinsId)
+    if (pdfData) return { reinsId, status: 'success', files: [{ kind: 'pdf', data: pdfData }], source: 'reins' }
+  }
+
+  // --- Strategy 2: Fallback to 詳細 → 画像・図面 → screenshot ---
+  console.log(`${tag} ${reinsId} → 図面ボタンなし、画像・図面から取得`)
+  const images = await tryImageScreenshots(page, tag, reinsId)
+  return {
+    reinsId,
+    status: 'success',
+    files: images.map((data) => ({ kind: 'image' as const, data })),
+    source: 'reins',
+  }
 }
 
+/**
+ * Fetch the properties on the shared session for the account, with
+ * `REINS_CONCURRENCY` pages working through the list. Results are in
+ * `reinsIds` order; IDs skipped by `shouldStop` have none. Throws when
+ * logging in fails, since no property can be fetched then.
+ */
 export async function fetchMaisokuPdfs(
   reinsIds: string[],
   chromium: any,
-): Promise<FetchResult[]> {
-  const loginId = process.env.REINS_LOGIN_ID
-  const loginPass = process.env.REINS_LOGIN_PASS
-  if (!loginId || !loginPass) throw new Error('REINS credentials not configured')
-
-  const browser = await chromium.launch({ headless: false })
-  const context = await browser.newContext({
-    viewport: { width: 1920, height: 1080 },
-    acceptDownloads: true,
-  })
-  const page = await context.newPage()
-  const results: FetchResult[] = []
-
-  try {
-    // --- Login ---
-    console.log('[reins] Logging in...')
-    await page.goto(REINS_URLS.login, { waitUntil: 'networkidle', timeout: 20000 })
-    await page.waitForTimeout(2000)
-    await page.fill(SEL.login.idInput, loginId)
-    await page.waitForTimeout(300)
-    await page.fill(SEL.login.passInput, loginPass)
-    await page.waitForTimeout(300)
-
-    const cbs = await page.$$(SEL.login.checkbox)
-    for (const cb of cbs) {
-      if (!(await cb.isChecked())) await cb.click({ force: true })
-      await page.waitForTimeout(200)
-    }
-    await page.waitForTimeout(500)
-    await page.click(SEL.login.submitBtn)
-    await page.waitForTimeout(5000)
+  hooks: MaisokuFetchHooks = {},
+  options: ReinsRunnerOptions = {},
+): Promise<MaisokuResult[]> {
+  const loginId = options.credentials?.loginId ?? process.env.REINS_LOGIN_ID
+  const loginPass = options.credentials?.password ?? process.env.REINS_LOGIN_PASS
+  if (!loginId || !loginPass) {
+    throw new ReinsStepError('login/credentials_missing', 'REINS credentials not configured')
+  }
+  const baseUrl = options.baseUrl ?? process.env.REINS_BASE_URL ?? REINS_BASE_URL
+  const failureDir = options.failureDir ?? process.env.REINS_FAILURE_DIR ?? path.join(tmpdir(), 'reins-failures')
 
-    if (!page.url().includes('GKG003100')) {
-      throw new Error('REINS login failed')
-    }
-    console.log('[reins] Login OK')
+  const session = getReinsSession(baseUrl, loginId, {
+    chromium,
+    // Headless unless debugging locally with REINS_HEADFUL=1
+    headless: options.headless ?? process.env.REINS_HEADFUL !== '1',
+    storageStatePath: options.reuseSession === false ? null : defaultStorageStatePath(loginId),
+    closeWhenIdle: options.reuseSession === false,
+    login: (page) => login(page, baseUrl, loginId, loginPass),
+  })
+  const context = await session.acquire()
 
-    // --- Process each ID ---
-    for (let i = 0; i < reinsIds.length; i++) {
-      const reinsId = reinsIds[i]
-      const tag = `[${i + 1}/${reinsIds.length}]`
+  const results: (MaisokuResult | undefined)[] = []
+  let next = 0
+  let fatal: unknown = null
 
-      try {
-        // Navigate to dashboard
-        await page.goto(REINS_URLS.dashboard, { waitUntil: 'networkidle', timeout: 20000 })
-        await page.waitForTimeout(2000)
-
-        // Open number search
-        await page.click(SEL.dashboard.numberSearchBtn)
-        await page.waitForTimeout(3000)
-
-        // Fill property number
-        const inputs = await page.$$(SEL.numberSearch.inputs)
-        if (inputs.length === 0) throw new Error('Number input not found')
-        await inputs[0].fill(reinsId)
-        await page.waitForTimeout(500)
-        await page.click(SEL.numberSearch.searchBtn)
-        await page.waitForTimeout(5000)
-
-        // Check results
-        const hasResults = await page.evaluate(() => !document.body.innerText.includes('検索結果が0件'))
-        if (!hasResults) {
-          console.log(`${tag} ${reinsId} → not found`)
-          results.push({ reinsId, status: 'not_found', pdfs: [], source: '' })
-          continue
+  const worker = async () => {
+    const page = await context.newPage()
+    try {
+      while (next < reinsIds.length && !fatal) {
+        if (hooks.shouldStop?.()) {
+          console.log(`[reins] stopping before ${reinsIds[next]}`)
+          return
         }
+        const i = next++
+        const reinsId = reinsIds[i]
+        const tag = `[${i + 1}/${reinsIds.length}]`
 
-        // --- Strategy 1: Try 図面 button (direct PDF download) ---
-        const zumenBtn = await page.$(SEL.result.zumenBtn)
-        if (zumenBtn) {
-          const pdfData = await tryZumenDownload(context, page, zumenBtn, tag, reinsId)
-          if (pdfData) {
-            results.push({ reinsId, status: 'success', pdfs: [pdfData], source: 'zumen' })
-            continue
-          }
-        }
+        await reinsRateLimiter.wait()
+        await hooks.onStart?.({ reinsId }, i)
 
-        // --- Strategy 2: Fallback to 詳細 → 画像・図面 → screenshot ---
-        console.log(`${tag} ${reinsId} → 図面ボタンなし、画像・図面から取得`)
-        const images = await tryImageScreenshots(page, tag, reinsId)
-        if (images.length > 0) {
-          results.push({ reinsId, status: 'success', pdfs: images, source: 'screenshot' })
-        } else {
-          results.push({ reinsId, status: 'error', pdfs: [], source: '', error: '図面・画像ともに取得できませんでした' })
+        let result: MaisokuResult
+        try {
+          try {
+            result = await fetchProperty(page, baseUrl, reinsId, tag)
+          } catch (err) {
+            if (!(err instanceof ReinsStepError) || err.code !== 'login/session_expired') throw err
+            try {
+              await session.relogin(page)
+            } catch (loginError: any) {
+              if (loginError instanceof ReinsStepError) {
+                loginError.screenshot = await captureFailure(page, failureDir, 'login')
+              }
+              fatal = loginError
+              return
+            }
+            result = await fetchProperty(page, baseUrl, reinsId, tag)
+          }
+        } catch (err: any) {
+          const stepError = err instanceof ReinsStepError ? err : null
+          const screenshot = await captureFailure(page, failureDir, `${reinsId}-${stepError?.step ?? 'unknown'}`)
+          console.error(`${tag} ${reinsId} → error${stepError ? ` [${stepError.code}]` : ''}:`, err.message,
+            screenshot ? `(screenshot: ${screenshot})` : '')
+          result = {
+            reinsId,
+            status: 'error',
+            files: [],
+            source: 'reins',
+            error: err.message,
+            errorCode: stepError?.code,
+            failureScreenshot: screenshot,
+          }
         }
-      } catch (err: any) {
-        console.error(`${tag} ${reinsId} → error:`, err.message)
-        results.push({ reinsId, status: 'error', pdfs: [], source: '', error: err.message })
+        results[i] = result
+        await hooks.onResult?.(result, i)
       }
-
-      // Rate limit
-      await page.waitForTimeout(1000)
+    } finally {
+      await page.close().catch(() => {})
     }
+  }
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(reinsConcurrency(), reinsIds.length) }, worker))
   } finally {
-    await browser.close()
+    session.release()
   }
+  if (fatal) throw fatal
 
-  return results
+  return results.filter((result): result is MaisokuResult => !!result)
 }
 
 // --- Strategy 1: 図面 button → PDF download ---
 async function tryZumenDownload(
-  context: any, page: any, zumenBtn: any, tag: string, reinsId: string,
+  page: any, zumenBtn: any, tag: string, reinsId: string,
 ): Promise<string | null> {
   try {
     const [newPageOrDownload] = await Promise.all([
       Promise.race([
-        context.waitForEvent('page', { timeout: 15000 }).then((p: any) => ({ type: 'page' as const, value: p })),
-        page.waitForEvent('download', { timeout: 15000 }).then((d: any) => ({ type: 'download' as const, value: d })),
+        page.waitForEvent('popup', { timeout: ELEMENT_TIMEOUT }).then((p: any) => ({ type: 'page' as const, value: p })),
+        page.waitForEvent('download', { timeout: ELEMENT_TIMEOUT }).then((d: any) => ({ type: 'download' as const, value: d })),
       ]),
       zumenBtn.click(),
     ])
 
     if (newPageOrDownload.type === 'page') {
       const newPage = newPageOrDownload.value
-      await newPage.waitForTimeout(3000)
+      // A PDF tab may never fire `load` (the viewer takes over); the URL is what matters
+      await newPage.waitForLoadState('load', { timeout: PAGE_TIMEOUT }).catch(() => {})
       const pdfUrl = newPage.url()
 
       if (pdfUrl && (pdfUrl.includes('.pdf') || pdfUrl.includes('findBkknGzu'))) {
-        const response = await context.request.get(pdfUrl)
+        const response = await page.context().request.get(pdfUrl)
         const buffer = await response.body()
         console.log(`${tag} ${reinsId} → PDF via 図面 (${buffer.length} bytes)`)
         await newPage.close()
@@ -180,73 +322,67 @@ async function tryZumenDownload(
       await newPage.close()
     } else if (newPageOrDownload.type === 'download') {
       const download = newPageOrDownload.value
-      const buffer = await download.path().then((p: string) => require('fs').readFileSync(p))
+      const buffer = await readFile(await download.path())
       console.log(`${tag} ${reinsId} → PDF downloaded (${buffer.length} bytes)`)
       return Buffer.from(buffer).toString('base64')
     }
+    console.log(`${tag} ${reinsId} → 図面DL失敗 [zumen/download_failed]: PDFが開きませんでした`)
   } catch (err: any) {
-    console.log(`${tag} ${reinsId} → 図面DL失敗: ${err.message}`)
+    console.log(`${tag} ${reinsId} → 図面DL失敗 [zumen/download_failed]: ${err.message}`)
   }
   return null
 }
 
 // --- Strategy 2: 詳細 → 画像・図面 → screenshot ---
+// Throws a ReinsStepError when the image section or its images never appear.
 async function tryImageScreenshots(
   page: any, tag: string, reinsId: string,
 ): Promise<string[]> {
   const images: string[] = []
 
-  try {
-    await page.click(SEL.result.detailBtn)
-    await page.waitForTimeout(5000)
+  await (await waitForElement(page, SEL.result.detailBtn, 'screenshot/section_not_found')).click()
+  await (await waitForElement(page, SEL.detail.imageSectionBtn, 'screenshot/section_not_found', PAGE_TIMEOUT)).click()
+  await waitForElement(page, SEL.detail.imageCard, 'screenshot/no_images')
 
-    await page.click(SEL.detail.imageSectionBtn)
-    await page.waitForTimeout(2000)
+  const cards = await page.$$(SEL.detail.imageCard)
 
-    const cards = await page.$$(SEL.detail.imageCard)
+  for (let j = 0; j < cards.length; j++) {
+    try {
+      const link = await cards[j].$('a')
+      if (!link) continue
+      await link.click()
 
-    for (let j = 0; j < cards.length; j++) {
+      // Dynamic clip from modal img
+      let clip = SEL.imagePopup.clip
       try {
-        const link = await cards[j].$('a')
-        if (!link) continue
-        await link.click()
-        await page.waitForTimeout(2000)
-
-        // Dynamic clip from modal img
-        let clip = SEL.imagePopup.clip
-        try {
-          const modalImg = await page.$('.modal.show .modal-content img')
-          if (modalImg) {
-            const box = await modalImg.boundingBox()
-            if (box && box.width > 50 && box.height > 50) {
-              clip = { x: box.x + 2, y: box.y + 2, width: box.width - 4, height: box.height - 4 }
-            }
-          }
-        } catch { /* use fallback clip */ }
+        const modalImg = await page.waitForSelector(SEL.imagePopup.image, { state: 'visible', timeout: ELEMENT_TIMEOUT })
+        await modalImg.evaluate((img: HTMLImageElement) => img.complete || new Promise((r) => { img.onload = r; img.onerror = r }))
+        const box = await modalImg.boundingBox()
+        if (box && box.width > 50 && box.height > 50) {
+          clip = { x: box.x + 2, y: box.y + 2, width: box.width - 4, height: box.height - 4 }
+        }
+      } catch { /* use fallback clip */ }
 
-        const buffer = await page.screenshot({ type: 'jpeg', quality: 90, clip })
-        images.push(Buffer.from(buffer).toString('base64'))
+      const buffer = await page.screenshot({ type: 'jpeg', quality: 90, clip })
+      images.push(Buffer.from(buffer).toString('base64'))
 
-        // Close modal
-        const closeBtn = await page.$('.modal.show button:has-text("閉じる")')
-        if (closeBtn) {
-          await closeBtn.click()
-          await page.waitForTimeout(800)
-        }
-      } catch (err: any) {
-        console.error(`${tag} Image ${j + 1} error:`, err.message)
-        try {
-          const closeBtn = await page.$('.modal.show button:has-text("閉じる")')
-          if (closeBtn) await closeBtn.click()
-          await page.waitForTimeout(500)
-        } catch { /* ignore */ }
-      }
+      await closeImagePopup(page)
+    } catch (err: any) {
+      console.error(`${tag} Image ${j + 1} error:`, err.message)
+      try {
+        await closeImagePopup(page)
+      } catch { /* ignore */ }
     }
-
-    console.log(`${tag} ${reinsId} → ${images.length} screenshots`)
-  } catch (err: any) {
-    console.error(`${tag} ${reinsId} → screenshot fallback error:`, err.message)
   }
 
+  console.log(`${tag} ${reinsId} → ${images.length} screenshots`)
+  if (images.length === 0) throw new ReinsStepError('screenshot/no_images', '図面・画像ともに取得できませんでした')
   return images
 }
+
+async function closeImagePopup(page: any) {
+  const closeBtn = await page.$(SEL.imagePopup.closeBtn)
+  if (!closeBtn) return
+  await closeBtn.click()
+  await page.waitForSelector('.modal.show', { state: 'hidden', timeout: ELEMENT_TIMEOUT })
+}
@@ -0,0 +1,104 @@
+/**
+ * REINS runner self-test and health check.
+ *
+ *   - self-test: the full runner flow against the mock REINS server, with a
+ *     fixed expectation per mock property. Catches regressions in the runner.
+ *   - health check: one known REINS ID against the real REINS. A failing step
+ *     code such as `search/form_not_found` means REINS changed that screen.
+ */
+
+import type { BrowserType } from 'playwright'
+import type { MaisokuResult } from '@/lib/maisoku/types'
+import { fetchMaisokuPdfs, ReinsStepError } from './runner'
+import { startMockReinsServer } from './mock-server'
+
+export interface SelfTestCheck {
+  reinsId: string
+  expected: string
+  actual: string
+  ok: boolean
+  failureScreenshot?: string
+}
+
+export interface SelfTestReport {
+  target: 'mock' | 'live'
+  ok: boolean
+  checks: SelfTestCheck[]
+  /** A failure that stopped the whole run (login) */
+  error?: { code?: string; message: string; screenshot?: string }
+}
+
+// What the runner should return for each mock property (see MOCK_PROPERTIES)
+const MOCK_EXPECTATIONS: { reinsId: string; expected: string }[] = [
+  { reinsId: '100000000001', expected: 'success: pdf' },
+  { reinsId: '100000000002', expected: 'success: image, image' },
+  { reinsId: '100000000003', expected: 'error [screenshot/no_images]' },
+  { reinsId: '999999999999', expected: 'not_found' },
+]
+
+function describe(result: MaisokuResult | undefined): string {
+  if (!result) return 'no result'
+  if (result.status === 'success') return `success: ${result.files.map((file) => file.kind).join(', ')}`
+  if (result.status === 'error') return `error [${result.errorCode ?? 'unknown'}]`
+  return result.status
+}
+
+async function run(
+  target: SelfTestReport['target'],
+  expectations: { reinsId: string; expected: string | ((actual: string) => boolean) }[],
+  runner: (reinsIds: string[]) => Promise<MaisokuResult[]>
+): Promise<SelfTestReport> {
+  let results: MaisokuResult[]
+  try {
+    results = await runner(expectations.map((e) => e.reinsId))
+  } catch (err) {
+    return {
+      target,
+      ok: false,
+      checks: [],
+      error: {
+        code: err instanceof ReinsStepError ? err.code : undefined,
+        message: err instanceof Error ? err.message : String(err),
+        screenshot: err instanceof ReinsStepError ? err.screenshot : undefined,
+      },
+    }
+  }
+
+  const checks = expectations.map(({ reinsId, expected }) => {
+    const result = results.find((r) => r.reinsId === reinsId)
+    const actual = describe(result)
+    return {
+      reinsId,
+      expected: typeof expected === 'string' ? expected : 'success',
+      actual,
+      ok: typeof expected === 'string' ? actual === expected : expected(actual),
+      failureScreenshot: result?.failureScreenshot,
+    }
+  })
+  return { target, ok: checks.every((check) => check.ok), checks }
+}
+
+export async function runReinsSelfTest(chromium: BrowserType): Promise<SelfTestReport> {
+  const mock = await startMockReinsServer()
+  try {
+    return await run('mock', MOCK_EXPECTATIONS, (reinsIds) =>
+      fetchMaisokuPdfs(reinsIds, chromium, {}, {
+        baseUrl: mock.url,
+        credentials: { loginId: 'self-test', password: 'self-test' },
+        headless: true,
+        reuseSession: false,
+      })
+    )
+  } finally {
+    await mock.close()
+  }
+}
+
+/** `reinsId` must be a property that is on REINS and has a 図面 or images. */
+export async function runReinsHealthCheck(chromium: BrowserType, reinsId: string): Promise<SelfTestReport> {
+  return run(
+    'live',
+    [{ reinsId, expected: (actual) => actual.startsWith('success') }],
+    (reinsIds) => fetchMaisokuPdfs(reinsIds, chromium, {}, { headless: true })
+  )
+}
@@ -1,4 +1,5 @@
 import { createServerClient } from '@supabase/ssr'
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
 import { cookies } from 'next/headers'
 
 export async function createClient() {
@@ -25,3 +26,46 @@ export async function createClient() {
     }
   )
 }
+
+/**
+ * Bearer-token client for API routes called outside the browser (back-office
+ * scripts, sales-ai-mockup). RLS sees the same `auth.uid()` as a cookie
+ * session for the token's user.
+ */
+export function createTokenClient(accessToken: string) {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      global: { headers: { Authorization: `Bearer ${accessToken}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    }
+  )
+}
+
+/**
+ * Service-role client for writes no user may make through RLS (the shared
+ * maisoku cache, REINS fetch jobs). Server-only; null when
+ * SUPABASE_SERVICE_ROLE_KEY is not set.
+ */
+export function createServiceClient() {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!key) return null
+  return createSupabaseClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
+
+/**
+ * Resolve the caller of an API route. Accepts either the browser's cookie
+ * session or an `Authorization: Bearer <access_token>` header.
+ */
+export async function getRequestAuth(request: Request) {
+  const header = request.headers.get('authorization')
+  const token = header && /^bearer /i.test(header) ? header.slice(7).trim() : null
+  const supabase = token ? createTokenClient(token) : await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser(token ?? undefined)
+  return { supabase, user }
+}
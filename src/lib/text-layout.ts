@@ -0,0 +1,244 @@
+/**
+ * Line layout for textual blocks, shared by the HTML preview and the PDF
+ * generator so both place every line at the same position.
+ *
+ * All values are in block units (preview pixels); the generator multiplies
+ * the result by its scale ratio. Only the width measurement differs between
+ * callers — canvas `measureText` in the browser, the embedded font's advance
+ * widths in pdf-lib — and both measure the same Noto Sans JP faces.
+ */
+
+import type { TextualBlock } from '@/lib/blocks'
+
+/** Width of `text` at `fontSize`, in the same units as fontSize. */
+export type MeasureText = (text: string, fontSize: number) => number
+
+export const TEXT_PADDING_X = 4
+export const TEXT_PADDING_Y = 2
+export const DEFAULT_LINE_HEIGHT = 1.2
+export const MIN_AUTO_FIT_FONT_SIZE = 6
+const AUTO_FIT_STEP = 0.5
+
+/**
+ * Baseline offset from the top of the em box. Noto Sans JP sits its
+ * ideographic em box on -0.12em, so the box top is 0.88em above the baseline.
+ */
+const BASELINE_RATIO = 0.88
+
+/** One `drawText` / `<text>` call: a whole line, or a single glyph in vertical text. */
+export interface TextRun {
+  text: string
+  /** Left edge, relative to the block */
+  x: number
+  /** Baseline, relative to the block top */
+  baseline: number
+  /** Set for glyphs turned 90° clockwise (Latin, long vowel marks in vertical text) about this point */
+  rotateAbout?: { x: number; y: number }
+}
+
+export interface TextLayout {
+  /** Font size actually used (smaller than the block's when auto-fit shrank it) */
+  fontSize: number
+  runs: TextRun[]
+  /** Text does not fit the block even after auto-fit */
+  overflow: boolean
+}
+
+type TextLayoutStyle = Pick<
+  TextualBlock,
+  'width' | 'height' | 'fontSize' | 'textAlign' | 'wrap' | 'autoFit' | 'lineHeight' | 'writingMode'
+>
+
+// 行頭禁則（行頭に来てはいけない文字）/ 行末禁則（行末に来てはいけない文字）
+const NO_LINE_START = new Set(
+  Array.from('、。，．,.:;!?)]}）」』】〕〉》〟’”ー〜・：；？！ぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ々ゝゞヽヾ')
+)
+const NO_LINE_END = new Set(Array.from('([{（「『【〔〈《〝‘“'))
+
+// 縦書き用の字形（Unicode の縦書き用互換形を使い、フォントの vert 機能に頼らない）
+const VERTICAL_FORMS: Record<string, string> = {
+  '、': '︑', '。': '︒', '，': '︐', '：': '︓', '；': '︔', '！': '︕', '？': '︖',
+  '「': '﹁', '」': '﹂', '『': '﹃', '』': '﹄', '（': '︵', '）': '︶', '｛': '︷', '｝': '︸',
+  '〔': '︹', '〕': '︺', '【': '︻', '】': '︼', '《': '︽', '》': '︾', '〈': '︿', '〉': '﹀',
+  '［': '﹇', '］': '﹈', '…': '︙', '‥': '︰', '—': '︱', '–': '︲',
+}
+// 縦書きで横倒しにする文字（半角英数記号・長音・波ダッシュ）
+const ROTATED_IN_VERTICAL = /^[\x20-\x7Eー〜～−―‐]$/
+
+// Latin words / numbers stay together; everything else breaks per character
+const TOKEN_PATTERN = /[A-Za-z0-9À-ɏ][\x21-\x7EÀ-ɏ]*|\s+|[\s\S]/gu
+
+const isSpace = (token: string) => /^\s+$/.test(token)
+const firstChar = (token: string) => Array.from(token)[0] ?? ''
+const lastChar = (token: string) => Array.from(token).pop() ?? ''
+
+function wrapParagraph(text: string, maxWidth: number, fontSize: number, measure: MeasureText): string[] {
+  const queue = text.match(TOKEN_PATTERN) ?? []
+  const lines: string[] = []
+  let current: string[] = []
+
+  const fits = (tokens: string[]) => measure(tokens.join('').trimEnd(), fontSize) <= maxWidth
+  const flush = () => {
+    lines.push(current.join('').trimEnd())
+    current = []
+  }
+
+  for (let i = 0; i < queue.length; i++) {
+    const token = queue[i]
+    if (current.length === 0 && isSpace(token)) continue
+    if (fits([...current, token])) {
+      current.push(token)
+      continue
+    }
+    if (isSpace(token)) {
+      flush()
+      continue
+    }
+
+    if (current.length === 0) {
+      // A word wider than the block is broken per character
+      const chars = Array.from(token)
+      if (chars.length > 1) {
+        queue.splice(i, 1, ...chars)
+        i--
+      } else {
+        current.push(token)
+      }
+      continue
+    }
+
+    // 追い出し: keep prohibited characters off the start / end of a line
+    const carried: string[] = []
+    if (NO_LINE_START.has(firstChar(token)) && current.length > 1) {
+      carried.unshift(current.pop()!)
+    }
+    while (current.length > 1 && NO_LINE_END.has(lastChar(current[current.length - 1]))) {
+      carried.unshift(current.pop()!)
+    }
+    flush()
+    current = carried
+    i--
+  }
+
+  if (current.length > 0 || lines.length === 0) flush()
+  return lines
+}
+
+function layoutHorizontal(
+  paragraphs: string[],
+  style: TextLayoutStyle,
+  fontSize: number,
+  measure: MeasureText
+): TextLayout {
+  const innerWidth = Math.max(0, style.width - TEXT_PADDING_X * 2)
+  const innerHeight = Math.max(0, style.height - TEXT_PADDING_Y * 2)
+  const lineHeight = fontSize * (style.lineHeight ?? DEFAULT_LINE_HEIGHT)
+
+  const texts = style.wrap
+    ? paragraphs.flatMap((p) => wrapParagraph(p, innerWidth, fontSize, measure))
+    : paragraphs
+  const widths = texts.map((t) => measure(t, fontSize))
+
+  // Leading below the last line is not ink, so it does not count towards overflow
+  const contentHeight = fontSize + (texts.length - 1) * lineHeight
+  const overflow = widths.some((w) => w > innerWidth + 0.01) || contentHeight > innerHeight + 0.01
+
+  const top = TEXT_PADDING_Y + Math.max(0, (innerHeight - contentHeight) / 2)
+  const runs = texts.map((text, k) => {
+    let x = TEXT_PADDING_X
+    if (style.textAlign === 'center') x += (innerWidth - widths[k]) / 2
+    else if (style.textAlign === 'right') x += innerWidth - widths[k]
+    return { text, x, baseline: top + k * lineHeight + fontSize * BASELINE_RATIO }
+  })
+
+  return { fontSize, runs, overflow }
+}
+
+/**
+ * 縦書き: columns run right to left, glyphs top to bottom. textAlign maps to
+ * the position along the column (left = top, right = bottom).
+ */
+function layoutVertical(
+  paragraphs: string[],
+  style: TextLayoutStyle,
+  fontSize: number,
+  measure: MeasureText
+): TextLayout {
+  const innerWidth = Math.max(0, style.width - TEXT_PADDING_X * 2)
+  const innerHeight = Math.max(0, style.height - TEXT_PADDING_Y * 2)
+  const columnPitch = fontSize * (style.lineHeight ?? DEFAULT_LINE_HEIGHT)
+
+  // Upright glyphs advance one em; rotated ones advance by their horizontal width
+  const advance = (ch: string, size: number) => (ROTATED_IN_VERTICAL.test(ch) ? measure(ch, size) : size)
+  const columnLength: MeasureText = (text, size) =>
+    Array.from(text).reduce((sum, ch) => sum + advance(ch, size), 0)
+
+  const columns = style.wrap
+    ? paragraphs.flatMap((p) => wrapParagraph(p, innerHeight, fontSize, columnLength))
+    : paragraphs
+  const lengths = columns.map((c) => columnLength(c, fontSize))
+
+  const contentWidth = fontSize + (columns.length - 1) * columnPitch
+  const overflow = lengths.some((l) => l > innerHeight + 0.01) || contentWidth > innerWidth + 0.01
+
+  const right = TEXT_PADDING_X + innerWidth - Math.max(0, (innerWidth - contentWidth) / 2)
+  const runs: TextRun[] = []
+
+  columns.forEach((column, k) => {
+    const centerX = right - fontSize / 2 - k * columnPitch
+    let y = TEXT_PADDING_Y
+    if (style.textAlign === 'center') y += (innerHeight - lengths[k]) / 2
+    else if (style.textAlign === 'right') y += innerHeight - lengths[k]
+
+    for (const ch of Array.from(column)) {
+      const step = advance(ch, fontSize)
+      if (ROTATED_IN_VERTICAL.test(ch)) {
+        const center = { x: centerX, y: y + step / 2 }
+        if (ch !== ' ') {
+          runs.push({
+            text: ch,
+            x: center.x - step / 2,
+            baseline: center.y + (BASELINE_RATIO - 0.5) * fontSize,
+            rotateAbout: center,
+          })
+        }
+      } else if (!/\s/.test(ch)) {
+        const text = VERTICAL_FORMS[ch] ?? ch
+        runs.push({ text, x: centerX - measure(text, fontSize) / 2, baseline: y + fontSize * BASELINE_RATIO })
+      }
+      y += step
+    }
+  })
+
+  return { fontSize, runs, overflow }
+}
+
+function layoutAtSize(content: string, style: TextLayoutStyle, fontSize: number, measure: MeasureText): TextLayout {
+  const paragraphs = content.split(/\r?\n/)
+  return style.writingMode === 'vertical'
+    ? layoutVertical(paragraphs, style, fontSize, measure)
+    : layoutHorizontal(paragraphs, style, fontSize, measure)
+}
+
+/** Where a run's text origin lands once its rotation is applied (block units). */
+export function runOrigin(run: TextRun): { x: number; y: number } {
+  if (!run.rotateAbout) return { x: run.x, y: run.baseline }
+  // 90° clockwise on a y-down plane: (dx, dy) → (-dy, dx)
+  const { x: cx, y: cy } = run.rotateAbout
+  return { x: cx - (run.baseline - cy), y: cy + (run.x - cx) }
+}
+
+/** Break `content` into lines for a block, shrinking the font first when auto-fit is on. */
+export function layoutText(content: string, style: TextLayoutStyle, measure: MeasureText): TextLayout {
+  let layout = layoutAtSize(content, style, style.fontSize, measure)
+  if (!style.autoFit) return layout
+
+  for (
+    let size = style.fontSize - AUTO_FIT_STEP;
+    layout.overflow && size >= MIN_AUTO_FIT_FONT_SIZE;
+    size -= AUTO_FIT_STEP
+  ) {
+    layout = layoutAtSize(content, style, size, measure)
+  }
+  return layout
+}
@@ -5,8 +5,35 @@ export interface MaskSettings {
   bottomHeight: number
   leftWidth: number
   enableLShape: boolean
+  // 帯以外の任意の白塗り（ロゴ・ページ中の電話番号など）
+  shapes?: MaskShape[]
 }
 
+// 白塗り図形の座標はPDFポイント（表示向き・左上原点）
+export interface MaskPoint {
+  x: number
+  y: number
+}
+
+export interface MaskRectShape {
+  id: string
+  type: 'rect'
+  x: number
+  y: number
+  width: number
+  height: number
+  fill: string  // #rrggbb
+}
+
+export interface MaskPolygonShape {
+  id: string
+  type: 'polygon'
+  points: MaskPoint[]
+  fill: string  // #rrggbb
+}
+
+export type MaskShape = MaskRectShape | MaskPolygonShape
+
 export interface PageInfo {
   id: string
   fileId: string
@@ -16,8 +43,24 @@ export interface PageInfo {
   pdfData: Uint8Array  // ArrayBufferではなくUint8Arrayを使用（detached対策）
   status: 'pending' | 'editing' | 'done'
   canvasDimensions?: { width: number; height: number }
+  // ページサイズ（PDFポイント・表示向き）。ページ間で白塗り・ブロックを拡縮して適用する際に使用
+  pageSize?: { width: number; height: number }
+  // 表示の回転（時計回りの度数、/Rotate と同じ値）。未設定なら元PDFの /Rotate のまま
+  rotation?: number
+  // 公開時に1物件としてまとめる単位。未設定なら元ファイル（fileId）ごと
+  listingGroup?: string
 }
 
 export interface PageMaskSettings {
   [pageId: string]: MaskSettings
 }
+
+// 帯の自動検出結果（confidence: 0〜1、低いほど要確認）
+export interface MaskDetection {
+  confidence: number
+  source: 'text' | 'lines' | 'text+lines' | 'none'
+}
+
+export interface PageMaskDetections {
+  [pageId: string]: MaskDetection
+}
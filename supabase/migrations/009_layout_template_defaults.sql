@@ -0,0 +1,14 @@
+-- Layout templates v2
+--   - Block geometry in `blocks` is stored page-relative (0..1 of the page's
+--     displayed width/height) so a template survives different page sizes.
+--   - `mask` stores the white-out band the template was designed for, also
+--     page-relative. NULL = keep whatever mask the page already has.
+--   - Each user can pick one template that is applied automatically when
+--     pages are loaded into the editor.
+
+ALTER TABLE layout_templates
+  ADD COLUMN IF NOT EXISTS mask JSONB;
+
+ALTER TABLE company_profiles
+  ADD COLUMN IF NOT EXISTS default_template_id UUID
+    REFERENCES layout_templates(id) ON DELETE SET NULL;
@@ -0,0 +1,6 @@
+-- User-defined profile fields (e.g. 営業時間, 定休日) that can be bound to
+-- blocks in the editor. Array of { key, label, value }; `key` is stable and
+-- referenced by CustomFieldBlock.field.
+
+ALTER TABLE company_profiles
+  ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,31 @@
+-- Editor drafts: autosaved editor state so work survives a closed tab.
+--   - `state` holds pages (without PDF bytes), masks and block placement.
+--     The PDF bytes stay in the browser's IndexedDB (pdf-store), keyed by the
+--     draft id, so a draft can only be resumed on the browser that wrote it.
+--   - `session_id` ties a draft to an obikae popup session; reopening the
+--     session resumes the draft instead of starting over.
+
+CREATE TABLE editor_drafts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES obikae_sessions(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  page_count INTEGER NOT NULL DEFAULT 0,
+  state JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE editor_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own editor drafts"
+  ON editor_drafts FOR ALL
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_editor_drafts_user_updated ON editor_drafts(user_id, updated_at DESC);
+CREATE UNIQUE INDEX idx_editor_drafts_session ON editor_drafts(session_id) WHERE session_id IS NOT NULL;
+
+CREATE TRIGGER update_editor_drafts_updated_at
+  BEFORE UPDATE ON editor_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,31 @@
+-- Brand fonts uploaded per company. Array of { id, name, path } in
+-- company_profiles; `id` is stable and referenced by a text block's
+-- `fontFamily`. The TTF/OTF files live in the private `fonts` bucket under
+-- the user's folder: fonts may be licensed, so only the owner reads their
+-- files, through short-lived signed URLs.
+
+ALTER TABLE company_profiles
+  ADD COLUMN IF NOT EXISTS custom_fonts JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+INSERT INTO storage.buckets (id, name, public) VALUES ('fonts', 'fonts', false);
+
+CREATE POLICY "Users can upload own fonts"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'fonts'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Users can read own fonts"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'fonts'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Users can delete own fonts"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'fonts'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
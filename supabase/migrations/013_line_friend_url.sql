@@ -0,0 +1,4 @@
+-- LINE add-friend link (https://line.me/R/ti/p/@...) for vector QR blocks.
+-- Replaces the uploaded line_qr_url bitmap where set; the bitmap column stays
+-- for existing image blocks.
+ALTER TABLE company_profiles ADD COLUMN line_url TEXT;
@@ -0,0 +1,100 @@
+-- Tracked QR codes for printed maisoku.
+--   - Each listing QR encodes a short URL /q/<code> instead of /p/<slug>.
+--     One code per listing per export batch (the web publish itself is the
+--     'web' batch; every 印刷用PDF download makes a new 'print' batch), so
+--     scans tell which handout was looked up.
+--   - /q/<code> always redirects to the linked listing's own page
+--     (/p/<slug>), built on the server; a link stores no free target URL.
+--   - Codes are resolved by `resolve_print_link` (SECURITY DEFINER), which
+--     also logs the scan, so anonymous visitors need neither read access to
+--     print_links nor insert access to print_scans. Only the listing owner
+--     reads links and scans.
+
+CREATE TABLE print_links (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  listing_id UUID NOT NULL REFERENCES published_listings(id) ON DELETE CASCADE,
+  batch_id TEXT NOT NULL,
+  channel TEXT NOT NULL DEFAULT 'print' CHECK (channel IN ('web', 'print')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE print_scans (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  link_id UUID NOT NULL REFERENCES print_links(id) ON DELETE CASCADE,
+  listing_id UUID REFERENCES published_listings(id) ON DELETE SET NULL,
+  user_agent TEXT,
+  ts TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_print_links_listing ON print_links(listing_id);
+CREATE INDEX idx_print_scans_listing_ts ON print_scans(listing_id, ts DESC);
+
+ALTER TABLE print_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE print_scans ENABLE ROW LEVEL SECURITY;
+
+-- Links may only point at the user's own listings
+CREATE POLICY "Users can manage own print links"
+  ON print_links FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND listing_id IN (SELECT id FROM published_listings WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Owner can read print scans"
+  ON print_scans FOR SELECT
+  USING (
+    link_id IN (
+      SELECT id FROM print_links WHERE auth.uid() = user_id
+    )
+  );
+
+-- The listing slug and batch for a code; records a scan when p_record_scan
+CREATE OR REPLACE FUNCTION resolve_print_link(p_code TEXT, p_user_agent TEXT, p_record_scan BOOLEAN)
+RETURNS TABLE (slug TEXT, batch_id TEXT, channel TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link RECORD;
+BEGIN
+  SELECT pl.id, pl.listing_id, pl.batch_id, pl.channel, l.slug
+  INTO link
+  FROM print_links pl
+  JOIN published_listings l ON l.id = pl.listing_id
+  WHERE pl.code = p_code AND l.is_published = true;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF p_record_scan THEN
+    INSERT INTO print_scans (link_id, listing_id, user_agent)
+    VALUES (link.id, link.listing_id, left(p_user_agent, 500));
+  END IF;
+
+  RETURN QUERY SELECT link.slug, link.batch_id, link.channel;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION resolve_print_link(TEXT, TEXT, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION resolve_print_link(TEXT, TEXT, BOOLEAN) TO anon, authenticated;
+
+-- Scan counts per listing for the published list (runs with the caller's RLS)
+CREATE OR REPLACE FUNCTION print_scan_stats(p_listing_ids UUID[])
+RETURNS TABLE (listing_id UUID, total BIGINT, print BIGINT, last_scanned_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.listing_id,
+         COUNT(*),
+         COUNT(*) FILTER (WHERE pl.channel = 'print'),
+         MAX(s.ts)
+  FROM print_scans s
+  JOIN print_links pl ON pl.id = s.link_id
+  WHERE s.listing_id = ANY(p_listing_ids)
+  GROUP BY s.listing_id;
+$$;
@@ -0,0 +1,4 @@
+-- Refuse Web publish while the preflight check reports errors (uncovered
+-- original contact info, empty profile fields, images that fail to load).
+-- Off by default: the report is shown either way and PDF export is never blocked.
+ALTER TABLE company_profiles ADD COLUMN block_publish_on_preflight_errors BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,91 @@
+-- REINS fetch jobs: fetching maisoku for many REINS IDs outlives a single
+-- request, so the fetch runs as a job that callers poll.
+--   - One row per REINS ID in reins_fetch_items with its own status and
+--     attempt count; failed items are retried up to 3 times.
+--   - A run holds the job for a lease (`locked_until`). A run that hits the
+--     function time limit leaves the job 'queued' with items still pending, and
+--     the next poll starts another run; an expired lease means the run died.
+--   - Fetched files go to the private `reins-maisoku` bucket under
+--     <user_id>/<job_id>/ and are listed in `files`.
+
+CREATE TABLE reins_fetch_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'done', 'failed')),
+  error TEXT,
+  locked_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE TABLE reins_fetch_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES reins_fetch_jobs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  reins_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'success', 'not_found', 'error')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  source TEXT CHECK (source IN ('zumen', 'screenshot')),
+  files TEXT[] NOT NULL DEFAULT '{}',
+  error TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (job_id, position)
+);
+
+ALTER TABLE reins_fetch_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reins_fetch_items ENABLE ROW LEVEL SECURITY;
+
+-- Users read their jobs and delete finished ones; the server (service role)
+-- creates and runs them, so status, attempts, the lease and `files` cannot be
+-- written from the client
+CREATE POLICY "Users can read own REINS fetch jobs"
+  ON reins_fetch_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own REINS fetch jobs"
+  ON reins_fetch_jobs FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can read items of own REINS fetch jobs"
+  ON reins_fetch_items FOR SELECT
+  USING (
+    job_id IN (SELECT id FROM reins_fetch_jobs WHERE user_id = auth.uid())
+  );
+
+CREATE INDEX idx_reins_fetch_jobs_user_created ON reins_fetch_jobs(user_id, created_at DESC);
+CREATE INDEX idx_reins_fetch_items_job ON reins_fetch_items(job_id, position);
+
+CREATE TRIGGER update_reins_fetch_jobs_updated_at
+  BEFORE UPDATE ON reins_fetch_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_reins_fetch_items_updated_at
+  BEFORE UPDATE ON reins_fetch_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO storage.buckets (id, name, public) VALUES ('reins-maisoku', 'reins-maisoku', false);
+
+CREATE POLICY "Users can upload own REINS maisoku"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'reins-maisoku'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Users can read own REINS maisoku"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'reins-maisoku'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Users can delete own REINS maisoku"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'reins-maisoku'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
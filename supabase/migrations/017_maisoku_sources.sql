@@ -0,0 +1,17 @@
+-- Maisoku sources beyond REINS: a fetch job item carries what the vacancy
+-- tells us about its maisoku (a secured URL, a platform listing, an upload),
+-- and `source` records which adapter produced the files. Whether a file is a
+-- PDF or an image now follows from its extension.
+
+ALTER TABLE reins_fetch_items
+  ADD COLUMN maisoku_url TEXT,
+  ADD COLUMN platform_id TEXT,
+  ADD COLUMN upload_path TEXT;
+
+ALTER TABLE reins_fetch_items DROP CONSTRAINT reins_fetch_items_source_check;
+
+UPDATE reins_fetch_items SET source = 'reins' WHERE source IN ('zumen', 'screenshot');
+
+ALTER TABLE reins_fetch_items
+  ADD CONSTRAINT reins_fetch_items_source_check
+  CHECK (source IN ('upload', 'url', 'platform', 'reins'));
@@ -0,0 +1,6 @@
+-- Step error codes from the REINS runner ("login/rejected",
+-- "search/form_not_found", ...) next to the human-readable error, so a
+-- changed REINS screen shows up as one code across many failed items.
+
+ALTER TABLE reins_fetch_jobs ADD COLUMN error_code TEXT;
+ALTER TABLE reins_fetch_items ADD COLUMN error_code TEXT;
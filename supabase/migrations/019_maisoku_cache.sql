@@ -0,0 +1,53 @@
+-- Maisoku cache: the same property is fetched for many customers, so the
+-- last fetched files are kept per source and reused while fresh.
+--   - An entry is keyed by its source and what that source fetched:
+--     `reins` → the REINS ID, `platform` → "<platform>:<id>", `url` → the URL.
+--     A URL's files are only ever served for that same URL, never under a
+--     REINS ID, so one caller cannot plant files for another.
+--   - Shared by every signed-in user, who can read it; only the server
+--     writes it (service role). User uploads are never cached.
+--   - `content_hash` is a SHA-256 over the files; a re-fetch from the same
+--     source that hashes differently sets `changed_at` and keeps the old
+--     hash in `previous_hash`.
+--   - Files go to the private `maisoku-cache` bucket under
+--     <source>/<key hash>/<hash prefix>-<n>.pdf|jpg.
+--   - Fetch jobs record where each item's files came from: `cached_at` is when
+--     they were fetched (older than the job for a cache hit) and `changed`
+--     says a re-fetch differed from the cached files. `force_refresh` skips
+--     the cache for the whole job.
+
+CREATE TABLE maisoku_cache (
+  source TEXT NOT NULL CHECK (source IN ('url', 'platform', 'reins')),
+  source_key TEXT NOT NULL,
+  files TEXT[] NOT NULL DEFAULT '{}',
+  content_hash TEXT NOT NULL,
+  previous_hash TEXT,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  changed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (source, source_key)
+);
+
+ALTER TABLE maisoku_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read the maisoku cache"
+  ON maisoku_cache FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_maisoku_cache_updated_at
+  BEFORE UPDATE ON maisoku_cache
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO storage.buckets (id, name, public) VALUES ('maisoku-cache', 'maisoku-cache', false);
+
+CREATE POLICY "Signed-in users can read cached maisoku"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'maisoku-cache' AND auth.uid() IS NOT NULL);
+
+ALTER TABLE reins_fetch_jobs ADD COLUMN force_refresh BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE reins_fetch_items
+  ADD COLUMN cached_at TIMESTAMPTZ,
+  ADD COLUMN changed BOOLEAN NOT NULL DEFAULT false;